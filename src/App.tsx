@@ -13,6 +13,8 @@ import { NostrLoginProvider } from '@nostrify/react/login';
 import { AppProvider } from '@/components/AppProvider';
 import { NWCProvider } from '@/contexts/NWCContext';
 import { AppConfig } from '@/contexts/AppContext';
+import { DEFAULT_UNIT_PREFERENCES } from '@/lib/units';
+import { DEFAULT_DRIFT_THRESHOLD } from '@/lib/drift';
 import AppRouter from './AppRouter';
 
 const head = createHead({
@@ -41,6 +43,12 @@ const defaultConfig: AppConfig = {
     ],
     updatedAt: 0,
   },
+  stationRelays: ['wss://relay.samt.st'],
+  liveMode: false,
+  customSensorTypes: [],
+  unitPreferences: DEFAULT_UNIT_PREFERENCES,
+  outlierRules: {},
+  driftThreshold: DEFAULT_DRIFT_THRESHOLD,
 };
 
 export function App() {
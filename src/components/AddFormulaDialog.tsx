@@ -0,0 +1,150 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { SquareFunction } from 'lucide-react';
+import { useSensorTypes } from '@/hooks/useSensorTypes';
+import {
+  FORMULA_FUNCTIONS,
+  FormulaError,
+  evaluateComputedSeries,
+  getVariableNames,
+  type ComputedSeries,
+  type FormulaSource,
+} from '@/lib/formula';
+
+interface AddFormulaDialogProps {
+  sources: FormulaSource[]; // Series the formula can refer to
+  onAdd: (computed: Omit<ComputedSeries, 'id'>) => void;
+}
+
+export function AddFormulaDialog({ sources, onAdd }: AddFormulaDialogProps) {
+  const sensorTypes = useSensorTypes();
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [expression, setExpression] = useState('');
+  const [sensorType, setSensorType] = useState('none');
+
+  const variables = [...getVariableNames(sources).keys()];
+
+  // Validate against the loaded data so unknown sensors are caught before saving
+  let error: string | undefined;
+  let pointCount = 0;
+  if (expression.trim()) {
+    try {
+      pointCount = evaluateComputedSeries(expression, sources).length;
+    } catch (e) {
+      error = e instanceof FormulaError ? e.message : 'Invalid formula';
+    }
+  }
+
+  const isValid = name.trim() && expression.trim() && !error;
+
+  const handleAdd = () => {
+    if (!isValid) return;
+
+    onAdd({
+      name: name.trim(),
+      expression: expression.trim(),
+      sensorType: sensorType === 'none' ? undefined : sensorType,
+    });
+
+    // Reset form
+    setName('');
+    setExpression('');
+    setSensorType('none');
+    setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" disabled={sources.length === 0}>
+          <SquareFunction className="h-4 w-4 mr-2" />
+          Add Formula
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Add Formula Series</DialogTitle>
+          <DialogDescription>
+            Compute a series from the selected sensors, e.g. <code>0.52*pm25 - 0.086*humidity + 5.75</code> or <code>s1.temp - s2.temp</code>. Inputs are paired on the chart's time buckets.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 py-4">
+          <div className="grid gap-2">
+            <Label htmlFor="formula-name">Name</Label>
+            <Input
+              id="formula-name"
+              placeholder="PM2.5 (EPA corrected)"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+
+          <div className="grid gap-2">
+            <Label htmlFor="formula-expression">Formula</Label>
+            <Input
+              id="formula-expression"
+              className="font-mono"
+              value={expression}
+              onChange={(e) => setExpression(e.target.value)}
+            />
+            {error ? (
+              <p className="text-xs text-destructive">{error}</p>
+            ) : expression.trim() && (
+              <p className="text-xs text-muted-foreground">{pointCount} points in the current range</p>
+            )}
+          </div>
+
+          <div className="grid gap-2">
+            <Label htmlFor="formula-type">Result measured as</Label>
+            <Select value={sensorType} onValueChange={setSensorType}>
+              <SelectTrigger id="formula-type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">No unit</SelectItem>
+                {sensorTypes.all.map(def => (
+                  <SelectItem key={def.type} value={def.type}>{def.name} ({def.unit})</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              Formula results are shown in this base unit, whatever your unit preferences.
+            </p>
+          </div>
+
+          <div className="text-xs text-muted-foreground space-y-1">
+            <p>Sensors: <span className="font-mono">{variables.join(', ')}</span></p>
+            <p>Functions: <span className="font-mono">{FORMULA_FUNCTIONS.join(', ')}</span></p>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleAdd} disabled={!isValid}>
+            Add Formula
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -19,6 +19,7 @@ import {
 import { Label } from '@/components/ui/label';
 import { Plus } from 'lucide-react';
 import type { WeatherStation } from '@/hooks/useWeatherStations';
+import { getDerivedTypes } from '@/lib/derived';
 
 interface AddSensorDialogProps {
   stations: WeatherStation[];
@@ -55,7 +56,7 @@ export function AddSensorDialog({ stations, onAdd, existingSensors }: AddSensorD
       stationPubkey: selectedStation,
       stationName: station.name,
       sensorModel: selectedSensor,
-      sensorTypes: sensorModel.types,
+      sensorTypes: [...sensorModel.types, ...getDerivedTypes(sensorModel.types)],
     });
 
     // Reset form
@@ -78,7 +79,7 @@ export function AddSensorDialog({ stations, onAdd, existingSensors }: AddSensorD
         <DialogHeader>
           <DialogTitle>Add Sensor to Comparison</DialogTitle>
           <DialogDescription>
-            Select a weather station and one of its sensor models. All sensor readings from that model will be included.
+            Select a weather station and one of its sensor models. All sensor readings from that model will be included, along with the quantities derived from them (dew point, AQI, …).
           </DialogDescription>
         </DialogHeader>
         <div className="grid gap-4 py-4">
@@ -115,7 +116,8 @@ export function AddSensorDialog({ stations, onAdd, existingSensors }: AddSensorD
                     </div>
                   ) : (
                     availableSensors.map((sensorModel) => {
-                      const label = `${sensorModel.model} (${sensorModel.types.join(', ')})`;
+                      const derived = getDerivedTypes(sensorModel.types);
+                      const label = `${sensorModel.model} (${[...sensorModel.types, ...derived].join(', ')})`;
                       return (
                         <SelectItem key={sensorModel.model} value={sensorModel.model}>
                           {label}
@@ -0,0 +1,146 @@
+import { useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useSensorTypes } from '@/hooks/useSensorTypes';
+import { useUnits } from '@/hooks/useUnits';
+import {
+  computePairwiseAgreement,
+  getSensorKey,
+  type AgreementStats,
+} from '@/lib/agreement';
+import type { ResampledSeries } from '@/lib/resample';
+
+interface AgreementMatrixProps {
+  title: string;
+  description?: string;
+  data: ResampledSeries[]; // Every series resampled onto the same bucket grid
+  sensorNames: Record<string, string>;
+}
+
+type Metric = keyof AgreementStats;
+
+const METRICS: Record<Metric, { label: string; inUnits: boolean }> = {
+  bias: { label: 'Bias', inUnits: true },
+  mae: { label: 'MAE', inUnits: true },
+  rmse: { label: 'RMSE', inUnits: true },
+  r: { label: 'Pearson r', inUnits: false },
+  r2: { label: 'R²', inUnits: false },
+  count: { label: 'Overlapping samples', inUnits: false },
+};
+
+/**
+ * Matrix of agreement statistics between every pair of same-type series.
+ * The cell in row A, column B compares B against A, so a positive bias
+ * means B reads higher than A.
+ */
+export function AgreementMatrix({ title, description, data, sensorNames }: AgreementMatrixProps) {
+  const sensorTypes = useSensorTypes();
+  const units = useUnits();
+  const [metric, setMetric] = useState<Metric>('rmse');
+
+  const pairs = useMemo(() => computePairwiseAgreement(data), [data]);
+
+  // Group series by type; only types with two or more series have pairs
+  const groups = useMemo(() => {
+    const byType = new Map<string, string[]>();
+    data.forEach(({ sensor }) => {
+      const keys = byType.get(sensor.sensorType) ?? [];
+      keys.push(getSensorKey(sensor));
+      byType.set(sensor.sensorType, keys);
+    });
+    return Array.from(byType.entries()).filter(([, keys]) => keys.length > 1);
+  }, [data]);
+
+  const getStats = (row: string, column: string): AgreementStats | null => {
+    const direct = pairs.find(p => p.a === row && p.b === column);
+    if (direct) return direct.stats;
+
+    // Stored the other way round: flip the sign of the bias
+    const reversed = pairs.find(p => p.a === column && p.b === row);
+    return reversed?.stats ? { ...reversed.stats, bias: -reversed.stats.bias } : null;
+  };
+
+  const formatCell = (stats: AgreementStats | null, sensorType: string) => {
+    if (!stats) return '—';
+    const value = stats[metric];
+    if (value === null) return '—';
+
+    if (metric === 'count') return String(value);
+    if (metric === 'r' || metric === 'r2') return value.toFixed(3);
+    return units.formatConverted(units.convertDelta(value, sensorType), sensorType);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle>{title}</CardTitle>
+            {description && <CardDescription>{description}</CardDescription>}
+          </div>
+          <Select value={metric} onValueChange={(value) => setMetric(value as Metric)}>
+            <SelectTrigger className="h-8 w-[190px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(METRICS).map(([value, { label }]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {groups.length === 0 ? (
+          <div className="py-8 text-center text-muted-foreground">
+            Add at least two sensors that measure the same type to compare them
+          </div>
+        ) : (
+          groups.map(([sensorType, keys]) => {
+            const unit = units.unit(sensorType);
+
+            return (
+              <div key={sensorType} className="space-y-2">
+                <h4 className="text-sm font-semibold">
+                  {sensorTypes.get(sensorType).name}
+                  {METRICS[metric].inUnits && unit && (
+                    <span className="font-normal text-muted-foreground"> ({unit})</span>
+                  )}
+                </h4>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead />
+                      {keys.map(key => (
+                        <TableHead key={key} className="text-right">{sensorNames[key] || 'Unknown Sensor'}</TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {keys.map(row => (
+                      <TableRow key={row}>
+                        <TableCell className="font-medium">{sensorNames[row] || 'Unknown Sensor'}</TableCell>
+                        {keys.map(column => (
+                          <TableCell key={column} className="text-right">
+                            {row === column ? '—' : formatCell(getStats(row, column), sensorType)}
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            );
+          })
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -2,6 +2,9 @@ import { ReactNode, useEffect } from 'react';
 import { z } from 'zod';
 import { useLocalStorage } from '@/hooks/useLocalStorage';
 import { AppContext, type AppConfig, type AppContextType, type Theme, type RelayMetadata } from '@/contexts/AppContext';
+import type { SensorTypeDefinition } from '@/lib/sensorTypes';
+import type { UnitPreferences } from '@/lib/units';
+import type { OutlierRuleConfig } from '@/lib/outlierFilter';
 
 interface AppProviderProps {
   children: ReactNode;
@@ -21,10 +24,48 @@ const RelayMetadataSchema = z.object({
   updatedAt: z.number(),
 }) satisfies z.ZodType<RelayMetadata>;
 
+// Zod schema for SensorTypeDefinition validation
+const SensorTypeDefinitionSchema = z.object({
+  type: z.string().min(1),
+  name: z.string().min(1),
+  unit: z.string(),
+  precision: z.number().int().min(0).max(6),
+  min: z.number().optional(),
+  max: z.number().optional(),
+  restValue: z.number().optional(),
+  ratioScale: z.boolean().optional(),
+  dashStyle: z.string(),
+  icon: z.string(),
+}) satisfies z.ZodType<SensorTypeDefinition>;
+
+// Zod schema for UnitPreferences validation
+const UnitPreferencesSchema = z.object({
+  system: z.enum(['metric', 'imperial', 'custom']),
+  custom: z.object({
+    temperature: z.string().optional(),
+    pressure: z.string().optional(),
+    speed: z.string().optional(),
+    length: z.string().optional(),
+  }),
+}) satisfies z.ZodType<UnitPreferences>;
+
+// Zod schema for OutlierRuleConfig validation
+const OutlierRuleConfigSchema = z.object({
+  strategy: z.enum(['percent-change', 'rolling-zscore', 'hampel', 'physical-range']),
+  enabled: z.boolean(),
+  params: z.record(z.string(), z.number()),
+}) satisfies z.ZodType<OutlierRuleConfig>;
+
 // Zod schema for AppConfig validation
 const AppConfigSchema = z.object({
   theme: z.enum(['dark', 'light', 'system']),
   relayMetadata: RelayMetadataSchema,
+  stationRelays: z.array(z.string().url()).min(1),
+  liveMode: z.boolean(),
+  customSensorTypes: z.array(SensorTypeDefinitionSchema),
+  unitPreferences: UnitPreferencesSchema,
+  outlierRules: z.record(z.string(), z.array(OutlierRuleConfigSchema)),
+  driftThreshold: z.number().positive(),
 }) satisfies z.ZodType<AppConfig>;
 
 export function AppProvider(props: AppProviderProps) {
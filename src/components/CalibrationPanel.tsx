@@ -0,0 +1,342 @@
+import { useMemo, useState } from 'react';
+import { ScatterChart, Scatter, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useSensorTypes } from '@/hooks/useSensorTypes';
+import { useToast } from '@/hooks/useToast';
+import { useUnits } from '@/hooks/useUnits';
+import {
+  applyCalibration,
+  buildCalibrationSamples,
+  findHumiditySeries,
+  fitCalibration,
+  type Calibration,
+} from '@/lib/calibration';
+import { clearReferenceFits, type Comparison, type SensorSelection } from '@/lib/comparisonStore';
+import type { ResampledSeries } from '@/lib/resample';
+
+interface CalibrationPanelProps {
+  comparison: Comparison;
+  data: ResampledSeries[]; // Uncalibrated series on the chart's bucket grid
+  sensorNames: Record<string, string>;
+  onUpdate: (updates: Partial<Comparison>) => void;
+  onUpdateSensor: (sensorId: string, updates: Partial<Omit<SensorSelection, 'id'>>) => void;
+}
+
+interface CalibrationTarget {
+  key: string;
+  selection: SensorSelection;
+  sensorType: string;
+}
+
+function findSeries(data: ResampledSeries[], selection: SensorSelection, sensorType: string) {
+  return data.find(({ sensor }) =>
+    sensor.pubkey === selection.stationPubkey &&
+    sensor.sensorModel === selection.sensorModel &&
+    sensor.sensorType === sensorType
+  );
+}
+
+// Hides the markers at the fit line's endpoints so only the line shows
+const hiddenShape = () => <g />;
+
+function formatTimestamp(timestamp: number): string {
+  return new Date(timestamp * 1000).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+/**
+ * Designate a reference sensor and fit a linear calibration for every other
+ * sensor of the same type against it
+ */
+export function CalibrationPanel({
+  comparison,
+  data,
+  sensorNames,
+  onUpdate,
+  onUpdateSensor,
+}: CalibrationPanelProps) {
+  const sensorTypes = useSensorTypes();
+  const units = useUnits();
+  const { toast } = useToast();
+
+  const [withHumidity, setWithHumidity] = useState(false);
+  const [selectedKey, setSelectedKey] = useState<string>();
+
+  const reference = comparison.sensors.find(s => s.id === comparison.referenceSensorId);
+
+  // Every type the reference shares with another sensor
+  const targets = useMemo<CalibrationTarget[]>(() => reference
+    ? comparison.sensors
+      .filter(s => s.id !== reference.id)
+      .flatMap(selection => selection.sensorTypes
+        .filter(type => reference.sensorTypes.includes(type))
+        .map(sensorType => ({
+          key: `${selection.stationPubkey}-${sensorType}-${selection.sensorModel}`,
+          selection,
+          sensorType,
+        })))
+    : [], [reference, comparison.sensors]);
+
+  const selected = targets.find(t => t.key === selectedKey) ?? targets[0];
+
+  const handleFit = () => {
+    if (!reference) return;
+
+    const calibrationsBySensor = new Map<string, Record<string, Calibration>>();
+    const failed: string[] = [];
+
+    targets.forEach(({ key, selection, sensorType }) => {
+      const target = findSeries(data, selection, sensorType);
+      const referenceSeries = findSeries(data, reference, sensorType);
+      // A humidity sensor can't be corrected by its own readings
+      const useHumidity = withHumidity && sensorType !== 'humidity';
+
+      const calibration = target && referenceSeries
+        ? fitCalibration(
+          buildCalibrationSamples(
+            target.points,
+            referenceSeries.points,
+            useHumidity ? findHumiditySeries(data, target.sensor) : undefined
+          ),
+          useHumidity
+        )
+        : null;
+
+      if (!calibration) {
+        failed.push(sensorNames[key] || key);
+        return;
+      }
+
+      const calibrations = calibrationsBySensor.get(selection.id) ?? {};
+      calibrations[sensorType] = calibration;
+      calibrationsBySensor.set(selection.id, calibrations);
+    });
+
+    calibrationsBySensor.forEach((calibrations, sensorId) => {
+      const selection = comparison.sensors.find(s => s.id === sensorId);
+      onUpdateSensor(sensorId, { calibrations: { ...selection?.calibrations, ...calibrations } });
+    });
+
+    if (failed.length > 0) {
+      toast({
+        title: 'Some calibrations could not be fitted',
+        description: `Not enough overlapping data for ${failed.join(', ')}.`,
+        variant: 'destructive',
+      });
+    } else {
+      toast({
+        title: 'Calibrations fitted',
+        description: `Fitted ${targets.length} calibration${targets.length !== 1 ? 's' : ''} against the reference.`,
+      });
+    }
+  };
+
+  // Samples, fit line and residuals for the selected sensor, in display units
+  const detail = useMemo(() => {
+    if (!reference || !selected) return null;
+
+    const calibration = selected.selection.calibrations?.[selected.sensorType];
+    const target = findSeries(data, selected.selection, selected.sensorType);
+    const referenceSeries = findSeries(data, reference, selected.sensorType);
+    if (!calibration || !target || !referenceSeries) return null;
+
+    const humidity = findHumiditySeries(data, target.sensor);
+    const humidityByTimestamp = new Map(humidity?.map(p => [p.timestamp, p.value]));
+    const referenceByTimestamp = new Map(referenceSeries.points.map(p => [p.timestamp, p.value]));
+    const type = selected.sensorType;
+
+    const samples = target.points.flatMap(point => {
+      const referenceValue = referenceByTimestamp.get(point.timestamp);
+      const corrected = applyCalibration(point.value, calibration, humidityByTimestamp.get(point.timestamp));
+      if (referenceValue === undefined || corrected === null) return [];
+      return [{
+        timestamp: point.timestamp,
+        raw: units.convert(point.value, type),
+        reference: units.convert(referenceValue, type),
+        residual: units.convertDelta(referenceValue - corrected, type),
+      }];
+    });
+    if (samples.length === 0) return null;
+
+    // With a humidity term the fit is a plane; draw it at the mean humidity
+    const humidityValues = samples.flatMap(s => humidityByTimestamp.get(s.timestamp) ?? []);
+    const meanHumidity = humidityValues.length > 0
+      ? humidityValues.reduce((sum, h) => sum + h, 0) / humidityValues.length
+      : undefined;
+
+    const rawValues = target.points.map(p => p.value);
+    const fitLine = [Math.min(...rawValues), Math.max(...rawValues)].flatMap(raw => {
+      const fitted = applyCalibration(raw, calibration, meanHumidity);
+      return fitted === null ? [] : [{ raw: units.convert(raw, type), reference: units.convert(fitted, type) }];
+    });
+
+    return { samples, fitLine };
+  }, [reference, selected, data, units]);
+
+  const formatCoefficient = (value: number | undefined) => value === undefined ? '—' : value.toFixed(4);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Calibration</CardTitle>
+        <CardDescription>
+          Fit each sensor to the reference as reference ≈ slope × raw + offset, optionally with a humidity term. Calibrations with a humidity term leave out readings that have no humidity reading at the same time.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="grid gap-1.5">
+            <Label htmlFor={`reference-${comparison.id}`}>Reference Sensor</Label>
+            <Select
+              value={reference?.id ?? ''}
+              onValueChange={(referenceSensorId) => onUpdate({ referenceSensorId, sensors: clearReferenceFits(comparison.sensors) })}
+            >
+              <SelectTrigger id={`reference-${comparison.id}`} className="w-[240px]">
+                <SelectValue placeholder="Choose a reference" />
+              </SelectTrigger>
+              <SelectContent>
+                {comparison.sensors.map((sensor, index) => (
+                  <SelectItem key={sensor.id} value={sensor.id}>
+                    #{index + 1} {sensor.stationName} - {sensor.sensorModel}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center space-x-2 pb-2">
+            <Switch id={`humidity-term-${comparison.id}`} checked={withHumidity} onCheckedChange={setWithHumidity} />
+            <Label htmlFor={`humidity-term-${comparison.id}`} className="text-sm font-normal cursor-pointer">
+              Humidity term
+            </Label>
+          </div>
+          <Button variant="outline" size="sm" onClick={handleFit} disabled={targets.length === 0}>
+            Fit Calibrations
+          </Button>
+          <div className="flex items-center space-x-2 pb-2 ml-auto">
+            <Switch
+              id={`apply-calibration-${comparison.id}`}
+              checked={comparison.applyCalibration ?? false}
+              onCheckedChange={(checked) => onUpdate({ applyCalibration: checked })}
+            />
+            <Label htmlFor={`apply-calibration-${comparison.id}`} className="text-sm font-normal cursor-pointer">
+              Apply calibration
+            </Label>
+          </div>
+        </div>
+
+        {!reference ? (
+          <div className="py-8 text-center text-muted-foreground">
+            Choose a reference sensor, such as a lab-grade instrument, to calibrate the others against
+          </div>
+        ) : targets.length === 0 ? (
+          <div className="py-8 text-center text-muted-foreground">
+            No other sensor measures the same types as the reference
+          </div>
+        ) : (
+          <>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Sensor</TableHead>
+                  <TableHead className="text-right">Slope</TableHead>
+                  <TableHead className="text-right">Offset</TableHead>
+                  <TableHead className="text-right">Humidity</TableHead>
+                  <TableHead className="text-right">R²</TableHead>
+                  <TableHead className="text-right">Samples</TableHead>
+                  <TableHead className="text-right">Fitted</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {targets.map(target => {
+                  const calibration = target.selection.calibrations?.[target.sensorType];
+                  const unit = sensorTypes.get(target.sensorType).unit;
+
+                  return (
+                    <TableRow
+                      key={target.key}
+                      onClick={() => setSelectedKey(target.key)}
+                      className="cursor-pointer"
+                      data-state={target.key === selected?.key ? 'selected' : undefined}
+                    >
+                      <TableCell className="font-medium">{sensorNames[target.key] || 'Unknown Sensor'}</TableCell>
+                      {calibration ? (
+                        <>
+                          <TableCell className="text-right">{formatCoefficient(calibration.slope)}</TableCell>
+                          <TableCell className="text-right">{formatCoefficient(calibration.offset)} {unit}</TableCell>
+                          <TableCell className="text-right">{formatCoefficient(calibration.humidityCoefficient)}</TableCell>
+                          <TableCell className="text-right">{calibration.r2.toFixed(3)}</TableCell>
+                          <TableCell className="text-right">{calibration.count}</TableCell>
+                          <TableCell className="text-right">{new Date(calibration.fittedAt * 1000).toLocaleDateString()}</TableCell>
+                        </>
+                      ) : (
+                        <TableCell colSpan={6} className="text-right text-muted-foreground">Not fitted</TableCell>
+                      )}
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+
+            {selected && detail && (
+              <div className="grid gap-4 md:grid-cols-2">
+                <div className="space-y-2">
+                  <h4 className="text-sm font-semibold">
+                    Fit - {sensorNames[selected.key]} vs reference ({units.unit(selected.sensorType)})
+                  </h4>
+                  <ResponsiveContainer width="100%" height={260}>
+                    <ScatterChart>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis type="number" dataKey="raw" name="Raw" domain={['auto', 'auto']} tick={{ fontSize: 12 }} />
+                      <YAxis type="number" dataKey="reference" name="Reference" domain={['auto', 'auto']} tick={{ fontSize: 12 }} />
+                      <Tooltip cursor={{ strokeDasharray: '3 3' }} />
+                      <Scatter data={detail.samples} fill="#3b82f6" fillOpacity={0.5} isAnimationActive={false} />
+                      <Scatter data={detail.fitLine} line={{ stroke: '#ef4444', strokeWidth: 2 }} shape={hiddenShape} isAnimationActive={false} />
+                    </ScatterChart>
+                  </ResponsiveContainer>
+                </div>
+                <div className="space-y-2">
+                  <h4 className="text-sm font-semibold">
+                    Residuals - reference minus corrected ({units.unit(selected.sensorType)})
+                  </h4>
+                  <ResponsiveContainer width="100%" height={260}>
+                    <ScatterChart>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis
+                        type="number"
+                        dataKey="timestamp"
+                        name="Time"
+                        domain={['dataMin', 'dataMax']}
+                        tickFormatter={formatTimestamp}
+                        tick={{ fontSize: 12 }}
+                        minTickGap={50}
+                      />
+                      <YAxis type="number" dataKey="residual" name="Residual" tick={{ fontSize: 12 }} />
+                      <Tooltip cursor={{ strokeDasharray: '3 3' }} labelFormatter={() => ''} />
+                      <ReferenceLine y={0} stroke="currentColor" strokeOpacity={0.5} />
+                      <Scatter data={detail.samples} fill="#10b981" fillOpacity={0.6} isAnimationActive={false} />
+                    </ScatterChart>
+                  </ResponsiveContainer>
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
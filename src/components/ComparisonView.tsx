@@ -1,63 +1,126 @@
-import { useState, useMemo } from 'react';
+import { useState, useMemo, useRef } from 'react';
+import { format } from 'date-fns';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Trash2, Pencil, Check, X } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Trash2, Pencil, Check, X, Maximize2, AlertCircle, TrendingUp } from 'lucide-react';
 import { AddSensorDialog } from './AddSensorDialog';
+import { AddFormulaDialog } from './AddFormulaDialog';
+import { AgreementMatrix } from './AgreementMatrix';
+import { CalibrationPanel } from './CalibrationPanel';
+import { DistributionPanel } from './DistributionPanel';
+import { DiurnalPanel } from './DiurnalPanel';
+import { DriftReport } from './DriftReport';
+import { HumidityCorrectionPanel } from './HumidityCorrectionPanel';
+import { LagPanel } from './LagPanel';
+import { PrecisionPanel } from './PrecisionPanel';
+import { SensorPairPlot } from './SensorPairPlot';
+import { DateRangePicker } from './DateRangePicker';
 import { SensorChart } from './SensorChart';
 import { SensorDataTable } from './SensorDataTable';
 import { OutliersList } from './OutliersList';
 import { useMultipleSensorReadings } from '@/hooks/useSensorReadings';
-import { filterMultipleSensorOutliers } from '@/lib/outlierFilter';
+import { useAppContext } from '@/hooks/useAppContext';
+import { useSensorTypes } from '@/hooks/useSensorTypes';
+import { filterMultipleSensorOutliers, type OutlierDecision, type OutlierInfo } from '@/lib/outlierFilter';
+import { calibrateReadings, findHumiditySeries } from '@/lib/calibration';
+import { correctReadingsForHumidity, getStationHumiditySensors } from '@/lib/humidityCorrection';
+import { getSensorKey } from '@/lib/agreement';
+import { FormulaError, evaluateComputedSeries, getComputedSensor, type FormulaSource } from '@/lib/formula';
+import { applyTimeOffsets } from '@/lib/lag';
+import { getBucketFlags, runQualityControl } from '@/lib/qualityControl';
+import {
+  AGGREGATIONS,
+  DEFAULT_AGGREGATION,
+  DEFAULT_TARGET_POINTS,
+  chooseBucketSeconds,
+  formatBucketSeconds,
+  resample,
+  type Aggregation,
+} from '@/lib/resample';
 import { Skeleton } from '@/components/ui/skeleton';
-import type { Comparison, SensorSelection } from '@/lib/comparisonStore';
+import type { Comparison, SensorSelection, TimeRangePreset } from '@/lib/comparisonStore';
 import type { WeatherStation } from '@/hooks/useWeatherStations';
 
 interface ComparisonViewProps {
   comparison: Comparison;
   stations: WeatherStation[];
   onAddSensor: (sensor: Omit<SensorSelection, 'id'>) => void;
+  onUpdateSensor: (sensorId: string, updates: Partial<Omit<SensorSelection, 'id'>>) => void;
   onRemoveSensor: (sensorId: string) => void;
   onUpdateName: (newName: string) => void;
+  onUpdate: (updates: Partial<Comparison>) => void;
   onDelete: () => void;
 }
 
-// Time range options
-const TIME_RANGES = {
-  '1h': {
-    label: 'Last Hour',
-    seconds: 60 * 60,
-    description: '30-second intervals',
-  },
-  '24h': {
-    label: 'Last 24 Hours',
-    seconds: 24 * 60 * 60,
-    description: '5-minute intervals',
-  },
+// Time range options, relative to now
+const TIME_RANGES: Record<TimeRangePreset, { label: string; tab: string; seconds: number }> = {
+  '1h': { label: 'Last Hour', tab: '1H', seconds: 60 * 60 },
+  '24h': { label: 'Last 24 Hours', tab: '24H', seconds: 24 * 60 * 60 },
+  '7d': { label: 'Last 7 Days', tab: '7D', seconds: 7 * 24 * 60 * 60 },
+  '30d': { label: 'Last 30 Days', tab: '30D', seconds: 30 * 24 * 60 * 60 },
+  '90d': { label: 'Last 90 Days', tab: '90D', seconds: 90 * 24 * 60 * 60 },
 };
 
 export function ComparisonView({
   comparison,
   stations,
   onAddSensor,
+  onUpdateSensor,
   onRemoveSensor,
   onUpdateName,
+  onUpdate,
   onDelete,
 }: ComparisonViewProps) {
-  const [timeRange, setTimeRange] = useState<'1h' | '24h'>('24h');
+  const timeRange = comparison.timeRange === 'custom' && !comparison.customRange
+    ? '24h'
+    : comparison.timeRange ?? '24h';
   const [isEditingName, setIsEditingName] = useState(false);
   const [editedName, setEditedName] = useState(comparison.name);
+  const [pairKey, setPairKey] = useState<string>();
+  const [view, setView] = useState('chart');
+  // Timestamp of the outlier being reviewed; the chart zooms in around it
+  const [focusTimestamp, setFocusTimestamp] = useState<number>();
+  const chartRef = useRef<HTMLDivElement>(null);
+  const { config } = useAppContext();
+  const sensorTypes = useSensorTypes();
 
   // Calculate time range - memoize to prevent constant re-queries
+  // Presets leave `until` open so live readings keep extending them
+  const customSince = comparison.customRange?.since;
+  const customUntil = comparison.customRange?.until;
   const { since, until } = useMemo(() => {
-    const now = Math.floor(Date.now() / 1000);
+    if (timeRange === 'custom') {
+      return { since: customSince!, until: customUntil };
+    }
     return {
-      since: now - TIME_RANGES[timeRange].seconds,
-      until: now,
+      since: Math.floor(Date.now() / 1000) - TIME_RANGES[timeRange].seconds,
+      until: undefined,
     };
-  }, [timeRange]); // Only recalculate when timeRange changes
+  }, [timeRange, customSince, customUntil]); // Only recalculate when the range changes
+
+  const rangeLabel = timeRange === 'custom'
+    ? `${format(since * 1000, 'MMM d, yyyy')} – ${format(until! * 1000, 'MMM d, yyyy')}`
+    : TIME_RANGES[timeRange].label;
 
   // Prepare sensor list for query - expand each sensor model into all its types
   const sensors = comparison.sensors.flatMap(s =>
@@ -68,18 +131,45 @@ export function ComparisonView({
     }))
   );
 
-  // Fetch data for all sensors
-  const { data, isLoading, error } = useMultipleSensorReadings(sensors, since, until);
+  // Humidity from the stations' other models, for correcting PM sensors
+  const humiditySensors = useMemo(
+    () => getStationHumiditySensors(comparison.sensors, stations),
+    [comparison.sensors, stations]
+  );
+
+  // Fetch every reading for all sensors; the chart resamples them itself
+  const { data: fetchedData, isLoading, error } = useMultipleSensorReadings(
+    [...sensors, ...humiditySensors],
+    since,
+    until,
+    timeRange === 'custom' ? undefined : TIME_RANGES[timeRange].seconds
+  );
+
+  const aggregation = comparison.aggregation ?? DEFAULT_AGGREGATION;
+  const showEnvelope = comparison.showEnvelope ?? false;
+  // Resolution scales with the length of the range
+  const bucketSeconds = chooseBucketSeconds(since, until ?? Math.floor(Date.now() / 1000), DEFAULT_TARGET_POINTS);
+
+  // The extra humidity series come last and are only used for the correction
+  const sensorCount = sensors.length;
+  const data = useMemo(() => fetchedData?.slice(0, sensorCount), [fetchedData, sensorCount]);
+  const stationHumidity = useMemo(() => (fetchedData?.slice(sensorCount) ?? []).map(({ sensor, readings }) => ({
+    sensor,
+    points: resample(readings, bucketSeconds, aggregation),
+  })), [fetchedData, sensorCount, bucketSeconds, aggregation]);
 
   // Create sensor name mapping - use numbered format for compact display
-  const sensorNames: Record<string, string> = {};
-  comparison.sensors.forEach((sensor, index) => {
-    (sensor.sensorTypes || []).forEach(type => {
-      const key = `${sensor.stationPubkey}-${type}-${sensor.sensorModel}`;
-      // Format: "#1 - pm25" (much more compact)
-      sensorNames[key] = `#${index + 1} - ${type}`;
+  const sensorNames = useMemo(() => {
+    const names: Record<string, string> = {};
+    comparison.sensors.forEach((sensor, index) => {
+      (sensor.sensorTypes || []).forEach(type => {
+        const key = `${sensor.stationPubkey}-${type}-${sensor.sensorModel}`;
+        // Format: "#1 - pm25" (much more compact)
+        names[key] = `#${index + 1} - ${type}`;
+      });
     });
-  });
+    return names;
+  }, [comparison.sensors]);
 
   // Get existing sensor keys for filtering in the AddSensorDialog
   const existingSensors = comparison.sensors.map(s => ({
@@ -87,11 +177,165 @@ export function ComparisonView({
     sensorModel: s.sensorModel,
   }));
 
-  // Filter outliers from the data
-  const { filteredData, allOutliers } = useMemo(() => {
+  // Filter outliers from the data with each sensor type's rules, overridden by review decisions
+  const outlierDecisions = comparison.outlierDecisions;
+  const { filteredData: unshiftedData, allOutliers } = useMemo(() => {
     if (!data) return { filteredData: [], allOutliers: [] };
-    return filterMultipleSensorOutliers(data, sensorNames);
-  }, [data, sensorNames]);
+    return filterMultipleSensorOutliers(data, sensorNames, config.outlierRules, sensorTypes.get, outlierDecisions);
+  }, [data, sensorNames, config.outlierRules, sensorTypes, outlierDecisions]);
+
+  // Shift series by the lags applied in the lag analysis
+  const timeOffsets = comparison.timeOffsets;
+  const filteredData = useMemo(
+    () => timeOffsets ? applyTimeOffsets(unshiftedData, timeOffsets) : unshiftedData,
+    [unshiftedData, timeOffsets]
+  );
+
+  const handleSelectOutlier = (outlier: OutlierInfo) => {
+    setView('chart');
+    setFocusTimestamp(outlier.timestamp);
+    chartRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  };
+
+  const handleDecideOutlier = (outlier: OutlierInfo, decision: OutlierDecision | undefined) => {
+    const { [outlier.key]: _previous, ...rest } = comparison.outlierDecisions ?? {};
+    onUpdate({ outlierDecisions: decision ? { ...rest, [outlier.key]: decision } : rest });
+  };
+
+  // Show 50 buckets either side of the outlier under review
+  const focusRange: [number, number] | undefined = focusTimestamp !== undefined
+    ? [focusTimestamp - 50 * bucketSeconds, focusTimestamp + 50 * bucketSeconds]
+    : undefined;
+
+  // Flag likely sensor faults (frozen values, restarts, jumps) without removing them
+  const qcResults = useMemo(() => Object.fromEntries(filteredData.map(({ sensor, readings }) => [
+    getSensorKey(sensor),
+    runQualityControl(readings, sensorTypes.get(sensor.sensorType)),
+  ])), [filteredData, sensorTypes]);
+
+  const qcBucketFlags = useMemo(() => Object.fromEntries(filteredData.map(({ sensor, readings }) => {
+    const key = getSensorKey(sensor);
+    return [key, getBucketFlags(readings, qcResults[key], bucketSeconds)];
+  })), [filteredData, qcResults, bucketSeconds]);
+
+  // Align every sensor onto the same time grid for charting
+  const uncorrectedData = useMemo(() => filteredData.map(({ sensor, readings }) => ({
+    sensor,
+    points: resample(readings, bucketSeconds, aggregation),
+  })), [filteredData, bucketSeconds, aggregation]);
+
+  const humidityData = useMemo(() => [...uncorrectedData, ...stationHumidity], [uncorrectedData, stationHumidity]);
+
+  const handleShift = (sensorKey: string, seconds: number | undefined) => {
+    const { [sensorKey]: _previous, ...rest } = comparison.timeOffsets ?? {};
+    onUpdate({ timeOffsets: seconds ? { ...rest, [sensorKey]: seconds } : rest });
+  };
+
+  // Remove humidity growth from PM sensors with a fitted correction
+  const applyHumidity = comparison.applyHumidityCorrection ?? false;
+  const humidityCorrectedData = useMemo(() => {
+    if (!applyHumidity) return filteredData;
+
+    return filteredData.map(series => {
+      const selection = comparison.sensors.find(s =>
+        s.stationPubkey === series.sensor.pubkey && s.sensorModel === series.sensor.sensorModel
+      );
+      const correction = selection?.humidityCorrections?.[series.sensor.sensorType];
+      if (!correction) return series;
+
+      const humidity = findHumiditySeries(humidityData, series.sensor);
+      return { ...series, readings: correctReadingsForHumidity(series.readings, correction, humidity, bucketSeconds) };
+    });
+  }, [applyHumidity, filteredData, comparison.sensors, humidityData, bucketSeconds]);
+
+  const rawResampledData = useMemo(() => {
+    if (!applyHumidity) return uncorrectedData;
+    return humidityCorrectedData.map(({ sensor, readings }) => ({
+      sensor,
+      points: resample(readings, bucketSeconds, aggregation),
+    }));
+  }, [applyHumidity, uncorrectedData, humidityCorrectedData, bucketSeconds, aggregation]);
+
+  // Swap in corrected values for sensors calibrated against the reference
+  const applyCalibration = comparison.applyCalibration ?? false;
+  const calibratedData = useMemo(() => {
+    if (!applyCalibration) return humidityCorrectedData;
+
+    return humidityCorrectedData.map(series => {
+      const selection = comparison.sensors.find(s =>
+        s.stationPubkey === series.sensor.pubkey && s.sensorModel === series.sensor.sensorModel
+      );
+      if (!selection || selection.id === comparison.referenceSensorId) return series;
+
+      const calibration = selection.calibrations?.[series.sensor.sensorType];
+      if (!calibration) return series;
+
+      const humidity = findHumiditySeries(rawResampledData, series.sensor);
+      return { ...series, readings: calibrateReadings(series.readings, calibration, humidity, bucketSeconds) };
+    });
+  }, [applyCalibration, humidityCorrectedData, comparison.sensors, comparison.referenceSensorId, rawResampledData, bucketSeconds]);
+
+  const resampledData = useMemo(() => {
+    if (!applyCalibration) return rawResampledData;
+    return calibratedData.map(({ sensor, readings }) => ({
+      sensor,
+      points: resample(readings, bucketSeconds, aggregation),
+    }));
+  }, [applyCalibration, rawResampledData, calibratedData, bucketSeconds, aggregation]);
+
+  // Formula series, evaluated on the same buckets as the sensors they refer to
+  const formulaSources: FormulaSource[] = useMemo(() => resampledData.map(series => ({
+    index: comparison.sensors.findIndex(s =>
+      s.stationPubkey === series.sensor.pubkey && s.sensorModel === series.sensor.sensorModel
+    ) + 1,
+    series,
+  })), [resampledData, comparison.sensors]);
+
+  const computedResults = useMemo(() => (comparison.computedSeries ?? []).map(computed => {
+    const sensor = getComputedSensor(computed);
+    try {
+      return { computed, series: { sensor, points: evaluateComputedSeries(computed.expression, formulaSources) } };
+    } catch (e) {
+      const error = e instanceof FormulaError ? e.message : 'Invalid formula';
+      return { computed, series: { sensor, points: [] }, error };
+    }
+  }), [comparison.computedSeries, formulaSources]);
+
+  const chartNames = useMemo(() => ({
+    ...sensorNames,
+    ...Object.fromEntries(computedResults.map(({ computed, series }) => [
+      getSensorKey(series.sensor),
+      `Formula - ${computed.name}`,
+    ])),
+  }), [sensorNames, computedResults]);
+
+  const chartData = useMemo(
+    () => [...resampledData, ...computedResults.map(result => result.series)],
+    [resampledData, computedResults]
+  );
+
+  const tableData = useMemo(() => [
+    ...calibratedData,
+    ...computedResults.map(({ series }) => ({
+      sensor: series.sensor,
+      readings: series.points.map(({ timestamp, value }) => ({ timestamp, value })),
+    })),
+  ], [calibratedData, computedResults]);
+
+  const handleRemoveFormula = (id: string) => {
+    onUpdate({ computedSeries: (comparison.computedSeries ?? []).filter(c => c.id !== id) });
+  };
+
+  // Drift is judged against the reference where it measures the same type
+  const driftSensors = useMemo(() => comparison.sensors.flatMap(s => s.sensorTypes.map(type => ({
+    sensor: { pubkey: s.stationPubkey, sensorType: type, sensorModel: s.sensorModel },
+    name: sensorNames[`${s.stationPubkey}-${type}-${s.sensorModel}`],
+  }))), [comparison.sensors, sensorNames]);
+  // Sensor keys of the reference model, for drift and diurnal differences
+  const referenceKeys = useMemo(() => {
+    const reference = comparison.sensors.find(s => s.id === comparison.referenceSensorId);
+    return reference?.sensorTypes.map(type => `${reference.stationPubkey}-${type}-${reference.sensorModel}`) ?? [];
+  }, [comparison.sensors, comparison.referenceSensorId]);
 
   const handleSaveName = () => {
     if (editedName.trim() && editedName !== comparison.name) {
@@ -156,11 +400,36 @@ export function ComparisonView({
         <div className="space-y-3">
           <div className="flex items-center justify-between">
             <h3 className="text-sm font-semibold">Selected Sensor Models</h3>
-            <AddSensorDialog
-              stations={stations}
-              onAdd={onAddSensor}
-              existingSensors={existingSensors}
-            />
+            <div className="flex items-center gap-2">
+              <Dialog>
+                <DialogTrigger asChild>
+                  <Button variant="outline" size="sm" disabled={sensors.length < 2}>
+                    <TrendingUp className="h-4 w-4 mr-2" />
+                    Drift Report
+                  </Button>
+                </DialogTrigger>
+                <DialogContent className="max-w-4xl max-h-[85vh] overflow-y-auto">
+                  <DialogHeader>
+                    <DialogTitle>Drift Report</DialogTitle>
+                    <DialogDescription>
+                      Trend in each sensor's weekly difference from its peers, flagged when it drifts faster than the threshold.
+                    </DialogDescription>
+                  </DialogHeader>
+                  <DriftReport targets={driftSensors} candidates={driftSensors} references={referenceKeys} />
+                </DialogContent>
+              </Dialog>
+              <AddFormulaDialog
+                sources={formulaSources}
+                onAdd={(computed) => onUpdate({
+                  computedSeries: [...(comparison.computedSeries ?? []), { ...computed, id: crypto.randomUUID() }],
+                })}
+              />
+              <AddSensorDialog
+                stations={stations}
+                onAdd={onAddSensor}
+                existingSensors={existingSensors}
+              />
+            </div>
           </div>
 
           {comparison.sensors.length === 0 ? (
@@ -195,6 +464,9 @@ export function ComparisonView({
                     <Badge className={`${colors.bg} text-white px-2 py-0.5 text-xs rounded-md`}>
                       {sensor.sensorModel} ({(sensor.sensorTypes || []).join(', ')})
                     </Badge>
+                    {sensor.id === comparison.referenceSensorId && (
+                      <Badge variant="outline" className="px-2 py-0.5 text-xs rounded-md">Reference</Badge>
+                    )}
                     <button
                       onClick={() => onRemoveSensor(sensor.id)}
                       className="ml-1 hover:opacity-70 text-muted-foreground hover:text-destructive"
@@ -206,6 +478,29 @@ export function ComparisonView({
               })}
             </div>
           )}
+
+          {computedResults.length > 0 && (
+            <div className="flex flex-wrap gap-3">
+              {computedResults.map(({ computed, error }) => (
+                <div
+                  key={computed.id}
+                  className="flex items-center gap-2 px-3 py-2 rounded-md border border-dashed bg-background/50"
+                  title={error}
+                >
+                  <span className="font-semibold text-sm text-muted-foreground">ƒ</span>
+                  <span className="text-sm">{computed.name}</span>
+                  <code className="text-xs text-muted-foreground">{computed.expression}</code>
+                  {error && <AlertCircle className="h-4 w-4 text-destructive" />}
+                  <button
+                    onClick={() => handleRemoveFormula(computed.id)}
+                    className="ml-1 hover:opacity-70 text-muted-foreground hover:text-destructive"
+                  >
+                    ×
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
         </div>
 
         {/* Data Visualization */}
@@ -213,12 +508,20 @@ export function ComparisonView({
           <div className="space-y-4">
             <div className="flex items-center justify-between">
               <h3 className="text-sm font-semibold">Data Comparison</h3>
-              <Tabs value={timeRange} onValueChange={(v) => setTimeRange(v as '1h' | '24h')}>
-                <TabsList>
-                  <TabsTrigger value="1h">{TIME_RANGES['1h'].label}</TabsTrigger>
-                  <TabsTrigger value="24h">{TIME_RANGES['24h'].label}</TabsTrigger>
-                </TabsList>
-              </Tabs>
+              <div className="flex flex-wrap items-center justify-end gap-2">
+                <Tabs value={timeRange} onValueChange={(v) => onUpdate({ timeRange: v as TimeRangePreset })}>
+                  <TabsList>
+                    {Object.entries(TIME_RANGES).map(([value, range]) => (
+                      <TabsTrigger key={value} value={value} title={range.label}>{range.tab}</TabsTrigger>
+                    ))}
+                  </TabsList>
+                </Tabs>
+                <DateRangePicker
+                  value={comparison.customRange}
+                  active={timeRange === 'custom'}
+                  onChange={(customRange) => onUpdate({ timeRange: 'custom', customRange })}
+                />
+              </div>
             </div>
 
             {isLoading && (
@@ -250,31 +553,163 @@ export function ComparisonView({
                   </Card>
                 ) : (
                   <div className="space-y-4">
-                    <Tabs defaultValue="chart" className="w-full">
-                      <TabsList className="w-full grid grid-cols-2">
+                    <div className="flex flex-wrap items-center justify-end gap-4">
+                      <div className="flex items-center gap-2">
+                        <Label htmlFor={`aggregation-${comparison.id}`} className="text-sm font-normal">
+                          Aggregation
+                        </Label>
+                        <Select
+                          value={aggregation}
+                          onValueChange={(value) => onUpdate({ aggregation: value as Aggregation })}
+                        >
+                          <SelectTrigger id={`aggregation-${comparison.id}`} className="h-8 w-[110px]">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {Object.entries(AGGREGATIONS).map(([value, label]) => (
+                              <SelectItem key={value} value={value}>{label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="flex items-center space-x-2">
+                        <Switch
+                          id={`envelope-${comparison.id}`}
+                          checked={showEnvelope}
+                          onCheckedChange={(checked) => onUpdate({ showEnvelope: checked })}
+                        />
+                        <Label htmlFor={`envelope-${comparison.id}`} className="text-sm font-normal cursor-pointer">
+                          Min/max band
+                        </Label>
+                      </div>
+                    </div>
+
+                    <Tabs value={view} onValueChange={setView} className="w-full">
+                      <TabsList className="w-full h-auto grid grid-cols-3 sm:grid-cols-5 lg:grid-cols-11">
                         <TabsTrigger value="chart">Chart View</TabsTrigger>
                         <TabsTrigger value="table">Table View</TabsTrigger>
+                        <TabsTrigger value="distribution">Distribution</TabsTrigger>
+                        <TabsTrigger value="scatter">Scatter</TabsTrigger>
+                        <TabsTrigger value="bland-altman">Bland–Altman</TabsTrigger>
+                        <TabsTrigger value="agreement">Agreement</TabsTrigger>
+                        <TabsTrigger value="calibration">Calibration</TabsTrigger>
+                        <TabsTrigger value="humidity">Humidity</TabsTrigger>
+                        <TabsTrigger value="lag">Lag</TabsTrigger>
+                        <TabsTrigger value="precision">Precision</TabsTrigger>
+                        <TabsTrigger value="diurnal">Diurnal</TabsTrigger>
                       </TabsList>
-                      <TabsContent value="chart" className="mt-4">
+                      <TabsContent value="chart" className="mt-4 space-y-2" ref={chartRef}>
+                        {focusTimestamp !== undefined && (
+                          <div className="flex items-center justify-between gap-2 text-sm text-muted-foreground">
+                            <span>Showing readings around {format(focusTimestamp * 1000, 'MMM d, HH:mm')}</span>
+                            <Button variant="outline" size="sm" onClick={() => setFocusTimestamp(undefined)}>
+                              <Maximize2 className="h-4 w-4 mr-2" />
+                              Show full range
+                            </Button>
+                          </div>
+                        )}
                         <SensorChart
-                          title={`${comparison.name} - ${TIME_RANGES[timeRange].label}`}
-                          description={TIME_RANGES[timeRange].description}
-                          data={filteredData}
-                          sensorNames={sensorNames}
+                          title={`${comparison.name} - ${rangeLabel}`}
+                          description={`${AGGREGATIONS[aggregation]} of each ${formatBucketSeconds(bucketSeconds)} bucket`}
+                          data={chartData}
+                          sensorNames={chartNames}
+                          showEnvelope={showEnvelope}
+                          qcFlags={qcBucketFlags}
+                          focusRange={focusRange}
+                          highlightTimestamp={focusTimestamp}
                         />
                       </TabsContent>
                       <TabsContent value="table" className="mt-4">
                         <SensorDataTable
                           title={`${comparison.name} - Statistics`}
-                          description={TIME_RANGES[timeRange].description}
-                          data={filteredData}
+                          description="All readings in the selected time range"
+                          data={tableData}
+                          sensorNames={chartNames}
+                          qc={qcResults}
+                        />
+                      </TabsContent>
+                      <TabsContent value="distribution" className="mt-4">
+                        <DistributionPanel data={filteredData} sensorNames={sensorNames} />
+                      </TabsContent>
+                      <TabsContent value="scatter" className="mt-4">
+                        <SensorPairPlot
+                          variant="scatter"
+                          title={`${comparison.name} - Scatter`}
+                          description={`Paired on ${formatBucketSeconds(bucketSeconds)} buckets (${AGGREGATIONS[aggregation].toLowerCase()})`}
+                          data={resampledData}
+                          sensorNames={sensorNames}
+                          pairKey={pairKey}
+                          onPairChange={setPairKey}
+                        />
+                      </TabsContent>
+                      <TabsContent value="bland-altman" className="mt-4">
+                        <SensorPairPlot
+                          variant="bland-altman"
+                          title={`${comparison.name} - Bland–Altman`}
+                          description={`Paired on ${formatBucketSeconds(bucketSeconds)} buckets (${AGGREGATIONS[aggregation].toLowerCase()})`}
+                          data={resampledData}
+                          sensorNames={sensorNames}
+                          pairKey={pairKey}
+                          onPairChange={setPairKey}
+                        />
+                      </TabsContent>
+                      <TabsContent value="agreement" className="mt-4">
+                        <AgreementMatrix
+                          title={`${comparison.name} - Agreement`}
+                          description={`Paired on ${formatBucketSeconds(bucketSeconds)} buckets (${AGGREGATIONS[aggregation].toLowerCase()})`}
+                          data={resampledData}
+                          sensorNames={sensorNames}
+                        />
+                      </TabsContent>
+                      <TabsContent value="calibration" className="mt-4">
+                        <CalibrationPanel
+                          comparison={comparison}
+                          data={rawResampledData}
+                          sensorNames={sensorNames}
+                          onUpdate={onUpdate}
+                          onUpdateSensor={onUpdateSensor}
+                        />
+                      </TabsContent>
+                      <TabsContent value="humidity" className="mt-4">
+                        <HumidityCorrectionPanel
+                          comparison={comparison}
+                          data={humidityData}
+                          sensorNames={sensorNames}
+                          onUpdate={onUpdate}
+                          onUpdateSensor={onUpdateSensor}
+                        />
+                      </TabsContent>
+                      <TabsContent value="lag" className="mt-4">
+                        {/* Unshifted, so the lag found stays put once applied */}
+                        <LagPanel
+                          data={unshiftedData}
+                          sensorNames={sensorNames}
+                          pairKey={pairKey}
+                          onPairChange={setPairKey}
+                          timeOffsets={timeOffsets ?? {}}
+                          onShift={handleShift}
+                        />
+                      </TabsContent>
+                      <TabsContent value="precision" className="mt-4">
+                        <PrecisionPanel data={calibratedData} sensorNames={sensorNames} />
+                      </TabsContent>
+                      <TabsContent value="diurnal" className="mt-4">
+                        <DiurnalPanel
+                          data={calibratedData}
+                          resampled={resampledData}
                           sensorNames={sensorNames}
+                          stations={stations}
+                          referenceKeys={referenceKeys}
                         />
                       </TabsContent>
                     </Tabs>
 
                     {/* Show outliers if any were detected */}
-                    <OutliersList outliers={allOutliers} />
+                    <OutliersList
+                      outliers={allOutliers}
+                      onSelect={handleSelectOutlier}
+                      onDecide={handleDecideOutlier}
+                    />
                   </div>
                 )}
               </>
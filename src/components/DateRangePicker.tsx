@@ -0,0 +1,76 @@
+import { useState } from 'react';
+import { CalendarIcon } from 'lucide-react';
+import { endOfDay, format, startOfDay } from 'date-fns';
+import type { DateRange } from 'react-day-picker';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { cn } from '@/lib/utils';
+
+interface DateRangePickerProps {
+  /** Selected range in unix seconds */
+  value?: { since: number; until: number };
+  onChange: (range: { since: number; until: number }) => void;
+  active?: boolean;
+}
+
+/**
+ * Pick a fixed range of whole days, e.g. a past week to benchmark against
+ */
+export function DateRangePicker({ value, onChange, active = false }: DateRangePickerProps) {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<DateRange | undefined>();
+
+  // Every pick starts a new range; the saved one is only shown as a preview
+  const saved = value && {
+    from: new Date(value.since * 1000),
+    to: new Date(value.until * 1000),
+  };
+
+  const handleOpenChange = (isOpen: boolean) => {
+    setOpen(isOpen);
+    setDraft(undefined);
+  };
+
+  const handleSelect = (range: DateRange | undefined) => {
+    setDraft(range);
+    if (!range?.from || !range.to) return;
+
+    onChange({
+      since: Math.floor(startOfDay(range.from).getTime() / 1000),
+      until: Math.floor(endOfDay(range.to).getTime() / 1000),
+    });
+    handleOpenChange(false);
+  };
+
+  const label = value
+    ? `${format(value.since * 1000, 'MMM d, yyyy')} – ${format(value.until * 1000, 'MMM d, yyyy')}`
+    : 'Custom range';
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button
+          variant={active ? 'secondary' : 'outline'}
+          size="sm"
+          className={cn('justify-start font-normal', !value && 'text-muted-foreground')}
+        >
+          <CalendarIcon className="h-4 w-4 mr-2" />
+          {label}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-0" align="end">
+        <Calendar
+          mode="range"
+          numberOfMonths={2}
+          selected={draft}
+          onSelect={handleSelect}
+          defaultMonth={draft?.from ?? saved?.from}
+          modifiers={{ saved: !draft && saved ? saved : [] }}
+          modifiersClassNames={{ saved: 'bg-accent text-accent-foreground' }}
+          disabled={{ after: new Date() }}
+        />
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,166 @@
+import { useMemo, useState } from 'react';
+import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useSensorTypes } from '@/hooks/useSensorTypes';
+import { useUnits } from '@/hooks/useUnits';
+import { getSensorKey } from '@/lib/agreement';
+import { buildHistogram, summarizeDistribution } from '@/lib/distribution';
+import type { SensorSeries } from '@/hooks/useSensorReadings';
+
+interface DistributionPanelProps {
+  data: SensorSeries[]; // Every reading of each series, after outlier removal
+  sensorNames: Record<string, string>;
+}
+
+// Color palette for the series
+const SERIES_COLORS = ['#3b82f6', '#ef4444', '#10b981', '#f59e0b', '#8b5cf6', '#ec4899'];
+
+/** Number of histogram bins across the combined range */
+const BIN_COUNT = 40;
+
+/**
+ * Overlaid histograms and box plots of the series of one sensor type
+ */
+export function DistributionPanel({ data, sensorNames }: DistributionPanelProps) {
+  const sensorTypes = useSensorTypes();
+  const units = useUnits();
+  const [selectedType, setSelectedType] = useState<string>();
+
+  const nonEmpty = data.filter(({ readings }) => readings.length > 0);
+  const types = [...new Set(nonEmpty.map(({ sensor }) => sensor.sensorType))];
+  const sensorType = selectedType && types.includes(selectedType) ? selectedType : types[0];
+  const unit = sensorType ? units.unit(sensorType) : '';
+
+  const { series, histogram } = useMemo(() => {
+    const ofType = data.filter(({ sensor, readings }) => sensor.sensorType === sensorType && readings.length > 0);
+    const values = ofType.map(({ readings }) => readings.map(r => units.convert(r.value, sensorType!)));
+
+    return {
+      series: ofType.map(({ sensor }, i) => ({
+        key: getSensorKey(sensor),
+        name: sensorNames[getSensorKey(sensor)] || 'Unknown Sensor',
+        color: SERIES_COLORS[i % SERIES_COLORS.length],
+        summary: summarizeDistribution(values[i])!,
+      })),
+      histogram: buildHistogram(values, BIN_COUNT).map(bin => ({
+        value: (bin.start + bin.end) / 2,
+        ...Object.fromEntries(bin.shares.map((share, i) => [`s${i}`, share * 100])),
+      })),
+    };
+  }, [data, sensorType, sensorNames, units]);
+
+  // Shared scale for the box plots
+  const low = Math.min(...series.map(s => s.summary.min));
+  const high = Math.max(...series.map(s => s.summary.max));
+  const position = (value: number) => high > low ? ((value - low) / (high - low)) * 100 : 50;
+  const format = (value: number) => units.formatConverted(value, sensorType!);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle>Distribution</CardTitle>
+            <CardDescription>
+              Share of readings in each range after outlier removal; boxes span the 25th to 75th percentile, whiskers the 5th to 95th
+            </CardDescription>
+          </div>
+          {types.length > 1 && (
+            <Select value={sensorType} onValueChange={setSelectedType}>
+              <SelectTrigger className="h-8 w-[160px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {types.map(type => (
+                  <SelectItem key={type} value={type}>{sensorTypes.get(type).name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {series.length === 0 ? (
+          <div className="py-8 text-center text-muted-foreground">No readings to show</div>
+        ) : (
+          <>
+            <ResponsiveContainer width="100%" height={300}>
+              <AreaChart data={histogram}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis
+                  type="number"
+                  dataKey="value"
+                  domain={['dataMin', 'dataMax']}
+                  tickFormatter={format}
+                  tick={{ fontSize: 12 }}
+                />
+                <YAxis tickFormatter={(share: number) => `${share.toFixed(0)}%`} tick={{ fontSize: 12 }} />
+                <Tooltip
+                  labelFormatter={(value: number) => `${format(value)} ${unit}`}
+                  formatter={(share: number) => `${share.toFixed(1)}%`}
+                />
+                <Legend />
+                {series.map((s, i) => (
+                  <Area
+                    key={s.key}
+                    type="step"
+                    dataKey={`s${i}`}
+                    name={s.name}
+                    stroke={s.color}
+                    fill={s.color}
+                    fillOpacity={0.2}
+                    isAnimationActive={false}
+                  />
+                ))}
+              </AreaChart>
+            </ResponsiveContainer>
+
+            <div className="space-y-3">
+              {series.map(({ key, name, color, summary }) => (
+                <div key={key} className="grid grid-cols-[140px_1fr] items-center gap-4">
+                  <span className="text-sm font-medium truncate" title={name}>{name}</span>
+                  <div
+                    className="relative h-8"
+                    title={`P5 ${format(summary.p5)} · P25 ${format(summary.p25)} · P50 ${format(summary.p50)} · P75 ${format(summary.p75)} · P95 ${format(summary.p95)} ${unit}`}
+                  >
+                    {/* Whisker from the 5th to the 95th percentile */}
+                    <div
+                      className="absolute top-1/2 h-px"
+                      style={{ left: `${position(summary.p5)}%`, width: `${position(summary.p95) - position(summary.p5)}%`, backgroundColor: color }}
+                    />
+                    <div
+                      className="absolute top-1 bottom-1 rounded-sm border-2"
+                      style={{
+                        left: `${position(summary.p25)}%`,
+                        width: `${position(summary.p75) - position(summary.p25)}%`,
+                        borderColor: color,
+                        backgroundColor: `${color}33`,
+                      }}
+                    />
+                    <div className="absolute top-1 bottom-1 w-0.5" style={{ left: `${position(summary.p50)}%`, backgroundColor: color }} />
+                    <div className="absolute top-2 bottom-2 w-px" style={{ left: `${position(summary.p5)}%`, backgroundColor: color }} />
+                    <div className="absolute top-2 bottom-2 w-px" style={{ left: `${position(summary.p95)}%`, backgroundColor: color }} />
+                  </div>
+                </div>
+              ))}
+              <div className="grid grid-cols-[140px_1fr] gap-4 text-xs text-muted-foreground">
+                <span />
+                <div className="flex justify-between">
+                  <span>{format(low)} {unit}</span>
+                  <span>{format(high)} {unit}</span>
+                </div>
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,222 @@
+import { useMemo, useState } from 'react';
+import { ComposedChart, Area, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useSensorTypes } from '@/hooks/useSensorTypes';
+import { useUnits } from '@/hooks/useUnits';
+import { getSensorKey } from '@/lib/agreement';
+import { buildDiurnalProfile, differencePoints, getSolarOffset, type HourlyProfile } from '@/lib/diurnal';
+import type { ResampledSeries } from '@/lib/resample';
+import type { SensorSeries } from '@/hooks/useSensorReadings';
+import type { WeatherStation } from '@/hooks/useWeatherStations';
+
+interface DiurnalPanelProps {
+  data: SensorSeries[]; // Every reading of each series, after outlier removal and any corrections
+  resampled: ResampledSeries[]; // The same series on the chart's bucket grid, for pairing with the reference
+  sensorNames: Record<string, string>;
+  stations: WeatherStation[];
+  referenceKeys: string[]; // Sensor keys of the reference model, one per type
+}
+
+interface ProfileLine {
+  key: string;
+  name: string;
+  color: string;
+  profile: HourlyProfile[];
+}
+
+// Color palette for the series
+const SERIES_COLORS = ['#3b82f6', '#ef4444', '#10b981', '#f59e0b', '#8b5cf6', '#ec4899'];
+
+const formatHour = (hour: number) => `${hour.toString().padStart(2, '0')}:00`;
+
+function ProfileChart({ lines, convert, unit, zeroLine }: {
+  lines: ProfileLine[];
+  convert: (value: number) => number;
+  unit: string;
+  zeroLine?: boolean;
+}) {
+  // One row per hour, with each line's mean and interquartile band
+  const rows = Array.from({ length: 24 }, (_, hour) => {
+    const row: Record<string, number | [number, number]> = { hour };
+    lines.forEach((line, i) => {
+      const entry = line.profile.find(p => p.hour === hour);
+      if (!entry) return;
+      row[`s${i}`] = convert(entry.mean);
+      row[`s${i}_band`] = [convert(entry.p25), convert(entry.p75)];
+    });
+    return row;
+  });
+
+  return (
+    <ResponsiveContainer width="100%" height={300}>
+      <ComposedChart data={rows}>
+        <CartesianGrid strokeDasharray="3 3" />
+        <XAxis
+          type="number"
+          dataKey="hour"
+          domain={[0, 23]}
+          ticks={[0, 3, 6, 9, 12, 15, 18, 21]}
+          tickFormatter={formatHour}
+          tick={{ fontSize: 12 }}
+          label={{ value: 'Local solar time', position: 'insideBottom', offset: -5, fontSize: 12 }}
+          height={40}
+        />
+        <YAxis domain={['auto', 'auto']} tickFormatter={(value: number) => Number(value.toPrecision(3)).toString()} tick={{ fontSize: 12 }} />
+        <Tooltip
+          labelFormatter={(hour: number) => `${formatHour(hour)} solar time`}
+          formatter={(value: number | [number, number]) => Array.isArray(value)
+            ? `${value[0].toFixed(2)} – ${value[1].toFixed(2)} ${unit}`
+            : `${value.toFixed(2)} ${unit}`}
+        />
+        <Legend />
+        {zeroLine && <ReferenceLine y={0} stroke="currentColor" strokeOpacity={0.4} />}
+        {lines.map((line, i) => (
+          <Area
+            key={`${line.key}-band`}
+            dataKey={`s${i}_band`}
+            name={`${line.name} (IQR)`}
+            stroke="none"
+            fill={line.color}
+            fillOpacity={0.15}
+            legendType="none"
+            isAnimationActive={false}
+          />
+        ))}
+        {lines.map((line, i) => (
+          <Line
+            key={line.key}
+            dataKey={`s${i}`}
+            name={line.name}
+            stroke={line.color}
+            strokeWidth={2}
+            dot={false}
+            isAnimationActive={false}
+          />
+        ))}
+      </ComposedChart>
+    </ResponsiveContainer>
+  );
+}
+
+/**
+ * Mean and interquartile band of each sensor by hour of day, to show errors
+ * that follow the sun, and each sensor's difference from the reference
+ */
+export function DiurnalPanel({ data, resampled, sensorNames, stations, referenceKeys }: DiurnalPanelProps) {
+  const sensorTypes = useSensorTypes();
+  const units = useUnits();
+  const [selectedType, setSelectedType] = useState<string>();
+
+  const types = [...new Set(data.filter(({ readings }) => readings.length > 0).map(({ sensor }) => sensor.sensorType))];
+  const sensorType = selectedType && types.includes(selectedType) ? selectedType : types[0];
+
+  const { profiles, differences, referenceName, referenceLocated, unlocated } = useMemo(() => {
+    const offsetOf = (pubkey: string) => getSolarOffset(stations.find(s => s.pubkey === pubkey)?.geohash);
+    const ofType = data.filter(({ sensor, readings }) => sensor.sensorType === sensorType && readings.length > 0);
+
+    // Solar time needs the station's longitude, and mixing in another clock would misalign the hours
+    const located = ofType.flatMap(({ sensor, readings }) => {
+      const offset = offsetOf(sensor.pubkey);
+      return offset === null ? [] : [{ sensor, readings, offset }];
+    });
+    const offsets = new Map(located.map(({ sensor, offset }) => [getSensorKey(sensor), offset]));
+
+    const profiles: ProfileLine[] = located.map(({ sensor, readings, offset }, i) => ({
+      key: getSensorKey(sensor),
+      name: sensorNames[getSensorKey(sensor)] || 'Unknown Sensor',
+      color: SERIES_COLORS[i % SERIES_COLORS.length],
+      profile: buildDiurnalProfile(readings, offset),
+    }));
+
+    const reference = resampled.find(({ sensor }) =>
+      sensor.sensorType === sensorType && referenceKeys.includes(getSensorKey(sensor))
+    );
+    const referenceLocated = reference !== undefined && offsets.has(getSensorKey(reference.sensor));
+    const differences: ProfileLine[] = reference && referenceLocated
+      ? profiles
+        .filter(line => line.key !== getSensorKey(reference.sensor))
+        .flatMap(line => {
+          const series = resampled.find(({ sensor }) => getSensorKey(sensor) === line.key);
+          const offset = offsets.get(line.key);
+          if (!series || offset === undefined) return [];
+          const points = differencePoints(series.points, reference.points);
+          return [{ ...line, profile: buildDiurnalProfile(points, offset) }];
+        })
+      : [];
+
+    return {
+      profiles,
+      differences,
+      referenceName: reference && (sensorNames[getSensorKey(reference.sensor)] || 'Reference'),
+      referenceLocated,
+      unlocated: ofType.length - located.length,
+    };
+  }, [data, resampled, sensorType, sensorNames, stations, referenceKeys]);
+
+  const unit = sensorType ? units.unit(sensorType) : '';
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle>Diurnal Profile</CardTitle>
+            <CardDescription>
+              Readings grouped by hour of day across the whole range, in each station's local solar time from its geohash. Lines are means; bands span the 25th to 75th percentile. Use a range of several days.
+            </CardDescription>
+          </div>
+          {types.length > 1 && (
+            <Select value={sensorType} onValueChange={setSelectedType}>
+              <SelectTrigger className="h-8 w-[160px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {types.map(type => (
+                  <SelectItem key={type} value={type}>{sensorTypes.get(type).name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {unlocated > 0 && (
+          <p className="text-sm text-muted-foreground">
+            {unlocated === 1 ? '1 sensor is' : `${unlocated} sensors are`} hidden because {unlocated === 1 ? 'its station has' : 'their stations have'} no location to work out solar time from.
+          </p>
+        )}
+        {profiles.length === 0 ? (
+          <div className="py-8 text-center text-muted-foreground">No readings to show</div>
+        ) : (
+          <>
+            <ProfileChart lines={profiles} convert={(value) => units.convert(value, sensorType!)} unit={unit} />
+
+            <div className="space-y-2">
+              <h4 className="text-sm font-semibold">
+                {referenceName ? `Difference from ${referenceName}` : 'Difference from reference'}
+              </h4>
+              {differences.length === 0 ? (
+                <div className="py-8 text-center text-muted-foreground">
+                  {referenceName && !referenceLocated
+                    ? "The reference's station has no location to work out solar time from"
+                    : referenceName
+                      ? 'No other sensor of this type overlaps with the reference'
+                      : 'Mark a sensor of this type as the reference in the Calibration tab to compare against it'}
+                </div>
+              ) : (
+                <ProfileChart lines={differences} convert={(value) => units.convertDelta(value, sensorType!)} unit={unit} zeroLine />
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
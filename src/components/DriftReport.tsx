@@ -0,0 +1,248 @@
+import { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useMultipleSensorReadings, type SensorSeries } from '@/hooks/useSensorReadings';
+import { useAppContext } from '@/hooks/useAppContext';
+import { useSensorTypes } from '@/hooks/useSensorTypes';
+import { useUnits } from '@/hooks/useUnits';
+import { getSensorKey } from '@/lib/agreement';
+import {
+  DRIFT_BUCKET_SECONDS,
+  DRIFT_RANGE_SECONDS,
+  DRIFT_RATE_SECONDS,
+  buildDriftSeries,
+  fitDriftTrend,
+  isDrifting,
+  type DriftPoint,
+  type DriftTrend,
+} from '@/lib/drift';
+import { resample } from '@/lib/resample';
+
+export interface DriftSensor {
+  sensor: SensorSeries['sensor'];
+  name: string;
+}
+
+interface DriftReportProps {
+  targets: DriftSensor[]; // Sensors to report on
+  candidates: DriftSensor[]; // Sensors each target may be compared with; may include the targets
+  references?: string[]; // Sensor keys a target of the same type is compared with alone, instead of the peer median
+}
+
+interface DriftRow {
+  target: DriftSensor;
+  peers: DriftSensor[];
+  points: DriftPoint[];
+  trend: DriftTrend | null;
+}
+
+/**
+ * Weekly difference of each sensor from a reference or the median of its
+ * same-type peers over the last 90 days, with a fitted drift rate
+ */
+export function DriftReport({ targets, candidates, references = [] }: DriftReportProps) {
+  const { config, updateConfig } = useAppContext();
+  const sensorTypes = useSensorTypes();
+  const units = useUnits();
+  const [selectedKey, setSelectedKey] = useState<string>();
+  // Fixed when the report opens so the query isn't re-run on every render
+  const [since] = useState(() => Math.floor(Date.now() / 1000) - DRIFT_RANGE_SECONDS);
+
+  const sensors = useMemo(() => {
+    const byKey = new Map([...targets, ...candidates].map(s => [getSensorKey(s.sensor), s.sensor]));
+    return [...byKey.values()];
+  }, [targets, candidates]);
+
+  const { data, isLoading, error } = useMultipleSensorReadings(sensors, since, undefined, DRIFT_RANGE_SECONDS);
+
+  const rows = useMemo<DriftRow[]>(() => {
+    if (!data) return [];
+
+    const weekly = new Map(data.map(({ sensor, readings }) => [
+      getSensorKey(sensor),
+      resample(readings, DRIFT_BUCKET_SECONDS, 'mean'),
+    ]));
+
+    return targets.map(target => {
+      const key = getSensorKey(target.sensor);
+      const sameType = candidates.filter(c =>
+        c.sensor.sensorType === target.sensor.sensorType && getSensorKey(c.sensor) !== key
+      );
+      const reference = sameType.find(c => references.includes(getSensorKey(c.sensor)));
+      const peers = reference ? [reference] : sameType;
+
+      const points = buildDriftSeries(
+        weekly.get(key) ?? [],
+        peers.map(peer => weekly.get(getSensorKey(peer.sensor)) ?? [])
+      );
+
+      const trend = fitDriftTrend(points, sensorTypes.get(target.sensor.sensorType).ratioScale ?? false);
+      return { target, peers, points, trend };
+    });
+  }, [data, targets, candidates, references, sensorTypes]);
+
+  const threshold = config.driftThreshold;
+  const selected = rows.find(row => getSensorKey(row.target.sensor) === selectedKey)
+    ?? rows.find(row => row.trend);
+
+  const chartData = useMemo(() => {
+    if (!selected?.trend) return [];
+    const { intercept, rate } = selected.trend;
+    const start = selected.points[0].timestamp;
+    const delta = (value: number) => units.convertDelta(value, selected.target.sensor.sensorType);
+    return selected.points.map(p => ({
+      timestamp: p.timestamp,
+      difference: delta(p.difference),
+      trend: delta(intercept + rate * (p.timestamp - start) / DRIFT_RATE_SECONDS),
+    }));
+  }, [selected, units]);
+
+  if (isLoading) {
+    return (
+      <div className="space-y-2">
+        <Skeleton className="h-8 w-full" />
+        <Skeleton className="h-8 w-full" />
+        <Skeleton className="h-[240px] w-full" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="py-8 text-center text-destructive">
+        Error loading readings: {error instanceof Error ? error.message : 'Unknown error'}
+      </div>
+    );
+  }
+
+  if (targets.length === 0) {
+    return <div className="py-8 text-center text-muted-foreground">No sensors to report on</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <p className="text-sm text-muted-foreground">
+          Weekly means over the last 90 days. Each sensor is compared with the reference, or else with the median of the same-type sensors around it. Only types measured from a true zero, such as PM, are flagged by percentage.
+        </p>
+        <div className="flex items-center gap-2">
+          <Label htmlFor="drift-threshold" className="text-sm font-normal whitespace-nowrap">
+            Flag above
+          </Label>
+          <Input
+            id="drift-threshold"
+            type="number"
+            min={0.1}
+            step={0.5}
+            value={threshold}
+            onChange={(e) => {
+              const value = Number(e.target.value);
+              if (value > 0) updateConfig((current) => ({ ...current, driftThreshold: value }));
+            }}
+            className="h-8 w-20"
+          />
+          <span className="text-sm text-muted-foreground whitespace-nowrap">% / 30 d</span>
+        </div>
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Sensor</TableHead>
+            <TableHead>Compared With</TableHead>
+            <TableHead className="text-right">Drift / 30 d</TableHead>
+            <TableHead className="text-right">% / 30 d</TableHead>
+            <TableHead className="text-right">R²</TableHead>
+            <TableHead className="text-right">Weeks</TableHead>
+            <TableHead className="text-right">Status</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map(({ target, peers, trend }) => {
+            const key = getSensorKey(target.sensor);
+            const sensorType = target.sensor.sensorType;
+
+            return (
+              <TableRow
+                key={key}
+                onClick={() => setSelectedKey(key)}
+                className="cursor-pointer"
+                data-state={selected && key === getSensorKey(selected.target.sensor) ? 'selected' : undefined}
+              >
+                <TableCell className="font-medium">{target.name}</TableCell>
+                <TableCell className="text-muted-foreground">
+                  {peers.length === 0
+                    ? 'No peers'
+                    : peers.length === 1
+                      ? peers[0].name
+                      : `Median of ${peers.length} sensors`}
+                </TableCell>
+                {trend ? (
+                  <>
+                    <TableCell className="text-right">
+                      {trend.rate >= 0 ? '+' : ''}{units.convertDelta(trend.rate, sensorType).toFixed(units.precision(sensorType) + 1)} {units.unit(sensorType)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {trend.relativeRate !== null ? `${trend.relativeRate >= 0 ? '+' : ''}${trend.relativeRate.toFixed(1)}%` : '—'}
+                    </TableCell>
+                    <TableCell className="text-right">{trend.r2.toFixed(2)}</TableCell>
+                    <TableCell className="text-right">{trend.count}</TableCell>
+                    <TableCell className="text-right">
+                      {trend.relativeRate === null ? (
+                        <span className="text-muted-foreground">—</span>
+                      ) : isDrifting(trend, threshold) ? (
+                        <Badge variant="destructive" className="text-xs">Drifting</Badge>
+                      ) : (
+                        <Badge variant="outline" className="text-xs">OK</Badge>
+                      )}
+                    </TableCell>
+                  </>
+                ) : (
+                  <TableCell colSpan={5} className="text-right text-muted-foreground">
+                    {peers.length === 0 ? '—' : 'Not enough overlapping weeks'}
+                  </TableCell>
+                )}
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+
+      {selected?.trend && (
+        <div className="space-y-2">
+          <h4 className="text-sm font-semibold">
+            {selected.target.name} minus {selected.peers.length === 1 ? selected.peers[0].name : 'peer median'}
+          </h4>
+          <ResponsiveContainer width="100%" height={240}>
+            <LineChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis
+                type="number"
+                dataKey="timestamp"
+                domain={['dataMin', 'dataMax']}
+                tickFormatter={(ts: number) => format(ts * 1000, 'MMM d')}
+                tick={{ fontSize: 12 }}
+              />
+              <YAxis domain={['auto', 'auto']} tick={{ fontSize: 12 }} />
+              <Tooltip
+                labelFormatter={(ts: number) => `Week of ${format(ts * 1000, 'MMM d, yyyy')}`}
+                formatter={(value: number, name: string) => [
+                  `${value.toFixed(3)} ${units.unit(selected.target.sensor.sensorType)}`,
+                  name === 'trend' ? 'Trend' : 'Difference',
+                ]}
+              />
+              <ReferenceLine y={0} stroke="currentColor" strokeOpacity={0.4} />
+              <Line type="monotone" dataKey="difference" stroke="#3b82f6" strokeWidth={2} isAnimationActive={false} />
+              <Line type="linear" dataKey="trend" stroke="#ef4444" strokeDasharray="4 4" dot={false} isAnimationActive={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import { Link, useLocation } from 'react-router-dom';
 import { BarChart3 } from 'lucide-react';
+import { SettingsDialog } from './SettingsDialog';
 
 export function Header() {
   const location = useLocation();
@@ -33,6 +34,14 @@ export function Header() {
             >
               Stations
             </Link>
+            <Link
+              to="/models"
+              className={`text-sm font-medium hover:text-primary transition-colors pb-1 ${
+                isActive('/models') ? 'text-primary border-b-2 border-primary' : 'border-b-2 border-transparent'
+              }`}
+            >
+              Models
+            </Link>
             <Link
               to="/benchmark"
               className={`text-sm font-medium hover:text-primary transition-colors pb-1 ${
@@ -41,6 +50,7 @@ export function Header() {
             >
               Benchmark
             </Link>
+            <SettingsDialog />
           </nav>
         </div>
       </div>
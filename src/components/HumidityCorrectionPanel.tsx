@@ -0,0 +1,270 @@
+import { useMemo, useState } from 'react';
+import { ScatterChart, Scatter, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useToast } from '@/hooks/useToast';
+import { findHumiditySeries } from '@/lib/calibration';
+import {
+  MAX_HUMIDITY,
+  PM_TYPES,
+  buildHumiditySamples,
+  fitHumidityCorrection,
+  growthFactor,
+  type HumidityCorrection,
+} from '@/lib/humidityCorrection';
+import { clearReferenceFits, type Comparison, type SensorSelection } from '@/lib/comparisonStore';
+import type { ResampledSeries } from '@/lib/resample';
+
+interface HumidityCorrectionPanelProps {
+  comparison: Comparison;
+  data: ResampledSeries[]; // Uncorrected series plus the stations' humidity, on the chart's bucket grid
+  sensorNames: Record<string, string>;
+  onUpdate: (updates: Partial<Comparison>) => void;
+  onUpdateSensor: (sensorId: string, updates: Partial<Omit<SensorSelection, 'id'>>) => void;
+}
+
+interface CorrectionTarget {
+  key: string;
+  selection: SensorSelection;
+  sensorType: string;
+}
+
+function findSeries(data: ResampledSeries[], selection: SensorSelection, sensorType: string) {
+  return data.find(({ sensor }) =>
+    sensor.pubkey === selection.stationPubkey &&
+    sensor.sensorModel === selection.sensorModel &&
+    sensor.sensorType === sensorType
+  );
+}
+
+// Ratio samples for a target, or undefined when the reference or humidity is missing
+function getSamples(data: ResampledSeries[], reference: SensorSelection | undefined, target: CorrectionTarget) {
+  const series = findSeries(data, target.selection, target.sensorType);
+  const referenceSeries = reference && findSeries(data, reference, target.sensorType);
+  const humidity = series && findHumiditySeries(data, series.sensor);
+  return series && referenceSeries && humidity
+    ? buildHumiditySamples(series.points, referenceSeries.points, humidity)
+    : undefined;
+}
+
+// Hides the markers along the fitted curve so only the line shows
+const hiddenShape = () => <g />;
+
+/**
+ * Show how a PM sensor's error against the reference grows with humidity,
+ * and fit a κ-Köhler growth-factor correction for it
+ */
+export function HumidityCorrectionPanel({
+  comparison,
+  data,
+  sensorNames,
+  onUpdate,
+  onUpdateSensor,
+}: HumidityCorrectionPanelProps) {
+  const { toast } = useToast();
+  const [selectedKey, setSelectedKey] = useState<string>();
+
+  const reference = comparison.sensors.find(s => s.id === comparison.referenceSensorId);
+
+  // PM types the reference shares with another sensor
+  const targets = useMemo<CorrectionTarget[]>(() => reference
+    ? comparison.sensors
+      .filter(s => s.id !== reference.id)
+      .flatMap(selection => selection.sensorTypes
+        .filter(type => PM_TYPES.includes(type) && reference.sensorTypes.includes(type))
+        .map(sensorType => ({
+          key: `${selection.stationPubkey}-${sensorType}-${selection.sensorModel}`,
+          selection,
+          sensorType,
+        })))
+    : [], [reference, comparison.sensors]);
+
+  const selected = targets.find(t => t.key === selectedKey) ?? targets[0];
+
+  const handleFit = () => {
+    const correctionsBySensor = new Map<string, Record<string, HumidityCorrection>>();
+    const failed: string[] = [];
+
+    targets.forEach(target => {
+      const samples = getSamples(data, reference, target);
+      const correction = samples ? fitHumidityCorrection(samples) : null;
+      if (!correction) {
+        failed.push(sensorNames[target.key] || target.key);
+        return;
+      }
+
+      const corrections = correctionsBySensor.get(target.selection.id) ?? {};
+      corrections[target.sensorType] = correction;
+      correctionsBySensor.set(target.selection.id, corrections);
+    });
+
+    correctionsBySensor.forEach((corrections, sensorId) => {
+      const selection = comparison.sensors.find(s => s.id === sensorId);
+      onUpdateSensor(sensorId, { humidityCorrections: { ...selection?.humidityCorrections, ...corrections } });
+    });
+
+    if (failed.length > 0) {
+      toast({
+        title: 'Some corrections could not be fitted',
+        description: `Not enough overlapping PM and humidity data for ${failed.join(', ')}.`,
+        variant: 'destructive',
+      });
+    } else {
+      toast({
+        title: 'Humidity corrections fitted',
+        description: `Fitted ${targets.length} correction${targets.length !== 1 ? 's' : ''} against the reference.`,
+      });
+    }
+  };
+
+  // Ratio against humidity for the selected sensor, with the fitted curve
+  const detail = useMemo(() => {
+    if (!selected) return null;
+
+    const samples = getSamples(data, reference, selected);
+    if (!samples) return { samples: [], curve: [] };
+
+    const correction = selected.selection.humidityCorrections?.[selected.sensorType];
+    const curve = correction
+      ? Array.from({ length: MAX_HUMIDITY / 2 + 1 }, (_, i) => {
+        const humidity = i * 2;
+        return { humidity, ratio: correction.dryRatio * growthFactor(humidity, correction.kappa) };
+      })
+      : [];
+
+    return { samples, curve };
+  }, [selected, data, reference]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Humidity Correction</CardTitle>
+        <CardDescription>
+          Optical PM sensors read high in humid air. Compare each against the reference by relative humidity and fit a growth-factor correction, PM ÷ (1 + (κ / 1.65) / (100 / RH − 1)). Corrected sensors leave out readings that have no humidity reading at the same time.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="grid gap-1.5">
+            <Label htmlFor={`humidity-reference-${comparison.id}`}>Reference Sensor</Label>
+            <Select
+              value={reference?.id ?? ''}
+              onValueChange={(referenceSensorId) => onUpdate({ referenceSensorId, sensors: clearReferenceFits(comparison.sensors) })}
+            >
+              <SelectTrigger id={`humidity-reference-${comparison.id}`} className="w-[240px]">
+                <SelectValue placeholder="Choose a reference" />
+              </SelectTrigger>
+              <SelectContent>
+                {comparison.sensors.map((sensor, index) => (
+                  <SelectItem key={sensor.id} value={sensor.id}>
+                    #{index + 1} {sensor.stationName} - {sensor.sensorModel}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button variant="outline" size="sm" onClick={handleFit} disabled={targets.length === 0}>
+            Fit Corrections
+          </Button>
+          <div className="flex items-center space-x-2 pb-2 ml-auto">
+            <Switch
+              id={`apply-humidity-${comparison.id}`}
+              checked={comparison.applyHumidityCorrection ?? false}
+              onCheckedChange={(checked) => onUpdate({ applyHumidityCorrection: checked })}
+            />
+            <Label htmlFor={`apply-humidity-${comparison.id}`} className="text-sm font-normal cursor-pointer">
+              Apply humidity correction
+            </Label>
+          </div>
+        </div>
+
+        {!reference ? (
+          <div className="py-8 text-center text-muted-foreground">
+            Choose a reference PM sensor, ideally one with a dryer inlet, to compare the others against
+          </div>
+        ) : targets.length === 0 ? (
+          <div className="py-8 text-center text-muted-foreground">
+            No other sensor measures the same PM types as the reference
+          </div>
+        ) : (
+          <>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Sensor</TableHead>
+                  <TableHead className="text-right">κ</TableHead>
+                  <TableHead className="text-right">Dry Ratio</TableHead>
+                  <TableHead className="text-right">R²</TableHead>
+                  <TableHead className="text-right">Samples</TableHead>
+                  <TableHead className="text-right">Fitted</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {targets.map(target => {
+                  const correction = target.selection.humidityCorrections?.[target.sensorType];
+
+                  return (
+                    <TableRow
+                      key={target.key}
+                      onClick={() => setSelectedKey(target.key)}
+                      className="cursor-pointer"
+                      data-state={target.key === selected?.key ? 'selected' : undefined}
+                    >
+                      <TableCell className="font-medium">{sensorNames[target.key] || 'Unknown Sensor'}</TableCell>
+                      {correction ? (
+                        <>
+                          <TableCell className="text-right">{correction.kappa.toFixed(3)}</TableCell>
+                          <TableCell className="text-right">{correction.dryRatio.toFixed(3)}</TableCell>
+                          <TableCell className="text-right">{correction.r2.toFixed(3)}</TableCell>
+                          <TableCell className="text-right">{correction.count}</TableCell>
+                          <TableCell className="text-right">{new Date(correction.fittedAt * 1000).toLocaleDateString()}</TableCell>
+                        </>
+                      ) : (
+                        <TableCell colSpan={5} className="text-right text-muted-foreground">Not fitted</TableCell>
+                      )}
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+
+            {selected && detail && (
+              detail.samples.length === 0 ? (
+                <div className="py-8 text-center text-muted-foreground">
+                  No humidity readings from this station overlap with the reference
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  <h4 className="text-sm font-semibold">
+                    {sensorNames[selected.key]} ÷ reference against relative humidity
+                  </h4>
+                  <ResponsiveContainer width="100%" height={300}>
+                    <ScatterChart>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis type="number" dataKey="humidity" name="Humidity" unit="%" domain={[0, 100]} tick={{ fontSize: 12 }} />
+                      <YAxis type="number" dataKey="ratio" name="Ratio" domain={['auto', 'auto']} tick={{ fontSize: 12 }} />
+                      <Tooltip cursor={{ strokeDasharray: '3 3' }} />
+                      <ReferenceLine y={1} stroke="currentColor" strokeOpacity={0.5} />
+                      <Scatter data={detail.samples} fill="#3b82f6" fillOpacity={0.5} isAnimationActive={false} />
+                      <Scatter data={detail.curve} line={{ stroke: '#ef4444', strokeWidth: 2 }} shape={hiddenShape} isAnimationActive={false} />
+                    </ScatterChart>
+                  </ResponsiveContainer>
+                </div>
+              )
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,189 @@
+import { useMemo, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { getSensorKey, listSameTypePairs } from '@/lib/agreement';
+import { chooseLagStep, crossCorrelate, findBestLag } from '@/lib/lag';
+import { formatBucketSeconds, resample } from '@/lib/resample';
+import type { SensorSeries } from '@/hooks/useSensorReadings';
+
+interface LagPanelProps {
+  data: SensorSeries[]; // Readings before any shift is applied; they are resampled onto a grid of their own
+  sensorNames: Record<string, string>;
+  pairKey?: string; // `${keyA}|${keyB}`, defaults to the first pair
+  onPairChange: (pairKey: string) => void;
+  timeOffsets: Record<string, number>; // Shifts currently applied, by sensor key
+  onShift: (sensorKey: string, seconds: number | undefined) => void; // Undefined removes the shift
+}
+
+// Largest lag searched in each direction
+const MAX_LAGS: Record<string, { label: string; seconds: number }> = {
+  '900': { label: '±15 min', seconds: 15 * 60 },
+  '3600': { label: '±1 h', seconds: 60 * 60 },
+  '21600': { label: '±6 h', seconds: 6 * 60 * 60 },
+  '86400': { label: '±24 h', seconds: 24 * 60 * 60 },
+};
+
+function formatLag(seconds: number): string {
+  if (seconds === 0) return '0 min';
+  return `${seconds < 0 ? '−' : '+'}${formatBucketSeconds(Math.abs(seconds))}`;
+}
+
+/**
+ * Cross-correlate two same-type series over a range of offsets to find clock
+ * skew or slow response, and shift the trailing series to line them up
+ */
+export function LagPanel({
+  data,
+  sensorNames,
+  pairKey,
+  onPairChange,
+  timeOffsets,
+  onShift,
+}: LagPanelProps) {
+  const [maxLag, setMaxLag] = useState('3600');
+
+  const pairs = useMemo(() => listSameTypePairs(data).map(([a, b]) => ({
+    key: `${getSensorKey(a.sensor)}|${getSensorKey(b.sensor)}`,
+    a,
+    b,
+  })), [data]);
+
+  const selected = pairs.find(p => p.key === pairKey) ?? pairs[0];
+  const nameOf = (series: SensorSeries) => sensorNames[getSensorKey(series.sensor)] || 'Unknown Sensor';
+
+  // Correlate on a grid finer than the chart's, so the lag isn't rounded to a chart bucket
+  const { correlations, step } = useMemo(() => {
+    if (!selected) return { correlations: [], step: 60 };
+
+    const timestamps = [...selected.a.readings, ...selected.b.readings].map(r => r.timestamp);
+    const span = timestamps.length > 0 ? Math.max(...timestamps) - Math.min(...timestamps) : 0;
+    const maxLagSeconds = MAX_LAGS[maxLag].seconds;
+    const step = chooseLagStep(maxLagSeconds, span);
+
+    return {
+      correlations: crossCorrelate(
+        resample(selected.a.readings, step, 'mean'),
+        resample(selected.b.readings, step, 'mean'),
+        step,
+        Math.max(1, Math.ceil(maxLagSeconds / step))
+      ),
+      step,
+    };
+  }, [selected, maxLag]);
+
+  const best = findBestLag(correlations);
+  const zeroLag = correlations.find(c => c.lag === 0);
+  const keyB = selected && getSensorKey(selected.b.sensor);
+  const appliedShift = keyB ? timeOffsets[keyB] : undefined;
+
+  const chartData = correlations
+    .filter(c => c.r !== null)
+    .map(c => ({ lag: c.lag / 60, r: c.r }));
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle>Time Lag</CardTitle>
+            <CardDescription>
+              Correlation of the second sensor against the first at each offset of {formatBucketSeconds(step)}; a positive lag means the second sensor trails the first
+            </CardDescription>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            {pairs.length > 0 && (
+              <Select value={selected?.key} onValueChange={onPairChange}>
+                <SelectTrigger className="h-8 w-[240px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {pairs.map(pair => (
+                    <SelectItem key={pair.key} value={pair.key}>
+                      {nameOf(pair.a)} vs {nameOf(pair.b)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <Label htmlFor="max-lag" className="sr-only">Maximum lag</Label>
+            <Select value={maxLag} onValueChange={setMaxLag}>
+              <SelectTrigger id="max-lag" className="h-8 w-[110px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(MAX_LAGS).map(([value, { label }]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!selected || !best ? (
+          <div className="h-[300px] flex items-center justify-center text-muted-foreground">
+            {selected
+              ? 'Not enough overlapping data for these two sensors'
+              : 'Add at least two sensors that measure the same type to compare them'}
+          </div>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-center gap-x-6 gap-y-2 text-sm">
+              <span>Best lag <span className="font-semibold">{formatLag(best.lag)}</span></span>
+              <span>r <span className="font-semibold">{best.r!.toFixed(3)}</span></span>
+              <span className="text-muted-foreground">
+                r at no lag {zeroLag?.r != null ? zeroLag.r.toFixed(3) : '—'}
+              </span>
+              <span className="text-muted-foreground">{best.count} overlapping buckets</span>
+              <div className="flex items-center gap-2 ml-auto">
+                {appliedShift !== undefined && (
+                  <Button variant="ghost" size="sm" onClick={() => onShift(keyB!, undefined)}>
+                    Remove shift ({formatLag(appliedShift)})
+                  </Button>
+                )}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={best.lag === 0 || appliedShift === -best.lag}
+                  onClick={() => onShift(keyB!, -best.lag)}
+                >
+                  Shift {nameOf(selected.b)} by {formatLag(-best.lag)}
+                </Button>
+              </div>
+            </div>
+
+            <ResponsiveContainer width="100%" height={300}>
+              <LineChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis
+                  type="number"
+                  dataKey="lag"
+                  domain={['dataMin', 'dataMax']}
+                  tick={{ fontSize: 12 }}
+                  label={{ value: 'Lag (min)', position: 'insideBottom', offset: -5 }}
+                />
+                <YAxis domain={['auto', 1]} tick={{ fontSize: 12 }} />
+                <Tooltip
+                  labelFormatter={(lag: number) => `Lag ${formatLag(lag * 60)}`}
+                  formatter={(r: number) => [r.toFixed(3), 'r']}
+                />
+                <ReferenceLine x={0} stroke="currentColor" strokeOpacity={0.4} />
+                <ReferenceLine x={best.lag / 60} stroke="#ef4444" strokeDasharray="4 4" />
+                <Line type="monotone" dataKey="r" stroke="#3b82f6" strokeWidth={2} dot={false} isAnimationActive={false} />
+              </LineChart>
+            </ResponsiveContainer>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
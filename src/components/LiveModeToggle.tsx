@@ -0,0 +1,23 @@
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { useAppContext } from '@/hooks/useAppContext';
+
+export function LiveModeToggle() {
+  const { config, updateConfig } = useAppContext();
+
+  return (
+    <div className="flex items-center space-x-2">
+      <Switch
+        id="live-mode"
+        checked={config.liveMode}
+        onCheckedChange={(checked) => updateConfig((current) => ({ ...current, liveMode: checked }))}
+      />
+      <Label htmlFor="live-mode" className="text-sm font-normal cursor-pointer flex items-center gap-1.5">
+        {config.liveMode && (
+          <span className="h-2 w-2 rounded-full bg-green-500 animate-pulse" />
+        )}
+        Live
+      </Label>
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+import { useState } from 'react';
+import { RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useAppContext } from '@/hooks/useAppContext';
+import { useSensorTypes } from '@/hooks/useSensorTypes';
+import {
+  OUTLIER_STRATEGIES,
+  getDefaultParams,
+  getOutlierRules,
+  type OutlierRuleConfig,
+} from '@/lib/outlierFilter';
+
+/**
+ * Configure which outlier rules run for each sensor type, and their thresholds
+ */
+export function OutlierRulesManager() {
+  const { config, updateConfig } = useAppContext();
+  const sensorTypes = useSensorTypes();
+
+  const [sensorType, setSensorType] = useState(sensorTypes.all[0]?.type ?? '');
+  const definition = sensorTypes.get(sensorType);
+  const rules = getOutlierRules(config.outlierRules, sensorType);
+  const isCustomised = sensorType in config.outlierRules;
+
+  const setRules = (updated: OutlierRuleConfig[]) => {
+    updateConfig((current) => ({
+      ...current,
+      outlierRules: { ...current.outlierRules, [sensorType]: updated },
+    }));
+  };
+
+  const updateRule = (index: number, changes: Partial<OutlierRuleConfig>) => {
+    setRules(rules.map((rule, i) => i === index ? { ...rule, ...changes } : rule));
+  };
+
+  const handleReset = () => {
+    updateConfig((current) => {
+      const { [sensorType]: _removed, ...rest } = current.outlierRules ?? {};
+      return { ...current, outlierRules: rest };
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-end gap-3">
+        <div className="grid gap-1.5 flex-1">
+          <Label htmlFor="outlier-sensor-type">Sensor Type</Label>
+          <Select value={sensorType} onValueChange={setSensorType}>
+            <SelectTrigger id="outlier-sensor-type">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {sensorTypes.all.map(def => (
+                <SelectItem key={def.type} value={def.type}>{def.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Button variant="outline" size="sm" onClick={handleReset} disabled={!isCustomised}>
+          <RotateCcw className="h-4 w-4 mr-2" />
+          Defaults
+        </Button>
+      </div>
+
+      <div className="space-y-3">
+        {rules.map((rule, index) => {
+          const strategy = OUTLIER_STRATEGIES[rule.strategy];
+          const params = { ...getDefaultParams(strategy), ...rule.params };
+          const id = `outlier-${sensorType}-${rule.strategy}`;
+
+          return (
+            <div key={rule.strategy} className="rounded-md border p-3 space-y-3">
+              <div className="flex items-start justify-between gap-3">
+                <div>
+                  <Label htmlFor={id} className="text-sm font-medium cursor-pointer">{strategy.label}</Label>
+                  <p className="text-xs text-muted-foreground">
+                    {strategy.id === 'physical-range' && definition.min !== undefined && definition.max !== undefined
+                      ? `${strategy.description} (${definition.min}–${definition.max} ${definition.unit})`
+                      : strategy.description}
+                  </p>
+                </div>
+                <Switch id={id} checked={rule.enabled} onCheckedChange={(enabled) => updateRule(index, { enabled })} />
+              </div>
+
+              {rule.enabled && strategy.params.length > 0 && (
+                <div className="grid grid-cols-2 gap-3">
+                  {strategy.params.map(param => (
+                    <div key={param.key} className="grid gap-1.5">
+                      <Label htmlFor={`${id}-${param.key}`} className="text-xs">{param.label}</Label>
+                      <Input
+                        id={`${id}-${param.key}`}
+                        type="number"
+                        min={param.min}
+                        step={param.step}
+                        value={params[param.key]}
+                        onChange={(e) => {
+                          const value = Number(e.target.value);
+                          if (e.target.value === '' || isNaN(value) || value < param.min) return;
+                          updateRule(index, { params: { ...params, [param.key]: value } });
+                        }}
+                      />
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        Rules run in order, each on the readings the previous rules kept. Physical range uses the limits set under Sensor Types.
+      </p>
+    </div>
+  );
+}
@@ -1,23 +1,15 @@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
-import { AlertCircle } from 'lucide-react';
-import type { OutlierInfo } from '@/lib/outlierFilter';
+import { Button } from '@/components/ui/button';
+import { AlertCircle, Check, X } from 'lucide-react';
+import { OUTLIER_STRATEGIES, type OutlierDecision, type OutlierInfo } from '@/lib/outlierFilter';
+import { useUnits } from '@/hooks/useUnits';
+import { cn } from '@/lib/utils';
 
 interface OutliersListProps {
   outliers: OutlierInfo[];
-}
-
-// Get sensor unit based on type
-function getSensorUnit(sensorType: string): string {
-  const units: Record<string, string> = {
-    temp: '°C',
-    humidity: '%',
-    pm1: 'µg/m³',
-    pm25: 'µg/m³',
-    pm10: 'µg/m³',
-    air_quality: 'raw',
-  };
-  return units[sensorType] || '';
+  onSelect?: (outlier: OutlierInfo) => void; // Jump to the outlier on the chart
+  onDecide?: (outlier: OutlierInfo, decision: OutlierDecision | undefined) => void; // Undefined clears the decision
 }
 
 // Format timestamp for display
@@ -31,23 +23,37 @@ function formatTimestamp(timestamp: number): string {
   });
 }
 
-export function OutliersList({ outliers }: OutliersListProps) {
+// Rule column text for an outlier
+function describeRule(outlier: OutlierInfo): { label: string; detail: string } {
+  if (outlier.rule === 'review') {
+    return { label: 'Review', detail: 'Marked as a sensor fault' };
+  }
+  const strategy = OUTLIER_STRATEGIES[outlier.rule];
+  return { label: strategy.label, detail: strategy.describe(outlier.score) };
+}
+
+export function OutliersList({ outliers, onSelect, onDecide }: OutliersListProps) {
+  const units = useUnits();
+
   if (outliers.length === 0) {
     return null;
   }
 
   // Sort outliers by timestamp (newest first)
   const sortedOutliers = [...outliers].sort((a, b) => b.timestamp - a.timestamp);
+  const removed = outliers.filter(o => o.decision !== 'real').length;
+  const reviewed = outliers.filter(o => o.decision !== undefined).length;
 
   return (
     <Card className="border-amber-200 dark:border-amber-900 bg-amber-50/50 dark:bg-amber-950/10">
       <CardHeader className="pb-3">
         <div className="flex items-center gap-2">
           <AlertCircle className="h-4 w-4 text-amber-600 dark:text-amber-500" />
-          <CardTitle className="text-base">Outliers Removed</CardTitle>
+          <CardTitle className="text-base">Outliers</CardTitle>
         </div>
         <CardDescription>
-          {outliers.length} invalid reading{outliers.length !== 1 ? 's' : ''} detected and filtered out (values that changed by more than 300%)
+          {removed} of {outliers.length} flagged reading{outliers.length !== 1 ? 's' : ''} filtered out, {reviewed} reviewed.
+          {onSelect && ' Click a row to find it on the chart.'}
         </CardDescription>
       </CardHeader>
       <CardContent>
@@ -57,15 +63,23 @@ export function OutliersList({ outliers }: OutliersListProps) {
               <TableHead>Sensor</TableHead>
               <TableHead>Time</TableHead>
               <TableHead className="text-right">Invalid Value</TableHead>
-              <TableHead className="text-right">Previous Value</TableHead>
-              <TableHead className="text-right">Change</TableHead>
+              <TableHead className="text-right">Expected</TableHead>
+              <TableHead>Rule</TableHead>
+              {onDecide && <TableHead className="text-right">Review</TableHead>}
             </TableRow>
           </TableHeader>
           <TableBody>
             {sortedOutliers.map((outlier, index) => {
-              const unit = getSensorUnit(outlier.sensorType);
+              const unit = units.unit(outlier.sensorType);
+              const rule = describeRule(outlier);
+              const toggle = (decision: OutlierDecision) =>
+                onDecide?.(outlier, outlier.decision === decision ? undefined : decision);
               return (
-                <TableRow key={`${outlier.timestamp}-${outlier.sensorType}-${index}`}>
+                <TableRow
+                  key={`${outlier.key}-${index}`}
+                  className={cn(onSelect && 'cursor-pointer', outlier.decision === 'real' && 'opacity-60')}
+                  onClick={() => onSelect?.(outlier)}
+                >
                   <TableCell className="font-medium">
                     {outlier.stationName}
                   </TableCell>
@@ -73,14 +87,39 @@ export function OutliersList({ outliers }: OutliersListProps) {
                     {formatTimestamp(outlier.timestamp)}
                   </TableCell>
                   <TableCell className="text-right text-amber-900 dark:text-amber-100 font-semibold">
-                    {outlier.value.toFixed(2)} {unit}
+                    {units.format(outlier.value, outlier.sensorType)} {unit}
                   </TableCell>
                   <TableCell className="text-right">
-                    {outlier.previousValue.toFixed(2)} {unit}
+                    {units.format(outlier.expected, outlier.sensorType)} {unit}
                   </TableCell>
-                  <TableCell className="text-right font-semibold text-amber-900 dark:text-amber-100">
-                    {outlier.percentChange.toFixed(0)}%
+                  <TableCell className="text-sm">
+                    <span className="font-medium">{rule.label}</span>
+                    <span className="text-muted-foreground"> · {rule.detail}</span>
                   </TableCell>
+                  {onDecide && (
+                    <TableCell className="text-right whitespace-nowrap" onClick={(e) => e.stopPropagation()}>
+                      <Button
+                        variant={outlier.decision === 'real' ? 'default' : 'outline'}
+                        size="sm"
+                        className="h-7 px-2 mr-1"
+                        onClick={() => toggle('real')}
+                        title="Keep this reading"
+                      >
+                        <Check className="h-3 w-3 mr-1" />
+                        Real event
+                      </Button>
+                      <Button
+                        variant={outlier.decision === 'fault' ? 'destructive' : 'outline'}
+                        size="sm"
+                        className="h-7 px-2"
+                        onClick={() => toggle('fault')}
+                        title="Always drop this reading"
+                      >
+                        <X className="h-3 w-3 mr-1" />
+                        Sensor fault
+                      </Button>
+                    </TableCell>
+                  )}
                 </TableRow>
               );
             })}
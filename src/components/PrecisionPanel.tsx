@@ -0,0 +1,173 @@
+import { useMemo, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useSensorTypes } from '@/hooks/useSensorTypes';
+import { useUnits } from '@/hooks/useUnits';
+import { getSensorKey } from '@/lib/agreement';
+import { characterizePrecision } from '@/lib/precision';
+import { formatBucketSeconds } from '@/lib/resample';
+import type { SensorSeries } from '@/hooks/useSensorReadings';
+
+interface PrecisionPanelProps {
+  data: SensorSeries[]; // Every reading of each series, after outlier removal and any corrections
+  sensorNames: Record<string, string>;
+}
+
+// Color palette for the Allan deviation curves
+const CURVE_COLORS = ['#3b82f6', '#ef4444', '#10b981', '#f59e0b', '#8b5cf6', '#ec4899'];
+
+function formatTau(seconds: number): string {
+  return seconds < 60 ? `${seconds} s` : formatBucketSeconds(seconds);
+}
+
+/**
+ * Noise figures for each series, with Allan deviation curves to find the
+ * averaging interval at which a sensor is most precise
+ */
+export function PrecisionPanel({ data, sensorNames }: PrecisionPanelProps) {
+  const sensorTypes = useSensorTypes();
+  const units = useUnits();
+  const [selectedType, setSelectedType] = useState<string>();
+
+  const rows = useMemo(() => data
+    .filter(({ readings }) => readings.length > 0)
+    .map(({ sensor, readings }) => ({
+      key: getSensorKey(sensor),
+      sensorType: sensor.sensorType,
+      stats: characterizePrecision(readings),
+    })), [data]);
+
+  const types = [...new Set(rows.map(row => row.sensorType))];
+  const chartType = selectedType && types.includes(selectedType) ? selectedType : types[0];
+  const curves = rows.filter(row => row.sensorType === chartType && row.stats.allan.length > 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Precision</CardTitle>
+        <CardDescription>
+          Noise is the spread of each reading around its neighbours, so slow changes don't count; resolution is the smallest step between values. The Allan deviation is lowest at the averaging time that best trades noise against drift.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {rows.length === 0 ? (
+          <div className="py-8 text-center text-muted-foreground">No readings to characterize</div>
+        ) : (
+          <>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Sensor</TableHead>
+                  <TableHead className="text-right">Readings</TableHead>
+                  <TableHead className="text-right">Interval</TableHead>
+                  <TableHead className="text-right">Noise σ</TableHead>
+                  <TableHead className="text-right">Resolution</TableHead>
+                  <TableHead className="text-right">Best Averaging</TableHead>
+                  <TableHead className="text-right">Min Allan Dev.</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map(({ key, sensorType, stats }) => {
+                  const decimals = units.precision(sensorType) + 2;
+                  const unit = units.unit(sensorType);
+                  const delta = (value: number) => units.convertDelta(value, sensorType);
+                  const best = stats.allan.find(p => p.tau === stats.bestTau);
+
+                  return (
+                    <TableRow key={key}>
+                      <TableCell className="font-medium">{sensorNames[key] || 'Unknown Sensor'}</TableCell>
+                      <TableCell className="text-right">{stats.count}</TableCell>
+                      <TableCell className="text-right">{formatTau(stats.interval)}</TableCell>
+                      <TableCell className="text-right">
+                        {stats.noise !== null ? `${delta(stats.noise).toFixed(decimals)} ${unit}` : '—'}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {stats.resolution !== null ? `${Number(delta(stats.resolution).toPrecision(3))} ${unit}` : '—'}
+                      </TableCell>
+                      <TableCell className="text-right">{stats.bestTau !== null ? formatTau(stats.bestTau) : '—'}</TableCell>
+                      <TableCell className="text-right">
+                        {best ? `${delta(best.deviation).toFixed(decimals)} ${unit}` : '—'}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between gap-4">
+                <h4 className="text-sm font-semibold">Allan deviation against averaging time</h4>
+                {types.length > 1 && (
+                  <Select value={chartType} onValueChange={setSelectedType}>
+                    <SelectTrigger className="h-8 w-[160px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {types.map(type => (
+                        <SelectItem key={type} value={type}>{sensorTypes.get(type).name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
+              {curves.length === 0 ? (
+                <div className="py-8 text-center text-muted-foreground">
+                  Not enough evenly spaced readings for an Allan deviation
+                </div>
+              ) : (
+                <ResponsiveContainer width="100%" height={300}>
+                  <LineChart>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis
+                      type="number"
+                      dataKey="tau"
+                      scale="log"
+                      domain={['auto', 'auto']}
+                      allowDuplicatedCategory={false}
+                      tickFormatter={formatTau}
+                      tick={{ fontSize: 12 }}
+                    />
+                    <YAxis
+                      type="number"
+                      scale="log"
+                      domain={['auto', 'auto']}
+                      tickFormatter={(value: number) => Number(value.toPrecision(2)).toString()}
+                      tick={{ fontSize: 12 }}
+                    />
+                    <Tooltip
+                      labelFormatter={(tau: number) => `τ = ${formatTau(tau)}`}
+                      formatter={(value: number) => `${value.toPrecision(3)} ${units.unit(chartType!)}`}
+                    />
+                    <Legend />
+                    {curves.map(({ key, stats }, index) => (
+                      <Line
+                        key={key}
+                        // Log scales can't show zero
+                        data={stats.allan
+                          .filter(p => p.deviation > 0)
+                          .map(p => ({ ...p, deviation: units.convertDelta(p.deviation, chartType!) }))}
+                        dataKey="deviation"
+                        name={sensorNames[key] || 'Unknown Sensor'}
+                        stroke={CURVE_COLORS[index % CURVE_COLORS.length]}
+                        strokeWidth={2}
+                        isAnimationActive={false}
+                      />
+                    ))}
+                  </LineChart>
+                </ResponsiveContainer>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,6 +1,9 @@
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { ComposedChart, Line, Area, XAxis, YAxis, CartesianGrid, Tooltip, ReferenceLine, ResponsiveContainer } from 'recharts';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import type { SensorReading } from '@/hooks/useSensorReadings';
+import { useSensorTypes } from '@/hooks/useSensorTypes';
+import { useUnits } from '@/hooks/useUnits';
+import type { ResampledSeries } from '@/lib/resample';
+import type { QCFlag } from '@/lib/qualityControl';
 
 interface LegendItem {
   stationName: string;
@@ -16,15 +19,12 @@ interface LegendItem {
 interface SensorChartProps {
   title: string;
   description?: string;
-  data: Array<{
-    sensor: {
-      pubkey: string;
-      sensorType: string;
-      sensorModel: string;
-    };
-    readings: SensorReading[];
-  }>;
+  data: ResampledSeries[]; // Every series resampled onto the same bucket grid
   sensorNames: Record<string, string>; // Maps sensor ID to display name
+  showEnvelope?: boolean; // Shade each bucket's min/max around the line
+  qcFlags?: Record<string, Record<number, QCFlag>>; // Worst QC flag per bucket, by sensor key
+  focusRange?: [number, number]; // Zoom the time axis to this window
+  highlightTimestamp?: number; // Mark this time with a vertical line
 }
 
 // Color palette for different stations
@@ -37,38 +37,20 @@ const STATION_COLORS = [
   '#ec4899', // pink
 ];
 
-// Line styles for different sensor types
-const SENSOR_TYPE_STYLES: Record<string, string> = {
-  'pm1': '0',      // solid
-  'pm25': '5 5',   // dashed
-  'pm10': '2 2',   // dotted
-  'temp': '0',     // solid
-  'humidity': '5 5', // dashed
-  'air_quality': '2 2', // dotted
-  'pressure': '8 4', // long dash
-  'light': '0',    // solid
-  'rain': '5 5',   // dashed
-};
-
-// Get sensor unit based on type
-function getSensorUnit(sensorType: string): string {
-  const units: Record<string, string> = {
-    temp: '°C',
-    humidity: '%',
-    pm1: 'µg/m³',
-    pm25: 'µg/m³',
-    pm10: 'µg/m³',
-    air_quality: 'raw',
-    pressure: 'hPa',
-    light: 'lux',
-    rain: 'raw',
-  };
-  return units[sensorType] || '';
-}
-
-// Format timestamp for X-axis
-function formatTimestamp(timestamp: number): string {
+// Format timestamp for X-axis: time of day within a day, the date beyond it
+function formatTimestamp(timestamp: number, spanSeconds: number): string {
   const date = new Date(timestamp * 1000);
+  if (spanSeconds > 86400 * 7) {
+    return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+  }
+  if (spanSeconds > 86400) {
+    return date.toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  }
   return date.toLocaleTimeString('en-US', {
     hour: '2-digit',
     minute: '2-digit',
@@ -79,6 +61,7 @@ function formatTimestamp(timestamp: number): string {
 function formatTooltipTime(timestamp: number): string {
   const date = new Date(timestamp * 1000);
   return date.toLocaleString('en-US', {
+    year: 'numeric',
     month: 'short',
     day: 'numeric',
     hour: '2-digit',
@@ -86,47 +69,62 @@ function formatTooltipTime(timestamp: number): string {
   });
 }
 
-export function SensorChart({ title, description, data, sensorNames }: SensorChartProps) {
-  // Combine all readings into a single dataset with timestamps
-  const allTimestamps = new Set<number>();
-  data.forEach(({ readings }) => {
-    readings.forEach(reading => {
-      allTimestamps.add(reading.timestamp);
-    });
-  });
-
-  const sortedTimestamps = Array.from(allTimestamps).sort((a, b) => a - b);
-
-  // Build chart data with forward-fill for missing values
-  const chartData = sortedTimestamps.map(timestamp => {
-    const dataPoint: Record<string, number | string> = {
-      timestamp,
-      time: formatTimestamp(timestamp),
-    };
-
-    data.forEach(({ sensor, readings }) => {
-      const sensorKey = `${sensor.pubkey}-${sensor.sensorType}-${sensor.sensorModel}`;
-
-      // Find exact reading at this timestamp
-      const exactReading = readings.find(r => r.timestamp === timestamp);
+// Marker for a bucket containing QC-flagged readings: triangle for suspect, cross for bad
+function QCMarker({ cx, cy, flag }: { cx: number; cy: number; flag: QCFlag }) {
+  if (flag === 'bad') {
+    return (
+      <path
+        d={`M${cx - 4},${cy - 4}L${cx + 4},${cy + 4}M${cx + 4},${cy - 4}L${cx - 4},${cy + 4}`}
+        stroke="#dc2626"
+        strokeWidth={2}
+      />
+    );
+  }
+  return <path d={`M${cx},${cy - 5}L${cx + 5},${cy + 4}L${cx - 5},${cy + 4}Z`} fill="#f59e0b" />;
+}
 
-      if (exactReading) {
-        dataPoint[sensorKey] = exactReading.value;
-      } else {
-        // Find the most recent reading before this timestamp (forward-fill)
-        const previousReading = readings
-          .filter(r => r.timestamp < timestamp)
-          .sort((a, b) => b.timestamp - a.timestamp)[0];
+export function SensorChart({
+  title,
+  description,
+  data,
+  sensorNames,
+  showEnvelope = false,
+  qcFlags = {},
+  focusRange,
+  highlightTimestamp,
+}: SensorChartProps) {
+  const sensorTypes = useSensorTypes();
+  const units = useUnits();
+
+  // Series share a bucket grid, so points with the same timestamp line up
+  const pointsByTimestamp = new Map<number, Record<string, number | number[]>>();
+
+  data.forEach(({ sensor, points }) => {
+    const sensorKey = `${sensor.pubkey}-${sensor.sensorType}-${sensor.sensorModel}`;
 
-        if (previousReading) {
-          dataPoint[sensorKey] = previousReading.value;
-        }
+    points.forEach(point => {
+      let dataPoint = pointsByTimestamp.get(point.timestamp);
+      if (!dataPoint) {
+        dataPoint = { timestamp: point.timestamp };
+        pointsByTimestamp.set(point.timestamp, dataPoint);
       }
-    });
 
-    return dataPoint;
+      dataPoint[sensorKey] = units.convert(point.value, sensor.sensorType);
+      dataPoint[`${sensorKey}-range`] = [
+        units.convert(point.min, sensor.sensorType),
+        units.convert(point.max, sensor.sensorType),
+      ];
+    });
   });
 
+  const chartData = Array.from(pointsByTimestamp.values())
+    .sort((a, b) => (a.timestamp as number) - (b.timestamp as number));
+
+  // Visible span picks how much of the date the axis shows
+  const spanSeconds = focusRange
+    ? focusRange[1] - focusRange[0]
+    : ((chartData.at(-1)?.timestamp as number | undefined) ?? 0) - ((chartData[0]?.timestamp as number | undefined) ?? 0);
+
   // Group sensors by station for consistent coloring and organized legend
   const legendItems: LegendItem[] = [];
   const stationMap = new Map<string, LegendItem>();
@@ -149,7 +147,7 @@ export function SensorChart({ title, description, data, sensorNames }: SensorCha
     station.sensors.push({
       type: sensor.sensorType,
       key: sensorKey,
-      strokeDasharray: SENSOR_TYPE_STYLES[sensor.sensorType] || '0',
+      strokeDasharray: sensorTypes.get(sensor.sensorType).dashStyle,
     });
   });
 
@@ -175,7 +173,7 @@ export function SensorChart({ title, description, data, sensorNames }: SensorCha
                     strokeDasharray={sensor.strokeDasharray}
                   />
                 </svg>
-                <span className="text-xs">{sensor.type}</span>
+                <span className="text-xs">{sensorNames[sensor.key]?.split(' - ')[1] ?? sensor.type}</span>
               </div>
             ))}
           </div>
@@ -200,9 +198,11 @@ export function SensorChart({ title, description, data, sensorNames }: SensorCha
     );
   }
 
+  const typeByKey = new Map(data.map(({ sensor }) => [`${sensor.pubkey}-${sensor.sensorType}-${sensor.sensorModel}`, sensor.sensorType]));
+
   // Get the sensor type and unit (for Y-axis label - uses first sensor)
   const sensorType = data[0]?.sensor.sensorType || '';
-  const unit = getSensorUnit(sensorType);
+  const unit = units.unit(sensorType);
 
   // Custom tooltip component
   const CustomTooltip = ({ active, payload, label }: {
@@ -212,12 +212,14 @@ export function SensorChart({ title, description, data, sensorNames }: SensorCha
   }) => {
     if (!active || !payload || !payload.length || !label) return null;
 
+    // Envelope areas carry the bucket range, not a value to list
+    payload = payload.filter(entry => !entry.dataKey.endsWith('-range'));
+
     // Group payload by sensor type, then sort by station
     const groupedBySensorType = new Map<string, typeof payload>();
 
     payload.forEach(entry => {
-      // Extract sensor type from name (format: "#1 - pm25")
-      const sensorType = entry.name.split(' - ')[1];
+      const sensorType = typeByKey.get(entry.dataKey) ?? '';
       if (!groupedBySensorType.has(sensorType)) {
         groupedBySensorType.set(sensorType, []);
       }
@@ -238,15 +240,12 @@ export function SensorChart({ title, description, data, sensorNames }: SensorCha
         <p className="font-semibold mb-2 text-sm">{formatTooltipTime(label)}</p>
         <div className="space-y-2">
           {Array.from(groupedBySensorType.entries()).map(([sensorType, entries]) => {
-            // Get unit for this specific sensor type
-            const sensorUnit = getSensorUnit(sensorType);
+            // Get line style for this specific sensor type
+            const definition = sensorTypes.get(sensorType);
 
             return (
               <div key={sensorType} className="space-y-1">
                 {entries.map((entry, index) => {
-                  // Get the line style for this sensor type
-                  const strokeDasharray = SENSOR_TYPE_STYLES[sensorType] || '0';
-
                   return (
                     <div key={index} className="flex items-center gap-2 text-xs">
                       <svg width="16" height="2" className="flex-shrink-0">
@@ -257,11 +256,11 @@ export function SensorChart({ title, description, data, sensorNames }: SensorCha
                           y2="1"
                           stroke={entry.color}
                           strokeWidth="2"
-                          strokeDasharray={strokeDasharray}
+                          strokeDasharray={definition.dashStyle}
                         />
                       </svg>
                       <span className="font-medium min-w-[4rem]">{entry.name}:</span>
-                      <span className="font-semibold">{entry.value.toFixed(2)} {sensorUnit}</span>
+                      <span className="font-semibold">{units.formatConverted(entry.value, sensorType)} {units.unit(sensorType)}</span>
                     </div>
                   );
                 })}
@@ -281,14 +280,15 @@ export function SensorChart({ title, description, data, sensorNames }: SensorCha
       </CardHeader>
       <CardContent>
         <ResponsiveContainer width="100%" height={400}>
-          <LineChart data={chartData}>
+          <ComposedChart data={chartData}>
             <CartesianGrid strokeDasharray="3 3" />
             <XAxis
               dataKey="timestamp"
               type="number"
-              domain={['dataMin', 'dataMax']}
+              domain={focusRange ?? ['dataMin', 'dataMax']}
+              allowDataOverflow={focusRange !== undefined}
               scale="time"
-              tickFormatter={formatTimestamp}
+              tickFormatter={(timestamp: number) => formatTimestamp(timestamp, spanSeconds)}
               tick={{ fontSize: 12 }}
               minTickGap={50}
             />
@@ -297,6 +297,24 @@ export function SensorChart({ title, description, data, sensorNames }: SensorCha
               tick={{ fontSize: 12 }}
             />
             <Tooltip content={<CustomTooltip />} />
+            {highlightTimestamp !== undefined && (
+              <ReferenceLine x={highlightTimestamp} stroke="#dc2626" strokeDasharray="4 4" />
+            )}
+            {showEnvelope && legendItems.map(item =>
+              item.sensors.map(sensor => (
+                <Area
+                  key={`${sensor.key}-range`}
+                  type="monotone"
+                  dataKey={`${sensor.key}-range`}
+                  stroke="none"
+                  fill={item.color}
+                  fillOpacity={0.15}
+                  isAnimationActive={false}
+                  activeDot={false}
+                  connectNulls
+                />
+              ))
+            )}
             {legendItems.map(item =>
               item.sensors.map(sensor => {
                 const displayName = sensorNames[sensor.key] || `${item.stationName} - ${sensor.type}`;
@@ -309,17 +327,33 @@ export function SensorChart({ title, description, data, sensorNames }: SensorCha
                     stroke={item.color}
                     strokeWidth={2}
                     strokeDasharray={sensor.strokeDasharray}
-                    dot={false}
+                    dot={(props: { key?: string; cx?: number; cy?: number; payload?: { timestamp: number } }) => {
+                      const flag = props.payload && qcFlags[sensor.key]?.[props.payload.timestamp];
+                      if (!flag || props.cx === undefined || props.cy === undefined) return <g key={props.key} />;
+                      return <QCMarker key={props.key} cx={props.cx} cy={props.cy} flag={flag} />;
+                    }}
                     connectNulls
                   />
                 );
               })
             )}
-          </LineChart>
+          </ComposedChart>
         </ResponsiveContainer>
 
         {/* Custom organized legend */}
         <CustomLegend />
+        {Object.values(qcFlags).some(flags => Object.keys(flags).length > 0) && (
+          <div className="flex justify-center gap-4 pt-3 text-xs text-muted-foreground">
+            <span className="flex items-center gap-1.5">
+              <svg width="12" height="12" viewBox="-6 -6 12 12"><QCMarker cx={0} cy={0} flag="suspect" /></svg>
+              Suspect (QC)
+            </span>
+            <span className="flex items-center gap-1.5">
+              <svg width="12" height="12" viewBox="-6 -6 12 12"><QCMarker cx={0} cy={0} flag="bad" /></svg>
+              Bad (QC)
+            </span>
+          </div>
+        )}
       </CardContent>
     </Card>
   );
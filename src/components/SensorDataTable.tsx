@@ -1,6 +1,9 @@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import type { SensorReading } from '@/hooks/useSensorReadings';
+import { useUnits } from '@/hooks/useUnits';
+import { summarizeQualityControl, type QCResult } from '@/lib/qualityControl';
+import { summarizeDistribution } from '@/lib/distribution';
 
 interface SensorDataTableProps {
   title: string;
@@ -11,55 +14,47 @@ interface SensorDataTableProps {
       sensorType: string;
       sensorModel: string;
     };
-    readings: SensorReading[];
+    readings: Array<Pick<SensorReading, 'timestamp' | 'value'>>; // Formula series have no source events
   }>;
   sensorNames: Record<string, string>;
-}
-
-// Get sensor unit based on type
-function getSensorUnit(sensorType: string): string {
-  const units: Record<string, string> = {
-    temp: '°C',
-    humidity: '%',
-    pm1: 'µg/m³',
-    pm25: 'µg/m³',
-    pm10: 'µg/m³',
-    air_quality: 'raw',
-    pressure: 'hPa',
-    light: 'lux',
-    rain: 'raw',
-  };
-  return units[sensorType] || '';
+  qc?: Record<string, QCResult[]>; // QC flags per reading, by sensor key
 }
 
 // Calculate statistics for a set of readings
-function calculateStats(readings: SensorReading[]) {
+function calculateStats(readings: Array<Pick<SensorReading, 'timestamp' | 'value'>>) {
   if (readings.length === 0) {
     return {
       count: 0,
       min: 0,
       max: 0,
       avg: 0,
+      p5: 0,
+      p50: 0,
+      p95: 0,
+      std: 0,
       latest: 0,
     };
   }
 
-  const values = readings.map(r => r.value);
-  const min = Math.min(...values);
-  const max = Math.max(...values);
-  const avg = values.reduce((sum, val) => sum + val, 0) / values.length;
+  const summary = summarizeDistribution(readings.map(r => r.value))!;
   const latest = readings[readings.length - 1]?.value || 0;
 
   return {
     count: readings.length,
-    min,
-    max,
-    avg,
+    min: summary.min,
+    max: summary.max,
+    avg: summary.mean,
+    p5: summary.p5,
+    p50: summary.p50,
+    p95: summary.p95,
+    std: summary.std,
     latest,
   };
 }
 
-export function SensorDataTable({ title, description, data, sensorNames }: SensorDataTableProps) {
+export function SensorDataTable({ title, description, data, sensorNames, qc }: SensorDataTableProps) {
+  const units = useUnits();
+
   if (data.length === 0) {
     return (
       <Card>
@@ -78,7 +73,7 @@ export function SensorDataTable({ title, description, data, sensorNames }: Senso
 
   // Get the sensor type and unit (assumes all sensors are the same type)
   const sensorType = data[0]?.sensor.sensorType || '';
-  const unit = getSensorUnit(sensorType);
+  const unit = units.unit(sensorType);
 
   return (
     <Card>
@@ -92,9 +87,14 @@ export function SensorDataTable({ title, description, data, sensorNames }: Senso
             <TableRow>
               <TableHead>Sensor</TableHead>
               <TableHead className="text-right">Data Points</TableHead>
+              {qc && <TableHead className="text-right">Good</TableHead>}
               <TableHead className="text-right">Min {unit}</TableHead>
               <TableHead className="text-right">Max {unit}</TableHead>
               <TableHead className="text-right">Avg {unit}</TableHead>
+              <TableHead className="text-right">P5 {unit}</TableHead>
+              <TableHead className="text-right">P50 {unit}</TableHead>
+              <TableHead className="text-right">P95 {unit}</TableHead>
+              <TableHead className="text-right">Std Dev {unit}</TableHead>
               <TableHead className="text-right">Latest {unit}</TableHead>
             </TableRow>
           </TableHeader>
@@ -103,15 +103,30 @@ export function SensorDataTable({ title, description, data, sensorNames }: Senso
               const sensorKey = `${sensor.pubkey}-${sensor.sensorType}-${sensor.sensorModel}`;
               const displayName = sensorNames[sensorKey] || 'Unknown Sensor';
               const stats = calculateStats(readings);
+              const quality = qc?.[sensorKey] && summarizeQualityControl(qc[sensorKey]);
 
               return (
                 <TableRow key={sensorKey}>
                   <TableCell className="font-medium">{displayName}</TableCell>
                   <TableCell className="text-right">{stats.count}</TableCell>
-                  <TableCell className="text-right">{stats.min.toFixed(2)}</TableCell>
-                  <TableCell className="text-right">{stats.max.toFixed(2)}</TableCell>
-                  <TableCell className="text-right">{stats.avg.toFixed(2)}</TableCell>
-                  <TableCell className="text-right font-semibold">{stats.latest.toFixed(2)}</TableCell>
+                  {qc && (
+                    <TableCell
+                      className="text-right"
+                      title={quality ? `${quality.suspect} suspect, ${quality.bad} bad` : undefined}
+                    >
+                      {quality && stats.count > 0 ? `${quality.goodPercent.toFixed(1)}%` : '—'}
+                    </TableCell>
+                  )}
+                  <TableCell className="text-right">{units.format(stats.min, sensor.sensorType)}</TableCell>
+                  <TableCell className="text-right">{units.format(stats.max, sensor.sensorType)}</TableCell>
+                  <TableCell className="text-right">{units.format(stats.avg, sensor.sensorType)}</TableCell>
+                  <TableCell className="text-right">{units.format(stats.p5, sensor.sensorType)}</TableCell>
+                  <TableCell className="text-right">{units.format(stats.p50, sensor.sensorType)}</TableCell>
+                  <TableCell className="text-right">{units.format(stats.p95, sensor.sensorType)}</TableCell>
+                  <TableCell className="text-right">
+                    {units.formatConverted(units.convertDelta(stats.std, sensor.sensorType), sensor.sensorType)}
+                  </TableCell>
+                  <TableCell className="text-right font-semibold">{units.format(stats.latest, sensor.sensorType)}</TableCell>
                 </TableRow>
               );
             })}
@@ -0,0 +1,209 @@
+import { useMemo } from 'react';
+import {
+  ScatterChart,
+  Scatter,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceLine,
+} from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useUnits } from '@/hooks/useUnits';
+import {
+  alignPoints,
+  computeBlandAltman,
+  fitRegressionLine,
+  getSensorKey,
+  listSameTypePairs,
+} from '@/lib/agreement';
+import type { ResampledSeries } from '@/lib/resample';
+
+interface SensorPairPlotProps {
+  variant: 'scatter' | 'bland-altman';
+  title: string;
+  description?: string;
+  data: ResampledSeries[]; // Every series resampled onto the same bucket grid
+  sensorNames: Record<string, string>;
+  pairKey?: string; // `${keyA}|${keyB}`, defaults to the first pair
+  onPairChange: (pairKey: string) => void;
+}
+
+// Hides the markers at a line's endpoints so only the line shows
+const hiddenShape = () => <g />;
+
+/**
+ * Method-comparison plots for two same-type series: an X-vs-Y scatter with
+ * 1:1 and regression lines, or a Bland–Altman plot with limits of agreement
+ */
+export function SensorPairPlot({
+  variant,
+  title,
+  description,
+  data,
+  sensorNames,
+  pairKey,
+  onPairChange,
+}: SensorPairPlotProps) {
+  const units = useUnits();
+
+  const pairs = useMemo(() => listSameTypePairs(data).map(([a, b]) => ({
+    key: `${getSensorKey(a.sensor)}|${getSensorKey(b.sensor)}`,
+    a,
+    b,
+  })), [data]);
+
+  const selected = pairs.find(p => p.key === pairKey) ?? pairs[0];
+  const nameOf = (series: ResampledSeries) => sensorNames[getSensorKey(series.sensor)] || 'Unknown Sensor';
+
+  // Aligned values in display units
+  const values = useMemo(() => {
+    if (!selected) return [];
+    const type = selected.a.sensor.sensorType;
+    return alignPoints(selected.a.points, selected.b.points)
+      .map(([a, b]): [number, number] => [units.convert(a, type), units.convert(b, type)]);
+  }, [selected, units]);
+
+  const header = (
+    <CardHeader>
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div className="space-y-1.5">
+          <CardTitle>{title}</CardTitle>
+          {description && <CardDescription>{description}</CardDescription>}
+        </div>
+        {pairs.length > 0 && (
+          <Select value={selected?.key} onValueChange={onPairChange}>
+            <SelectTrigger className="h-8 w-[240px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {pairs.map(pair => (
+                <SelectItem key={pair.key} value={pair.key}>
+                  {nameOf(pair.a)} vs {nameOf(pair.b)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+    </CardHeader>
+  );
+
+  if (!selected || values.length < 2) {
+    return (
+      <Card>
+        {header}
+        <CardContent>
+          <div className="h-[400px] flex items-center justify-center text-muted-foreground">
+            {selected
+              ? 'Not enough overlapping data for these two sensors'
+              : 'Add at least two sensors that measure the same type to compare them'}
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const unit = units.unit(selected.a.sensor.sensorType);
+  const format = (value: number) => units.formatConverted(value, selected.a.sensor.sensorType);
+
+  if (variant === 'bland-altman') {
+    const analysis = computeBlandAltman(values)!;
+
+    return (
+      <Card>
+        {header}
+        <CardContent className="space-y-3">
+          <ResponsiveContainer width="100%" height={400}>
+            <ScatterChart>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis
+                type="number"
+                dataKey="mean"
+                name="Mean"
+                domain={['auto', 'auto']}
+                tick={{ fontSize: 12 }}
+                label={{ value: `Mean (${unit})`, position: 'insideBottom', offset: -5 }}
+              />
+              <YAxis
+                type="number"
+                dataKey="difference"
+                name="Difference"
+                domain={['auto', 'auto']}
+                tick={{ fontSize: 12 }}
+                label={{ value: `${nameOf(selected.b)} − ${nameOf(selected.a)}`, angle: -90, position: 'insideLeft' }}
+              />
+              <Tooltip cursor={{ strokeDasharray: '3 3' }} formatter={(value: number) => format(value)} />
+              <ReferenceLine y={0} stroke="currentColor" strokeOpacity={0.3} />
+              <ReferenceLine y={analysis.bias} stroke="#3b82f6" strokeWidth={2} label={{ value: 'Bias', position: 'right', fontSize: 12 }} />
+              <ReferenceLine y={analysis.upper} stroke="#ef4444" strokeDasharray="5 5" label={{ value: '+1.96 SD', position: 'right', fontSize: 12 }} />
+              <ReferenceLine y={analysis.lower} stroke="#ef4444" strokeDasharray="5 5" label={{ value: '−1.96 SD', position: 'right', fontSize: 12 }} />
+              <Scatter data={analysis.points} fill="#3b82f6" fillOpacity={0.5} isAnimationActive={false} />
+            </ScatterChart>
+          </ResponsiveContainer>
+          <p className="text-sm text-muted-foreground text-center">
+            Bias {format(analysis.bias)} {unit} · limits of agreement {format(analysis.lower)} to {format(analysis.upper)} {unit} · {values.length} samples
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const regression = fitRegressionLine(values);
+  const allValues = values.flat();
+  const min = Math.min(...allValues);
+  const max = Math.max(...allValues);
+  const points = values.map(([x, y]) => ({ x, y }));
+  const identityLine = [{ x: min, y: min }, { x: max, y: max }];
+  const regressionLine = regression && [min, max].map(x => ({ x, y: regression.slope * x + regression.intercept }));
+
+  return (
+    <Card>
+      {header}
+      <CardContent className="space-y-3">
+        <ResponsiveContainer width="100%" height={400}>
+          <ScatterChart>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis
+              type="number"
+              dataKey="x"
+              name={nameOf(selected.a)}
+              domain={[min, max]}
+              tickFormatter={format}
+              tick={{ fontSize: 12 }}
+              label={{ value: `${nameOf(selected.a)} (${unit})`, position: 'insideBottom', offset: -5 }}
+            />
+            <YAxis
+              type="number"
+              dataKey="y"
+              name={nameOf(selected.b)}
+              domain={[min, max]}
+              tickFormatter={format}
+              tick={{ fontSize: 12 }}
+              label={{ value: `${nameOf(selected.b)} (${unit})`, angle: -90, position: 'insideLeft' }}
+            />
+            <Tooltip cursor={{ strokeDasharray: '3 3' }} formatter={(value: number) => format(value)} />
+            <Scatter data={points} fill="#3b82f6" fillOpacity={0.5} isAnimationActive={false} />
+            <Scatter data={identityLine} line={{ stroke: 'currentColor', strokeDasharray: '5 5', strokeOpacity: 0.5 }} shape={hiddenShape} isAnimationActive={false} />
+            {regressionLine && (
+              <Scatter data={regressionLine} line={{ stroke: '#ef4444', strokeWidth: 2 }} shape={hiddenShape} isAnimationActive={false} />
+            )}
+          </ScatterChart>
+        </ResponsiveContainer>
+        <p className="text-sm text-muted-foreground text-center">
+          Dashed: 1:1 line
+          {regression && ` · Red: y = ${regression.slope.toFixed(3)}x ${regression.intercept >= 0 ? '+' : '−'} ${Math.abs(regression.intercept).toFixed(3)}`}
+          {` · ${values.length} samples`}
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
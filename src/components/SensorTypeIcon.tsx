@@ -0,0 +1,39 @@
+import {
+  Activity,
+  CloudRain,
+  Droplets,
+  Flame,
+  Gauge,
+  Leaf,
+  Radio,
+  Sun,
+  Thermometer,
+  Wind,
+  Zap,
+  type LucideIcon,
+} from 'lucide-react';
+import type { SENSOR_TYPE_ICON_NAMES } from '@/lib/sensorTypes';
+
+const ICONS: Record<typeof SENSOR_TYPE_ICON_NAMES[number], LucideIcon> = {
+  'thermometer': Thermometer,
+  'droplets': Droplets,
+  'gauge': Gauge,
+  'wind': Wind,
+  'activity': Activity,
+  'sun': Sun,
+  'cloud-rain': CloudRain,
+  'leaf': Leaf,
+  'flame': Flame,
+  'zap': Zap,
+  'radio': Radio,
+};
+
+interface SensorTypeIconProps {
+  icon: string;
+  className?: string;
+}
+
+export function SensorTypeIcon({ icon, className }: SensorTypeIconProps) {
+  const Icon = ICONS[icon as keyof typeof ICONS] ?? Gauge;
+  return <Icon className={className} />;
+}
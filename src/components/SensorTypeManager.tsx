@@ -0,0 +1,257 @@
+import { useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { SensorTypeIcon } from './SensorTypeIcon';
+import { useAppContext } from '@/hooks/useAppContext';
+import { useSensorTypes } from '@/hooks/useSensorTypes';
+import { useToast } from '@/hooks/useToast';
+import {
+  DASH_STYLES,
+  SENSOR_TYPE_ICON_NAMES,
+  isBuiltInSensorType,
+  type SensorTypeDefinition,
+} from '@/lib/sensorTypes';
+
+const EMPTY_FORM = {
+  type: '',
+  name: '',
+  unit: '',
+  precision: '1',
+  min: '',
+  max: '',
+  restValue: '',
+  dashStyle: '0',
+  icon: 'gauge',
+};
+
+/**
+ * Lists the registered sensor types and lets users add their own for new
+ * tags their stations publish (e.g. `co2`, `uv`)
+ */
+export function SensorTypeManager() {
+  const { config, updateConfig } = useAppContext();
+  const sensorTypes = useSensorTypes();
+  const { toast } = useToast();
+
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [ratioScale, setRatioScale] = useState(false);
+
+  const setField = (field: keyof typeof EMPTY_FORM) => (value: string) => {
+    setForm(current => ({ ...current, [field]: value }));
+  };
+
+  const handleAdd = () => {
+    const type = form.type.trim();
+
+    if (sensorTypes.all.some(def => def.type === type)) {
+      toast({
+        title: 'Sensor type already exists',
+        description: `"${type}" is already registered.`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const min = form.min.trim() ? Number(form.min) : undefined;
+    const max = form.max.trim() ? Number(form.max) : undefined;
+    if ((min !== undefined && isNaN(min)) || (max !== undefined && isNaN(max)) ||
+      (min !== undefined && max !== undefined && min >= max)) {
+      toast({
+        title: 'Invalid range',
+        description: 'Min and max must be numbers, with min below max.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const restValue = form.restValue.trim() ? Number(form.restValue) : undefined;
+    if (restValue !== undefined && isNaN(restValue)) {
+      toast({
+        title: 'Invalid resting value',
+        description: 'The resting value must be a number.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const definition: SensorTypeDefinition = {
+      type,
+      name: form.name.trim() || type,
+      unit: form.unit.trim(),
+      precision: Number(form.precision),
+      min,
+      max,
+      restValue,
+      ratioScale: ratioScale || undefined,
+      dashStyle: form.dashStyle,
+      icon: form.icon,
+    };
+
+    updateConfig((current) => ({
+      ...current,
+      customSensorTypes: [...(current.customSensorTypes ?? []), definition],
+    }));
+    setForm(EMPTY_FORM);
+    setRatioScale(false);
+  };
+
+  const handleRemove = (type: string) => {
+    updateConfig((current) => ({
+      ...current,
+      customSensorTypes: (current.customSensorTypes ?? []).filter(def => def.type !== type),
+    }));
+  };
+
+  const isValid = /^[a-z0-9_]+$/i.test(form.type.trim());
+
+  return (
+    <div className="space-y-4">
+      {/* Registered Types */}
+      <div className="space-y-2">
+        {sensorTypes.all.map((def) => (
+          <div
+            key={def.type}
+            className="flex items-center gap-3 px-3 py-2 rounded-md border bg-muted/20 text-sm"
+          >
+            <SensorTypeIcon icon={def.icon} className="h-4 w-4 text-muted-foreground shrink-0" />
+            <span className="font-mono w-24 truncate">{def.type}</span>
+            <span className="flex-1 truncate">{def.name}</span>
+            <span className="text-muted-foreground text-xs whitespace-nowrap">
+              {def.unit || '—'}
+              {def.min !== undefined && def.max !== undefined && ` · ${def.min}–${def.max}`}
+            </span>
+            <svg width="24" height="2" className="shrink-0">
+              <line x1="0" y1="1" x2="24" y2="1" stroke="currentColor" strokeWidth="2" strokeDasharray={def.dashStyle} />
+            </svg>
+            {isBuiltInSensorType(def.type) ? (
+              <span className="size-5 shrink-0" />
+            ) : (
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => handleRemove(def.type)}
+                className="size-5 text-muted-foreground hover:text-destructive hover:bg-transparent shrink-0"
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {/* Add Type Form */}
+      <div className="grid grid-cols-2 gap-3 rounded-md border p-3">
+        <div className="grid gap-1.5">
+          <Label htmlFor="sensor-type-tag">Tag</Label>
+          <Input id="sensor-type-tag" placeholder="e.g. co2" value={form.type} onChange={(e) => setField('type')(e.target.value)} />
+        </div>
+        <div className="grid gap-1.5">
+          <Label htmlFor="sensor-type-name">Display Name</Label>
+          <Input id="sensor-type-name" placeholder="e.g. CO₂" value={form.name} onChange={(e) => setField('name')(e.target.value)} />
+        </div>
+        <div className="grid gap-1.5">
+          <Label htmlFor="sensor-type-unit">Unit</Label>
+          <Input id="sensor-type-unit" placeholder="e.g. ppm" value={form.unit} onChange={(e) => setField('unit')(e.target.value)} />
+        </div>
+        <div className="grid gap-1.5">
+          <Label htmlFor="sensor-type-precision">Decimals</Label>
+          <Select value={form.precision} onValueChange={setField('precision')}>
+            <SelectTrigger id="sensor-type-precision">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {['0', '1', '2', '3'].map(p => (
+                <SelectItem key={p} value={p}>{p}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="grid gap-1.5">
+          <Label htmlFor="sensor-type-min">Plausible Min</Label>
+          <Input id="sensor-type-min" type="number" value={form.min} onChange={(e) => setField('min')(e.target.value)} />
+        </div>
+        <div className="grid gap-1.5">
+          <Label htmlFor="sensor-type-max">Plausible Max</Label>
+          <Input id="sensor-type-max" type="number" value={form.max} onChange={(e) => setField('max')(e.target.value)} />
+        </div>
+        <div className="grid gap-1.5 col-span-2">
+          <Label htmlFor="sensor-type-rest">Resting Value</Label>
+          <Input
+            id="sensor-type-rest"
+            type="number"
+            placeholder="e.g. 0 for a UV sensor at night"
+            value={form.restValue}
+            onChange={(e) => setField('restValue')(e.target.value)}
+          />
+        </div>
+        <div className="flex items-center space-x-2 col-span-2">
+          <Checkbox
+            id="sensor-type-ratio"
+            checked={ratioScale}
+            onCheckedChange={(checked) => setRatioScale(checked as boolean)}
+          />
+          <Label htmlFor="sensor-type-ratio" className="text-sm font-normal cursor-pointer">
+            Measured from a true zero (e.g. a gas concentration), so drift is flagged as a percentage
+          </Label>
+        </div>
+        <div className="grid gap-1.5">
+          <Label htmlFor="sensor-type-dash">Line Style</Label>
+          <Select value={form.dashStyle} onValueChange={setField('dashStyle')}>
+            <SelectTrigger id="sensor-type-dash">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(DASH_STYLES).map(([dash, label]) => (
+                <SelectItem key={dash} value={dash}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="grid gap-1.5">
+          <Label htmlFor="sensor-type-icon">Icon</Label>
+          <Select value={form.icon} onValueChange={setField('icon')}>
+            <SelectTrigger id="sensor-type-icon">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SENSOR_TYPE_ICON_NAMES.map(icon => (
+                <SelectItem key={icon} value={icon}>
+                  <span className="flex items-center gap-2">
+                    <SensorTypeIcon icon={icon} className="h-4 w-4" />
+                    {icon}
+                  </span>
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Button
+          onClick={handleAdd}
+          disabled={!isValid}
+          variant="outline"
+          size="sm"
+          className="col-span-2"
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Add Sensor Type
+        </Button>
+      </div>
+
+      {config.customSensorTypes.length === 0 && (
+        <p className="text-xs text-muted-foreground">
+          Tags that aren't registered are shown with their raw name and no unit.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+import { Settings } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Separator } from '@/components/ui/separator';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { RelayListManager } from './RelayListManager';
+import { StationRelayListManager } from './StationRelayListManager';
+import { SensorTypeManager } from './SensorTypeManager';
+import { UnitPreferencesManager } from './UnitPreferencesManager';
+import { OutlierRulesManager } from './OutlierRulesManager';
+
+export function SettingsDialog() {
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon" aria-label="Settings">
+          <Settings className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[560px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Settings</DialogTitle>
+          <DialogDescription>
+            Choose where station data is read from and how sensor types, units and outliers are handled.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="relays">
+          <TabsList className="grid w-full grid-cols-4">
+            <TabsTrigger value="relays">Relays</TabsTrigger>
+            <TabsTrigger value="sensor-types">Sensor Types</TabsTrigger>
+            <TabsTrigger value="units">Units</TabsTrigger>
+            <TabsTrigger value="outliers">Outliers</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="relays" className="mt-4 space-y-6">
+            <div className="space-y-3">
+              <h3 className="text-sm font-semibold">Station Data Relays</h3>
+              <StationRelayListManager />
+            </div>
+
+            <Separator />
+
+            <div className="space-y-3">
+              <h3 className="text-sm font-semibold">Nostr Relays</h3>
+              <RelayListManager />
+            </div>
+          </TabsContent>
+
+          <TabsContent value="sensor-types" className="mt-4">
+            <SensorTypeManager />
+          </TabsContent>
+
+          <TabsContent value="units" className="mt-4">
+            <UnitPreferencesManager />
+          </TabsContent>
+
+          <TabsContent value="outliers" className="mt-4">
+            <OutlierRulesManager />
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
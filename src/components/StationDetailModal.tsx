@@ -3,49 +3,44 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
 import { CheckCircle } from 'lucide-react';
-import { useNostr } from '@nostrify/react';
+import { useMemo } from 'react';
 import { useQuery } from '@tanstack/react-query';
+import { useStationRelays } from '@/hooks/useStationRelays';
+import { getEventReadings } from '@/hooks/useSensorReadings';
+import { useSensorTypes } from '@/hooks/useSensorTypes';
+import { useUnits } from '@/hooks/useUnits';
+import { SensorTypeIcon } from './SensorTypeIcon';
+import { DriftReport, type DriftSensor } from './DriftReport';
+import { StationReliabilityPanel } from './StationReliabilityPanel';
+import { isNearby } from '@/lib/drift';
 import type { WeatherStation } from '@/hooks/useWeatherStations';
 import type { LatestSensorData } from '@/hooks/useAllLatestReadings';
 
 interface StationDetailModalProps {
   station: WeatherStation | null;
+  stations: WeatherStation[]; // All known stations, to find nearby peers for the drift report
   readings: LatestSensorData[];
   open: boolean;
   onOpenChange: (open: boolean) => void;
 }
 
-function getUnit(sensorType: string): string {
-  const units: Record<string, string> = {
-    temp: '°C',
-    humidity: '%',
-    pm1: 'µg/m³',
-    pm25: 'µg/m³',
-    pm10: 'µg/m³',
-    air_quality: 'raw',
-    pressure: 'hPa',
-    light: 'lux',
-    rain: 'raw',
-  };
-  return units[sensorType] || '';
-}
-
-export function StationDetailModal({ station, readings, open, onOpenChange }: StationDetailModalProps) {
-  const { nostr } = useNostr();
+export function StationDetailModal({ station, stations, readings, open, onOpenChange }: StationDetailModalProps) {
+  const { relays, pool } = useStationRelays();
+  const sensorTypes = useSensorTypes();
+  const units = useUnits();
 
   // Fetch recent readings for this station
   const { data: recentReadings = [] } = useQuery({
-    queryKey: ['station-recent-readings', station?.pubkey],
+    queryKey: ['station-recent-readings', relays.join(','), station?.pubkey],
     queryFn: async (c) => {
       if (!station) return [];
       
       const signal = AbortSignal.any([c.signal, AbortSignal.timeout(5000)]);
-      const relay = nostr.relay('wss://relay.samt.st');
       
       const now = Math.floor(Date.now() / 1000);
       const since = now - (24 * 60 * 60);
       
-      const events = await relay.query(
+      const events = await pool.query(
         [{
           kinds: [4223],
           authors: [station.pubkey],
@@ -62,6 +57,26 @@ export function StationDetailModal({ station, readings, open, onOpenChange }: St
     staleTime: 30 * 1000,
   });
 
+  // Drift report: this station's sensors, against its other models and nearby stations
+  const drift = useMemo(() => {
+    if (!station) return { targets: [], candidates: [] };
+
+    const toSensors = (s: WeatherStation, types?: string[]): DriftSensor[] => s.sensorModels.flatMap(model =>
+      model.types
+        .filter(type => !types || types.includes(type))
+        .map(type => ({
+          sensor: { pubkey: s.pubkey, sensorType: type, sensorModel: model.model },
+          name: s.pubkey === station.pubkey ? `${model.model} - ${type}` : `${s.name} - ${model.model}`,
+        }))
+    );
+
+    const targets = toSensors(station);
+    const types = targets.map(t => t.sensor.sensorType);
+    const nearby = stations.filter(s => s.pubkey !== station.pubkey && isNearby(station.geohash, s.geohash));
+
+    return { targets, candidates: [...targets, ...nearby.flatMap(s => toSensors(s, types))] };
+  }, [station, stations]);
+
   if (!station) return null;
 
   // Format timestamp
@@ -104,9 +119,11 @@ export function StationDetailModal({ station, readings, open, onOpenChange }: St
         </div>
 
         <Tabs defaultValue="latest" className="flex-1 flex flex-col min-h-0">
-          <TabsList className="grid w-full grid-cols-2 flex-shrink-0">
+          <TabsList className="grid w-full grid-cols-4 flex-shrink-0">
             <TabsTrigger value="latest">Latest</TabsTrigger>
             <TabsTrigger value="recent">Recent</TabsTrigger>
+            <TabsTrigger value="reliability">Reliability</TabsTrigger>
+            <TabsTrigger value="drift">Drift</TabsTrigger>
           </TabsList>
 
           <TabsContent value="latest" className="flex-1 overflow-y-auto mt-4 space-y-6">
@@ -134,7 +151,12 @@ export function StationDetailModal({ station, readings, open, onOpenChange }: St
 
                           return (
                             <TableRow key={type}>
-                              <TableCell className="font-medium">{type}</TableCell>
+                              <TableCell className="font-medium">
+                                <span className="flex items-center gap-1.5">
+                                  <SensorTypeIcon icon={sensorTypes.get(type).icon} className="h-3.5 w-3.5 text-muted-foreground" />
+                                  {type}
+                                </span>
+                              </TableCell>
                               <TableCell>
                                 {status === 'ok' ? (
                                   <Badge variant="outline" className="gap-1 text-xs text-green-700 border-green-300 bg-green-50 dark:text-green-400 dark:border-green-800 dark:bg-green-950">
@@ -152,8 +174,8 @@ export function StationDetailModal({ station, readings, open, onOpenChange }: St
                               <TableCell className="text-right font-semibold">
                                 {reading ? (
                                   <>
-                                    {reading.value.toFixed(1)}{' '}
-                                    <span className="text-xs font-normal text-muted-foreground">{reading.unit}</span>
+                                    {units.format(reading.value, type)}{' '}
+                                    <span className="text-xs font-normal text-muted-foreground">{units.unit(type)}</span>
                                   </>
                                 ) : (
                                   <span className="text-muted-foreground font-normal">—</span>
@@ -185,14 +207,7 @@ export function StationDetailModal({ station, readings, open, onOpenChange }: St
                 <TableBody>
                   {recentReadings.map((event, index) => {
                     // Extract all sensor readings from this event
-                    const standardTags = ['t', 'a', 'e', 'p', 'd', 'alt', 'content-warning', 'subject', 'client'];
-                    const sensorData = event.tags
-                      .filter(([tag, value, model]) => 
-                        !standardTags.includes(tag) && 
-                        value !== undefined && 
-                        model !== undefined &&
-                        !isNaN(parseFloat(value))
-                      );
+                    const sensorData = getEventReadings(event);
 
                     return (
                       <TableRow key={`${event.id}-${index}`}>
@@ -202,13 +217,12 @@ export function StationDetailModal({ station, readings, open, onOpenChange }: St
                         <TableCell className="py-3">
                           {sensorData.length > 0 ? (
                             <div className="flex flex-wrap gap-1.5">
-                              {sensorData.map(([tag, value], i) => {
-                                const numValue = parseFloat(value);
-                                const unit = getUnit(tag);
+                              {sensorData.map((reading, i) => {
+                                const unit = units.unit(reading.sensorType);
                                 return (
                                   <span key={i} className="inline-flex items-baseline gap-1 text-xs px-2 py-1 bg-muted/50 rounded">
-                                    <span className="text-muted-foreground">{tag}</span>
-                                    <span className="font-semibold">{numValue.toFixed(1)}</span>
+                                    <span className="text-muted-foreground">{reading.sensorType}</span>
+                                    <span className="font-semibold">{units.format(reading.value, reading.sensorType)}</span>
                                     {unit && <span className="text-muted-foreground text-[10px]">{unit}</span>}
                                   </span>
                                 );
@@ -232,6 +246,14 @@ export function StationDetailModal({ station, readings, open, onOpenChange }: St
               </Table>
             </div>
           </TabsContent>
+
+          <TabsContent value="reliability" className="flex-1 overflow-y-auto mt-4">
+            <StationReliabilityPanel pubkey={station.pubkey} />
+          </TabsContent>
+
+          <TabsContent value="drift" className="flex-1 overflow-y-auto mt-4">
+            <DriftReport targets={drift.targets} candidates={drift.candidates} />
+          </TabsContent>
         </Tabs>
       </DialogContent>
     </Dialog>
@@ -0,0 +1,173 @@
+import { useState, useEffect } from 'react';
+import { Plus, X, Database } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { useAppContext } from '@/hooks/useAppContext';
+import { useToast } from '@/hooks/useToast';
+
+/**
+ * Editor for the relays that weather station metadata and sensor readings are
+ * queried from. Unlike RelayListManager this list is local only and is never
+ * published as a NIP-65 relay list.
+ */
+export function StationRelayListManager() {
+  const { config, updateConfig } = useAppContext();
+  const { toast } = useToast();
+
+  const [relays, setRelays] = useState<string[]>(config.stationRelays);
+  const [newRelayUrl, setNewRelayUrl] = useState('');
+
+  // Sync local state with config when it changes (e.g., from another tab)
+  useEffect(() => {
+    setRelays(config.stationRelays);
+  }, [config.stationRelays]);
+
+  const normalizeRelayUrl = (url: string): string => {
+    url = url.trim();
+    try {
+      return new URL(url).toString();
+    } catch {
+      try {
+        return new URL(`wss://${url}`).toString();
+      } catch {
+        return url;
+      }
+    }
+  };
+
+  const isValidRelayUrl = (url: string): boolean => {
+    const trimmed = url.trim();
+    if (!trimmed) return false;
+
+    const normalized = normalizeRelayUrl(trimmed);
+    try {
+      new URL(normalized);
+      return true;
+    } catch {
+      return false;
+    }
+  };
+
+  const handleAddRelay = () => {
+    if (!isValidRelayUrl(newRelayUrl)) {
+      toast({
+        title: 'Invalid relay URL',
+        description: 'Please enter a valid relay URL (e.g., wss://relay.example.com)',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const normalized = normalizeRelayUrl(newRelayUrl);
+
+    if (relays.includes(normalized)) {
+      toast({
+        title: 'Relay already exists',
+        description: 'This relay is already in your station data relay list.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const newRelays = [...relays, normalized];
+    setRelays(newRelays);
+    setNewRelayUrl('');
+
+    saveRelays(newRelays);
+  };
+
+  const handleRemoveRelay = (url: string) => {
+    const newRelays = relays.filter(r => r !== url);
+    setRelays(newRelays);
+    saveRelays(newRelays);
+  };
+
+  const saveRelays = (newRelays: string[]) => {
+    updateConfig((current) => ({
+      ...current,
+      stationRelays: newRelays,
+    }));
+  };
+
+  const renderRelayUrl = (url: string): string => {
+    try {
+      const parsed = new URL(url);
+      if (parsed.protocol === 'wss:') {
+        if (parsed.pathname === '/') {
+          return parsed.host;
+        } else {
+          return parsed.host + parsed.pathname;
+        }
+      } else {
+        return parsed.href;
+      }
+    } catch {
+      return url;
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Relay List */}
+      <div className="space-y-2">
+        {relays.map((url) => (
+          <div
+            key={url}
+            className="flex items-center gap-3 p-3 rounded-md border bg-muted/20"
+          >
+            <Database className="h-4 w-4 text-muted-foreground shrink-0" />
+            <span className="font-mono text-sm flex-1 truncate" title={url}>
+              {renderRelayUrl(url)}
+            </span>
+
+            {/* Remove Button */}
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => handleRemoveRelay(url)}
+              className="size-5 text-muted-foreground hover:text-destructive hover:bg-transparent shrink-0"
+              disabled={relays.length <= 1}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      {/* Add Relay Form */}
+      <div className="flex gap-2">
+        <div className="flex-1">
+          <Label htmlFor="new-station-relay-url" className="sr-only">
+            Station Relay URL
+          </Label>
+          <Input
+            id="new-station-relay-url"
+            placeholder="Enter relay URL (e.g., wss://relay.example.com)"
+            value={newRelayUrl}
+            onChange={(e) => setNewRelayUrl(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                handleAddRelay();
+              }
+            }}
+          />
+        </div>
+        <Button
+          onClick={handleAddRelay}
+          disabled={!newRelayUrl.trim()}
+          variant="outline"
+          size="sm"
+          className="h-10 shrink-0"
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Add Relay
+        </Button>
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        Stations and readings are fetched from every relay in this list. It is stored locally and kept separate from your Nostr relay list.
+      </p>
+    </div>
+  );
+}
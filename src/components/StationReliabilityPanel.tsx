@@ -0,0 +1,71 @@
+import { useMemo, useState } from 'react';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useStationReliability } from '@/hooks/useStationReliability';
+import { RELIABILITY_PERIODS, formatDuration, type ReliabilityPeriod } from '@/lib/reliability';
+
+interface StationReliabilityPanelProps {
+  pubkey: string;
+}
+
+/**
+ * How regularly a station publishes, from the timestamps of its reading events
+ */
+export function StationReliabilityPanel({ pubkey }: StationReliabilityPanelProps) {
+  const [period, setPeriod] = useState<ReliabilityPeriod>('24h');
+
+  const { since, until } = useMemo(() => {
+    const now = Math.floor(Date.now() / 1000);
+    return { since: now - RELIABILITY_PERIODS[period].seconds, until: now };
+  }, [period]);
+
+  const { data, isLoading } = useStationReliability([pubkey], since, until);
+  const reliability = data?.[pubkey];
+
+  const metrics = reliability ? [
+    { label: 'Events', value: reliability.events.toLocaleString() },
+    { label: 'Publish Interval', value: reliability.interval !== null ? formatDuration(reliability.interval) : '—' },
+    { label: 'Missed Intervals', value: reliability.missedPercent !== null ? `${reliability.missedPercent.toFixed(1)}%` : '—' },
+    { label: 'Longest Outage', value: formatDuration(reliability.longestOutage) },
+    { label: 'Jitter', value: reliability.jitter !== null ? formatDuration(reliability.jitter) : '—' },
+    { label: 'Restarts', value: reliability.restarts.toString() },
+  ] : [];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-muted-foreground">
+          The interval is the typical gap between events; gaps over three intervals count as restarts.
+        </p>
+        <Tabs value={period} onValueChange={(value) => setPeriod(value as ReliabilityPeriod)}>
+          <TabsList>
+            {Object.entries(RELIABILITY_PERIODS).map(([value, { tab }]) => (
+              <TabsTrigger key={value} value={value}>{tab}</TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+      </div>
+
+      {isLoading ? (
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+          {Array.from({ length: 6 }, (_, i) => <Skeleton key={i} className="h-16 w-full" />)}
+        </div>
+      ) : reliability === null ? (
+        <div className="py-8 text-center text-muted-foreground">
+          Incomplete: some events couldn't be fetched for this period, so outages can't be told apart from missing data. Try again, or try a shorter period.
+        </div>
+      ) : !reliability ? (
+        <div className="py-8 text-center text-muted-foreground">Could not load this station's events</div>
+      ) : (
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+          {metrics.map(({ label, value }) => (
+            <div key={label} className="border rounded-lg p-3">
+              <div className="text-xs text-muted-foreground">{label}</div>
+              <div className="text-lg font-semibold">{value}</div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
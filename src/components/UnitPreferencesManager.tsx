@@ -0,0 +1,92 @@
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useAppContext } from '@/hooks/useAppContext';
+import { DEFAULT_UNIT_PREFERENCES, QUANTITIES, type Quantity, type UnitSystem } from '@/lib/units';
+
+const SYSTEMS: Record<UnitSystem, string> = {
+  metric: 'Metric (°C, hPa, m/s, mm)',
+  imperial: 'Imperial (°F, inHg, mph, in)',
+  custom: 'Custom',
+};
+
+/**
+ * Lets users pick the units readings are displayed in. Stored values are
+ * never changed, only how they are shown.
+ */
+export function UnitPreferencesManager() {
+  const { config, updateConfig } = useAppContext();
+  const preferences = config.unitPreferences;
+
+  const setSystem = (system: string) => {
+    updateConfig((current) => ({
+      ...current,
+      unitPreferences: { ...(current.unitPreferences ?? DEFAULT_UNIT_PREFERENCES), system: system as UnitSystem },
+    }));
+  };
+
+  const setCustomUnit = (quantity: Quantity) => (symbol: string) => {
+    updateConfig((current) => {
+      const existing = current.unitPreferences ?? DEFAULT_UNIT_PREFERENCES;
+      return {
+        ...current,
+        unitPreferences: { ...existing, custom: { ...existing.custom, [quantity]: symbol } },
+      };
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-1.5">
+        <Label htmlFor="unit-system">Unit System</Label>
+        <Select value={preferences.system} onValueChange={setSystem}>
+          <SelectTrigger id="unit-system">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(SYSTEMS).map(([system, label]) => (
+              <SelectItem key={system} value={system}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {preferences.system === 'custom' && (
+        <div className="grid grid-cols-2 gap-3 rounded-md border p-3">
+          {(Object.keys(QUANTITIES) as Quantity[]).map((quantity) => {
+            const definition = QUANTITIES[quantity];
+            return (
+              <div key={quantity} className="grid gap-1.5">
+                <Label htmlFor={`unit-${quantity}`}>{definition.label}</Label>
+                <Select
+                  value={preferences.custom[quantity] ?? definition.base}
+                  onValueChange={setCustomUnit(quantity)}
+                >
+                  <SelectTrigger id={`unit-${quantity}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {definition.units.map(unit => (
+                      <SelectItem key={unit.symbol} value={unit.symbol}>
+                        {unit.label} ({unit.symbol})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <p className="text-xs text-muted-foreground">
+        Sensor types are converted when their unit is one of °C, hPa, m/s or mm. Other units are shown as published.
+      </p>
+    </div>
+  );
+}
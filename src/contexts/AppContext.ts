@@ -1,4 +1,7 @@
 import { createContext } from "react";
+import type { SensorTypeDefinition } from "@/lib/sensorTypes";
+import type { UnitPreferences } from "@/lib/units";
+import type { OutlierRulesByType } from "@/lib/outlierFilter";
 
 export type Theme = "dark" | "light" | "system";
 
@@ -14,6 +17,18 @@ export interface AppConfig {
   theme: Theme;
   /** NIP-65 relay list metadata */
   relayMetadata: RelayMetadata;
+  /** Relays queried for weather station metadata and sensor readings (separate from NIP-65) */
+  stationRelays: string[];
+  /** Keep a subscription open and append new readings as they are published */
+  liveMode: boolean;
+  /** User-defined sensor types for tags that aren't built in */
+  customSensorTypes: SensorTypeDefinition[];
+  /** Units values are displayed in */
+  unitPreferences: UnitPreferences;
+  /** Outlier rules per sensor type; types without an entry use the defaults */
+  outlierRules: OutlierRulesByType;
+  /** Drift rate (% of the peers' level per 30 days) above which a sensor is flagged */
+  driftThreshold: number;
 }
 
 export interface AppContextType {
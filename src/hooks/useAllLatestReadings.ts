@@ -1,5 +1,6 @@
-import { useNostr } from '@nostrify/react';
 import { useQuery } from '@tanstack/react-query';
+import { useStationRelays } from '@/hooks/useStationRelays';
+import { getEventReadings } from '@/hooks/useSensorReadings';
 
 export interface LatestSensorData {
   pubkey: string;
@@ -7,25 +8,28 @@ export interface LatestSensorData {
   sensorModel: string;
   value: number;
   timestamp: number;
-  unit: string;
+}
+
+/**
+ * Query key of `useAllLatestReadings`, named like `sensorReadingsKey`
+ */
+export function allLatestReadingsKey(params: { relays: string; pubkeys: string[] }) {
+  return ['all-latest-readings', params] as const;
 }
 
 /**
  * Hook to fetch the latest readings for all stations in one query
  */
 export function useAllLatestReadings(pubkeys: string[]) {
-  const { nostr } = useNostr();
+  const { relays, pool } = useStationRelays();
 
   return useQuery({
-    queryKey: ['all-latest-readings', pubkeys.join(',')],
+    queryKey: allLatestReadingsKey({ relays: relays.join(','), pubkeys }),
     queryFn: async (c) => {
       const signal = AbortSignal.any([c.signal, AbortSignal.timeout(5000)]);
 
       if (pubkeys.length === 0) return [];
 
-      // Query only from relay.samt.st
-      const relay = nostr.relay('wss://relay.samt.st');
-
       const now = Math.floor(Date.now() / 1000);
       const since = now - (24 * 60 * 60); // Last 24 hours
 
@@ -33,7 +37,7 @@ export function useAllLatestReadings(pubkeys: string[]) {
       // (prevents one high-frequency station from filling the limit)
       const allEvents = await Promise.all(
         pubkeys.map(pubkey =>
-          relay.query(
+          pool.query(
             [{
               kinds: [4223],
               authors: [pubkey],
@@ -58,30 +62,17 @@ export function useAllLatestReadings(pubkeys: string[]) {
       const sortedEvents = events.sort((a, b) => b.created_at - a.created_at);
 
       for (const event of sortedEvents) {
-        // Get all tags that have 3 elements [tag, value, model] and the value is numeric
-        // Skip standard Nostr tags like 't', 'a', 'e', 'p', 'd'
-        const standardTags = ['t', 'a', 'e', 'p', 'd', 'alt', 'content-warning', 'subject', 'client'];
-
-        const sensorTags = event.tags.filter(([tag, value, model]) =>
-          !standardTags.includes(tag) && // Not a standard Nostr tag
-          value !== undefined && // Has a value
-          model !== undefined && // Has a model
-          !isNaN(parseFloat(value)) // Value is numeric
-        );
-
-        for (const [sensorType, value, model] of sensorTags) {
-          const key = `${event.pubkey}-${sensorType}-${model}`;
+        for (const reading of getEventReadings(event)) {
+          const key = `${event.pubkey}-${reading.sensorType}-${reading.model}`;
 
           // Only store if we haven't seen this exact sensor yet (keeps the latest)
           if (!seenKeys.has(key)) {
-            const numValue = parseFloat(value);
             allReadings.push({
               pubkey: event.pubkey,
-              sensorType,
-              sensorModel: model,
-              value: numValue,
-              timestamp: event.created_at,
-              unit: getUnit(sensorType),
+              sensorType: reading.sensorType,
+              sensorModel: reading.model,
+              value: reading.value,
+              timestamp: reading.timestamp,
             });
             seenKeys.add(key);
           }
@@ -94,18 +85,3 @@ export function useAllLatestReadings(pubkeys: string[]) {
     staleTime: 30 * 1000, // 30 seconds
   });
 }
-
-function getUnit(sensorType: string): string {
-  const units: Record<string, string> = {
-    temp: '°C',
-    humidity: '%',
-    pm1: 'µg/m³',
-    pm25: 'µg/m³',
-    pm10: 'µg/m³',
-    air_quality: 'raw',
-    pressure: 'hPa',
-    light: 'lux',
-    rain: 'raw',
-  };
-  return units[sensorType] || '';
-}
@@ -5,6 +5,7 @@ import {
   updateComparison,
   deleteComparison,
   addSensorToComparison,
+  updateSensorInComparison,
   removeSensorFromComparison,
   type Comparison,
   type SensorSelection,
@@ -54,6 +55,16 @@ export function useComparisons() {
     refresh();
   }, [refresh]);
 
+  // Update a sensor in a comparison
+  const updateSensor = useCallback((
+    comparisonId: string,
+    sensorId: string,
+    updates: Partial<Omit<SensorSelection, 'id'>>
+  ) => {
+    updateSensorInComparison(comparisonId, sensorId, updates);
+    refresh();
+  }, [refresh]);
+
   // Remove sensor from comparison
   const removeSensor = useCallback((comparisonId: string, sensorId: string) => {
     removeSensorFromComparison(comparisonId, sensorId);
@@ -66,6 +77,7 @@ export function useComparisons() {
     update,
     remove,
     addSensor,
+    updateSensor,
     removeSensor,
     refresh,
   };
@@ -1,33 +1,29 @@
-import { useNostr } from '@nostrify/react';
 import { useQuery } from '@tanstack/react-query';
-import type { NostrEvent } from '@nostrify/nostrify';
+import { useStationRelays } from '@/hooks/useStationRelays';
+import { getEventReadings } from '@/hooks/useSensorReadings';
 
 export interface LatestSensorData {
   sensorType: string;
   sensorModel: string;
   value: number;
   timestamp: number;
-  unit: string;
 }
 
 /**
  * Hook to fetch the latest readings for all sensors on a station
  */
 export function useLatestStationReadings(pubkey: string) {
-  const { nostr } = useNostr();
+  const { relays, pool } = useStationRelays();
   
   return useQuery({
-    queryKey: ['latest-station-readings', pubkey],
+    queryKey: ['latest-station-readings', relays.join(','), pubkey],
     queryFn: async (c) => {
       const signal = AbortSignal.any([c.signal, AbortSignal.timeout(5000)]);
       
-      // Query only from relay.samt.st
-      const relay = nostr.relay('wss://relay.samt.st');
-      
       const now = Math.floor(Date.now() / 1000);
       const since = now - (24 * 60 * 60); // Last 24 hours
       
-      const events = await relay.query(
+      const events = await pool.query(
         [{
           kinds: [4223],
           authors: [pubkey],
@@ -45,25 +41,17 @@ export function useLatestStationReadings(pubkey: string) {
       const sortedEvents = events.sort((a, b) => b.created_at - a.created_at);
       
       for (const event of sortedEvents) {
-        const sensorTags = event.tags.filter(([tag]) => 
-          ['temp', 'humidity', 'pm1', 'pm25', 'pm10', 'air_quality', 'pressure'].includes(tag)
-        );
-        
-        for (const [sensorType, value, model] of sensorTags) {
-          const key = `${sensorType}-${model}`;
+        for (const reading of getEventReadings(event)) {
+          const key = `${reading.sensorType}-${reading.model}`;
           
           // Only store if we haven't seen this sensor yet (keeps the latest)
-          if (!sensorMap.has(key) && value) {
-            const numValue = parseFloat(value);
-            if (!isNaN(numValue)) {
-              sensorMap.set(key, {
-                sensorType,
-                sensorModel: model || 'unknown',
-                value: numValue,
-                timestamp: event.created_at,
-                unit: getUnit(sensorType),
-              });
-            }
+          if (!sensorMap.has(key)) {
+            sensorMap.set(key, {
+              sensorType: reading.sensorType,
+              sensorModel: reading.model,
+              value: reading.value,
+              timestamp: reading.timestamp,
+            });
           }
         }
       }
@@ -73,16 +61,3 @@ export function useLatestStationReadings(pubkey: string) {
     staleTime: 30 * 1000, // 30 seconds
   });
 }
-
-function getUnit(sensorType: string): string {
-  const units: Record<string, string> = {
-    temp: '°C',
-    humidity: '%',
-    pm1: 'µg/m³',
-    pm25: 'µg/m³',
-    pm10: 'µg/m³',
-    air_quality: 'raw',
-    pressure: 'hPa',
-  };
-  return units[sensorType] || '';
-}
@@ -0,0 +1,175 @@
+import { useEffect } from 'react';
+import { useQueryClient, type QueryClient } from '@tanstack/react-query';
+import type { NostrEvent } from '@nostrify/nostrify';
+import { useStationRelays } from '@/hooks/useStationRelays';
+import {
+  getEventReadings,
+  multipleSensorReadingsKey,
+  sensorReadingsKey,
+  type SensorReading,
+  type SensorSeries,
+} from '@/hooks/useSensorReadings';
+import { allLatestReadingsKey, type LatestSensorData } from '@/hooks/useAllLatestReadings';
+import { writeReadingsToDB } from '@/lib/readingStore';
+
+/**
+ * Hook to keep a subscription open for new sensor readings (kind 4223)
+ * from the given stations. Incoming readings are appended into the cached
+ * results of the reading queries so charts, tables and station cards update
+ * without refetching the whole range, and saved to the IndexedDB cache so
+ * they are there when the queries do refetch.
+ */
+export function useLiveReadings(pubkeys: string[], enabled: boolean) {
+  const { pool } = useStationRelays();
+  const queryClient = useQueryClient();
+
+  // Stable dependency for the effect below
+  const authorsKey = [...new Set(pubkeys)].sort().join(',');
+
+  useEffect(() => {
+    if (!enabled || !authorsKey) return;
+
+    const controller = new AbortController();
+    const authors = authorsKey.split(',');
+
+    const subscribe = async () => {
+      try {
+        for await (const msg of pool.req(
+          [{ kinds: [4223], authors, '#t': ['weather'], since: Math.floor(Date.now() / 1000) }],
+          { signal: controller.signal }
+        )) {
+          if (msg[0] === 'EVENT') {
+            applyLiveEvent(queryClient, msg[2]);
+          }
+        }
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          console.error('Live readings subscription failed:', error);
+        }
+      }
+    };
+
+    subscribe();
+
+    return () => controller.abort();
+  }, [enabled, authorsKey, pool, queryClient]);
+}
+
+/**
+ * Merge a newly published reading event into every cached reading query
+ */
+function applyLiveEvent(queryClient: QueryClient, event: NostrEvent) {
+  const readings = getEventReadings(event);
+  if (readings.length === 0) return;
+
+  writeReadingsToDB(readings).catch(() => {
+    // Cache writes are best effort; the next sync fetches these again
+  });
+
+  const now = Math.floor(Date.now() / 1000);
+
+  // Comparison series
+  for (const [queryKey, data] of queryClient.getQueriesData<SensorSeries[]>({ queryKey: ['multiple-sensor-readings'] })) {
+    const [, { since, until, windowSeconds }] = queryKey as ReturnType<typeof multipleSensorReadingsKey>;
+    if (!data || hasWindowEnded(until, now)) continue;
+    const windowStart = getWindowStart(since, until, windowSeconds, now);
+
+    queryClient.setQueryData<SensorSeries[]>(queryKey, data.map(series => {
+      const matching = readings.filter(r =>
+        r.event.pubkey === series.sensor.pubkey &&
+        r.sensorType === series.sensor.sensorType &&
+        r.model === series.sensor.sensorModel
+      );
+      if (matching.length === 0) return series;
+
+      return { ...series, readings: appendReadings(series.readings, matching, windowStart) };
+    }));
+  }
+
+  // Single sensor series
+  for (const [queryKey, data] of queryClient.getQueriesData<SensorReading[]>({ queryKey: ['sensor-readings'] })) {
+    const [, { pubkey, sensorType, sensorModel, since, until, windowSeconds }] = queryKey as ReturnType<typeof sensorReadingsKey>;
+    if (!data || hasWindowEnded(until, now)) continue;
+    const matching = readings.filter(r =>
+      r.event.pubkey === pubkey &&
+      r.sensorType === sensorType &&
+      r.model === sensorModel
+    );
+    if (matching.length === 0) continue;
+
+    const windowStart = getWindowStart(since, until, windowSeconds, now);
+    queryClient.setQueryData<SensorReading[]>(queryKey, appendReadings(data, matching, windowStart));
+  }
+
+  // Latest value per sensor on the Stations page
+  for (const [queryKey, data] of queryClient.getQueriesData<LatestSensorData[]>({ queryKey: ['all-latest-readings'] })) {
+    const [, { pubkeys }] = queryKey as ReturnType<typeof allLatestReadingsKey>;
+    if (!data || !pubkeys.includes(event.pubkey)) continue;
+
+    const updated = [...data];
+    let changed = false;
+
+    for (const reading of readings) {
+      const index = updated.findIndex(latest =>
+        latest.pubkey === reading.event.pubkey &&
+        latest.sensorType === reading.sensorType &&
+        latest.sensorModel === reading.model
+      );
+      if (index !== -1 && updated[index].timestamp >= reading.timestamp) continue;
+
+      const latest: LatestSensorData = {
+        pubkey: reading.event.pubkey,
+        sensorType: reading.sensorType,
+        sensorModel: reading.model,
+        value: reading.value,
+        timestamp: reading.timestamp,
+      };
+
+      if (index === -1) {
+        updated.push(latest);
+      } else {
+        updated[index] = latest;
+      }
+      changed = true;
+    }
+
+    if (changed) {
+      queryClient.setQueryData<LatestSensorData[]>(queryKey, updated);
+    }
+  }
+}
+
+/**
+ * Start of the time range a reading query covers now. An open range with a
+ * length slides forward so it keeps ending now; without one it keeps growing.
+ */
+function getWindowStart(since: number, until: number | undefined, windowSeconds: number | undefined, now: number): number {
+  return !until && windowSeconds ? now - windowSeconds : since;
+}
+
+/**
+ * Whether a query covers a fixed window that is already over, so new
+ * readings fall outside it
+ */
+function hasWindowEnded(until: number | undefined, now: number): boolean {
+  return until !== undefined && until > 0 && until < now;
+}
+
+/**
+ * Append readings to a sorted series, skipping duplicates and dropping
+ * readings that have scrolled out of the time window
+ */
+function appendReadings(
+  existing: SensorReading[],
+  incoming: SensorReading[],
+  windowStart: number
+): SensorReading[] {
+  const fresh = incoming.filter(reading =>
+    !existing.some(r => r.event.id === reading.event.id && r.sensorType === reading.sensorType)
+  );
+  if (fresh.length === 0) return existing;
+
+  return [...existing, ...fresh]
+    .filter(reading => reading.timestamp >= windowStart)
+    .sort((a, b) => a.timestamp - b.timestamp);
+}
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import type { NostrEvent, NostrFilter, NPool } from '@nostrify/nostrify';
+import { fetchReadingEvents } from './useSensorReadings';
+
+function event(id: string, created_at: number): NostrEvent {
+  return { id, pubkey: 'a', created_at, kind: 4223, tags: [], content: '', sig: '' };
+}
+
+/** Relay that returns at most `cap` of its events per query, newest first */
+function cappedRelay(events: NostrEvent[], cap: number) {
+  return {
+    query: async ([filter]: NostrFilter[]) => events
+      .filter(e => e.created_at >= (filter.since ?? 0) && e.created_at <= (filter.until ?? Infinity))
+      .sort((a, b) => b.created_at - a.created_at)
+      .slice(0, cap),
+  };
+}
+
+/** Relay that never answers, rejecting once the request is aborted */
+const hangingRelay = {
+  query: (_filters: NostrFilter[], { signal }: { signal: AbortSignal }) => new Promise<NostrEvent[]>((_, reject) => {
+    signal.addEventListener('abort', () => reject(signal.reason));
+  }),
+};
+
+function pool(relays: Record<string, unknown>): NPool {
+  return { relay: (url: string) => relays[url] } as unknown as NPool;
+}
+
+describe('fetchReadingEvents', () => {
+  it('pages through relays that cap the limit, including events sharing a second', async () => {
+    const events = [event('1', 10), event('2', 20), event('3', 20), event('4', 30), event('5', 40)];
+    const result = await fetchReadingEvents(pool({ r: cappedRelay(events, 2) }), ['r'], ['a'], 0, 100, AbortSignal.timeout(1000));
+
+    expect(result.events.map(e => e.id).sort()).toEqual(['1', '2', '3', '4', '5']);
+    expect(result.incomplete).toBe(false);
+  });
+
+  it('keeps the events of healthy relays when another hangs', async () => {
+    const relays = { good: cappedRelay([event('1', 10), event('2', 20)], 100), slow: hangingRelay };
+    const result = await fetchReadingEvents(pool(relays), ['good', 'slow'], ['a'], 0, 100, AbortSignal.timeout(50));
+
+    expect(result.events.map(e => e.id).sort()).toEqual(['1', '2']);
+    expect(result.incomplete).toBe(true);
+  });
+});
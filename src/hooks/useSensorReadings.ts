@@ -1,6 +1,16 @@
-import { useNostr } from '@nostrify/react';
 import { useQuery } from '@tanstack/react-query';
-import type { NostrEvent } from '@nostrify/nostrify';
+import { useStationRelays } from '@/hooks/useStationRelays';
+import type { NostrEvent, NostrFilter, NPool } from '@nostrify/nostrify';
+import { parseReadingEvent } from '@/lib/weatherEvents';
+import { deriveReadings } from '@/lib/derived';
+import {
+  readReadingsFromDB,
+  writeReadingsToDB,
+  readSyncedRange,
+  writeSyncedRange,
+  planSync,
+  type SyncedRange,
+} from '@/lib/readingStore';
 
 export interface SensorReading {
   timestamp: number;
@@ -11,51 +21,43 @@ export interface SensorReading {
 }
 
 /**
- * Validates a sensor reading event (kind 4223)
+ * Parse the readings out of an event, followed by the quantities derived
+ * from them, or nothing if it isn't a valid reading event
  */
-function validateSensorReadingEvent(event: NostrEvent): boolean {
-  if (event.kind !== 4223) return false;
+export function getEventReadings(event: NostrEvent): SensorReading[] {
+  const { valid, readings } = parseReadingEvent(event);
+  return valid ? [...readings, ...deriveReadings(readings)] : [];
+}
 
-  // Must have the weather tag
-  const hasWeatherTag = event.tags.some(([tag, value]) => tag === 't' && value === 'weather');
-  if (!hasWeatherTag) return false;
+export interface SensorSeries {
+  sensor: { pubkey: string; sensorType: string; sensorModel: string };
+  readings: SensorReading[];
+}
 
-  return true;
+export interface UseSensorReadingsParams {
+  pubkey: string;
+  sensorType: string;
+  sensorModel: string;
+  since: number;
+  until?: number;
+  /** Length of an open-ended range, which live readings slide forward */
+  windowSeconds?: number;
 }
 
 /**
- * Parse sensor reading event into structured data
+ * Query key of `useSensorReadings`; live updates read the parameters back
+ * from it, so they are named rather than positional
  */
-function parseSensorReadings(event: NostrEvent): SensorReading[] {
-  const readings: SensorReading[] = [];
-
-  // Skip standard Nostr tags, process all other numeric tags as sensors
-  const standardTags = ['t', 'a', 'e', 'p', 'd', 'alt', 'content-warning', 'subject', 'client'];
-
-  for (const [tag, value, model] of event.tags) {
-    if (!standardTags.includes(tag) && value && model) {
-      const numValue = parseFloat(value);
-      if (!isNaN(numValue)) {
-        readings.push({
-          timestamp: event.created_at,
-          sensorType: tag,
-          value: numValue,
-          model: model,
-          event,
-        });
-      }
-    }
-  }
-
-  return readings;
-}
-
-export interface UseSensorReadingsParams {
+export function sensorReadingsKey(params: {
+  relays: string;
   pubkey: string;
   sensorType: string;
   sensorModel: string;
   since: number;
   until?: number;
+  windowSeconds?: number;
+}) {
+  return ['sensor-readings', params] as const;
 }
 
 /**
@@ -67,18 +69,16 @@ export function useSensorReadings({
   sensorModel,
   since,
   until,
+  windowSeconds,
 }: UseSensorReadingsParams) {
-  const { nostr } = useNostr();
+  const { relays, pool } = useStationRelays();
 
   return useQuery({
-    queryKey: ['sensor-readings', pubkey, sensorType, sensorModel, since, until],
+    queryKey: sensorReadingsKey({ relays: relays.join(','), pubkey, sensorType, sensorModel, since, until, windowSeconds }),
     queryFn: async (c) => {
       const signal = AbortSignal.any([c.signal, AbortSignal.timeout(10000)]);
 
-      // Query only from relay.samt.st
-      const relay = nostr.relay('wss://relay.samt.st');
-
-      const filter: Record<string, unknown> = {
+      const filter: NostrFilter = {
         kinds: [4223],
         authors: [pubkey],
         '#t': ['weather'],
@@ -89,12 +89,11 @@ export function useSensorReadings({
         filter.until = until;
       }
 
-      const events = await relay.query([filter], { signal });
+      const events = await pool.query([filter], { signal });
 
       // Filter valid events and parse readings
       const allReadings = events
-        .filter(validateSensorReadingEvent)
-        .flatMap(parseSensorReadings)
+        .flatMap(getEventReadings)
         .filter(reading =>
           reading.sensorType === sensorType &&
           reading.model === sensorModel
@@ -108,104 +107,208 @@ export function useSensorReadings({
   });
 }
 
+/** Maximum number of events requested per page when paginating a time range */
+const PAGE_SIZE = 500;
+
+/** Safety cap on the number of pages fetched for a single time range (90 days of per-minute readings fit) */
+const MAX_PAGES = 400;
+
+/** Time allowed for fetching each day of a range, so long first syncs aren't cut short */
+export const FETCH_TIMEOUT_PER_DAY_MS = 5000;
+
+export interface FetchedEvents {
+  events: NostrEvent[];
+  /** A relay failed, timed out or hit `MAX_PAGES`, so part of the range may be missing */
+  incomplete: boolean;
+}
+
+/**
+ * Fetch every reading event in a time range by paginating backwards on
+ * `until`, separately on each relay since their pages don't line up
+ *
+ * A relay that fails or times out doesn't fail the fetch; the events from
+ * the other relays are kept and the result is marked incomplete.
+ */
+export async function fetchReadingEvents(
+  pool: NPool,
+  relays: string[],
+  authors: string[],
+  since: number,
+  until: number,
+  signal: AbortSignal
+): Promise<FetchedEvents> {
+  const eventsById = new Map<string, NostrEvent>();
+  let incomplete = false;
+
+  await Promise.all(relays.map(async (url) => {
+    const relay = pool.relay(url);
+    let cursor = until;
+    let page = 0;
+
+    try {
+      for (; page < MAX_PAGES && cursor >= since; page++) {
+        const filter: NostrFilter = {
+          kinds: [4223],
+          authors,
+          '#t': ['weather'],
+          since,
+          until: cursor,
+          limit: PAGE_SIZE,
+        };
+
+        // Relays may cap `limit` below PAGE_SIZE, so only an empty page ends the range
+        const events = await relay.query([filter], { signal });
+        if (events.length === 0) return;
+        events.forEach(event => eventsById.set(event.id, event));
+
+        // `until` is inclusive, so the next page repeats the oldest second on this
+        // one and the map dedupes it; that way events sharing the boundary second
+        // aren't skipped. Once the cursor stops moving, step past that second.
+        const oldest = Math.min(...events.map(event => event.created_at));
+        cursor = oldest < cursor ? oldest : oldest - 1;
+      }
+
+      if (page === MAX_PAGES && cursor >= since) incomplete = true;
+    } catch {
+      incomplete = true;
+    }
+  }));
+
+  return { events: [...eventsById.values()], incomplete };
+}
+
+export interface StationSync {
+  /** Readings fetched from relays in this run */
+  fetched: SensorReading[];
+  /** False if IndexedDB couldn't be read, so only `fetched` is available */
+  cacheAvailable: boolean;
+  /** Some of the range couldn't be fetched, so the cache has gaps in it */
+  incomplete: boolean;
+}
+
+/**
+ * Fetch the parts of a range not yet in the IndexedDB cache for a station
+ * and cache them
+ */
+export async function syncStationReadings(
+  pool: NPool,
+  relays: string[],
+  pubkey: string,
+  since: number,
+  until: number,
+  signal: AbortSignal
+): Promise<StationSync> {
+  let synced: SyncedRange | undefined;
+  let cacheAvailable = true;
+  try {
+    synced = await readSyncedRange(pubkey, relays);
+  } catch {
+    cacheAvailable = false;
+  }
+
+  const { missing, next } = planSync(synced, since, until);
+  const fetched: SensorReading[] = [];
+  let incomplete = false;
+
+  for (const range of missing) {
+    const result = await fetchReadingEvents(pool, relays, [pubkey], range.since, range.until, signal);
+    fetched.push(...result.events.flatMap(getEventReadings));
+    incomplete ||= result.incomplete;
+  }
+
+  // An incomplete fetch has gaps, so cache what arrived but don't mark it as synced
+  if (cacheAvailable) {
+    try {
+      await writeReadingsToDB(fetched);
+      if (!incomplete) await writeSyncedRange(pubkey, relays, next);
+    } catch {
+      // Cache writes are best effort; this run still has the fetched readings
+    }
+  }
+
+  return { fetched, cacheAvailable, incomplete };
+}
+
+/**
+ * Read one sensor's readings in a range from the cache, merged with those
+ * fetched by a sync of its station, sorted by timestamp
+ */
+export async function readSensorReadings(
+  sensor: SensorSeries['sensor'],
+  since: number,
+  until: number,
+  sync: StationSync
+): Promise<SensorReading[]> {
+  const series = new Map<string, SensorReading>();
+
+  if (sync.cacheAvailable) {
+    try {
+      const cached = await readReadingsFromDB(sensor.pubkey, sensor.sensorType, sensor.sensorModel, since, until);
+      cached.forEach(reading => series.set(`${reading.event.id}-${reading.timestamp}`, reading));
+    } catch {
+      // Fall back to what was fetched in this run
+    }
+  }
+
+  sync.fetched
+    .filter(reading =>
+      reading.sensorType === sensor.sensorType &&
+      reading.model === sensor.sensorModel &&
+      reading.timestamp >= since &&
+      reading.timestamp <= until
+    )
+    .forEach(reading => series.set(`${reading.event.id}-${reading.timestamp}`, reading));
+
+  return [...series.values()].sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Query key of `useMultipleSensorReadings`, named like `sensorReadingsKey`
+ */
+export function multipleSensorReadingsKey(params: {
+  relays: string;
+  sensors: Array<SensorSeries['sensor']>;
+  since: number;
+  until?: number;
+  windowSeconds?: number;
+}) {
+  return ['multiple-sensor-readings', params] as const;
+}
+
 /**
  * Hook to fetch multiple sensor readings for comparison
+ *
+ * Readings are cached in IndexedDB, so relays are only asked for the parts of
+ * the range that haven't been fetched before. Series are returned at full
+ * resolution; charts resample them onto their own grid.
+ * @param windowSeconds - Length of an open-ended range, which live readings slide forward
  */
 export function useMultipleSensorReadings(
   sensors: Array<{ pubkey: string; sensorType: string; sensorModel: string }>,
   since: number,
-  until?: number
+  until?: number,
+  windowSeconds?: number
 ) {
-  const { nostr } = useNostr();
+  const { relays, pool } = useStationRelays();
 
   return useQuery({
-    queryKey: ['multiple-sensor-readings', JSON.stringify(sensors), since, until],
+    queryKey: multipleSensorReadingsKey({ relays: relays.join(','), sensors, since, until, windowSeconds }),
     queryFn: async (c) => {
-      const signal = AbortSignal.any([c.signal, AbortSignal.timeout(60000)]);
-
-      // Query only from relay.samt.st
-      const relay = nostr.relay('wss://relay.samt.st');
+      const end = until || Math.floor(Date.now() / 1000);
+      const timeout = Math.max(60000, ((end - since) / 86400) * FETCH_TIMEOUT_PER_DAY_MS);
+      const signal = AbortSignal.any([c.signal, AbortSignal.timeout(timeout)]);
 
       // Get unique pubkeys
       const pubkeys = [...new Set(sensors.map(s => s.pubkey))];
 
-      const endTime = until || Math.floor(Date.now() / 1000);
-      const timeRangeHours = (endTime - since) / 3600;
-
-      console.log('Time range:', timeRangeHours, 'hours');
-
-      // Sample one reading per interval to get full time range
-      // 24h view: 5-minute intervals (288 samples)
-      // 1h view: 30-second intervals (120 samples)
-      const intervalSeconds = timeRangeHours > 2 ? 5 * 60 : 30;
-
-      // Build time windows
-      const timeWindows = [];
-      for (let timestamp = since; timestamp < endTime; timestamp += intervalSeconds) {
-        const windowEnd = Math.min(timestamp + intervalSeconds, endTime);
-        timeWindows.push({ start: timestamp, end: windowEnd });
-      }
-
-      console.log(`Fetching ${timeWindows.length} intervals...`);
-
-      // Query all windows in parallel (batch of 20 at a time to avoid overwhelming)
-      const batchSize = 20;
-      const sampledReadings: SensorReading[] = [];
-
-      for (let i = 0; i < timeWindows.length; i += batchSize) {
-        const batch = timeWindows.slice(i, i + batchSize);
-
-        const batchPromises = batch.map(window => {
-          const filter: Record<string, unknown> = {
-            kinds: [4223],
-            authors: pubkeys,
-            '#t': ['weather'],
-            since: window.start,
-            until: window.end,
-            limit: 10,
-          };
-          return relay.query([filter], { signal });
-        });
-
-        const batchResults = await Promise.all(batchPromises);
-
-        // Process each window's results
-        batchResults.forEach(windowEvents => {
-          const windowReadings = windowEvents
-            .filter(validateSensorReadingEvent)
-            .flatMap(parseSensorReadings);
-
-          // Take one reading per sensor from this window
-          sensors.forEach(sensor => {
-            const reading = windowReadings.find(r =>
-              r.event.pubkey === sensor.pubkey &&
-              r.sensorType === sensor.sensorType &&
-              r.model === sensor.sensorModel
-            );
-            if (reading) {
-              sampledReadings.push(reading);
-            }
-          });
-        });
-
-        console.log(`Batch ${i / batchSize + 1}/${Math.ceil(timeWindows.length / batchSize)}: ${sampledReadings.length} readings`);
-      }
-
-      console.log(`Completed ${timeWindows.length} interval queries, collected ${sampledReadings.length} readings`);
+      const syncs = new Map(await Promise.all(pubkeys.map(async (pubkey) =>
+        [pubkey, await syncStationReadings(pool, relays, pubkey, since, end, signal)] as const
+      )));
 
-      // Group readings by sensor
-      const grouped = sensors.map(sensor => ({
+      return Promise.all(sensors.map(async (sensor): Promise<SensorSeries> => ({
         sensor,
-        readings: sampledReadings
-          .filter(reading =>
-            reading.event.pubkey === sensor.pubkey &&
-            reading.sensorType === sensor.sensorType &&
-            reading.model === sensor.sensorModel
-          )
-          .sort((a, b) => a.timestamp - b.timestamp),
-      }));
-
-      return grouped;
+        readings: await readSensorReadings(sensor, since, end, syncs.get(sensor.pubkey)!),
+      })));
     },
     enabled: sensors.length > 0,
     staleTime: 30 * 1000, // 30 seconds
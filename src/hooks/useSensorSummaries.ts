@@ -0,0 +1,53 @@
+import { useQuery } from '@tanstack/react-query';
+import { useStationRelays } from '@/hooks/useStationRelays';
+import {
+  FETCH_TIMEOUT_PER_DAY_MS,
+  readSensorReadings,
+  syncStationReadings,
+  type SensorSeries,
+} from '@/hooks/useSensorReadings';
+import { summarizeSensor, type SensorSummary } from '@/lib/leaderboard';
+
+/**
+ * Hook to summarize many sensors for ranking
+ *
+ * Like `useMultipleSensorReadings` this goes through the IndexedDB cache, but
+ * each sensor's full-resolution readings are reduced to bucketed points as
+ * soon as they are read, so only the summaries stay in memory.
+ */
+export function useSensorSummaries(
+  sensors: Array<SensorSeries['sensor']>,
+  since: number,
+  until: number,
+  bucketSeconds: number
+) {
+  const { relays, pool } = useStationRelays();
+
+  return useQuery({
+    queryKey: ['sensor-summaries', relays.join(','), JSON.stringify(sensors), since, until, bucketSeconds],
+    queryFn: async (c) => {
+      const timeout = Math.max(60000, ((until - since) / 86400) * FETCH_TIMEOUT_PER_DAY_MS);
+      const signal = AbortSignal.any([c.signal, AbortSignal.timeout(timeout)]);
+
+      const pubkeys = [...new Set(sensors.map(s => s.pubkey))];
+
+      // Summarize each station as soon as it is synced, so its fetched readings can be released
+      const byStation = await Promise.all(pubkeys.map(async (pubkey) => {
+        const sync = await syncStationReadings(pool, relays, pubkey, since, until, signal);
+        const summaries: SensorSummary[] = [];
+
+        for (const sensor of sensors.filter(s => s.pubkey === pubkey)) {
+          const readings = await readSensorReadings(sensor, since, until, sync);
+          summaries.push(summarizeSensor({ sensor, readings }, since, until, bucketSeconds));
+        }
+
+        return summaries;
+      }));
+
+      return byStation.flat();
+    },
+    enabled: sensors.length > 0,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    retry: false,
+  });
+}
@@ -0,0 +1,13 @@
+import { useMemo } from 'react';
+import { useAppContext } from '@/hooks/useAppContext';
+import { createSensorTypeRegistry, type SensorTypeRegistry } from '@/lib/sensorTypes';
+
+/**
+ * Hook to access the sensor type registry, including user-defined types
+ */
+export function useSensorTypes(): SensorTypeRegistry {
+  const { config } = useAppContext();
+  const customTypes = config.customSensorTypes;
+
+  return useMemo(() => createSensorTypeRegistry(customTypes), [customTypes]);
+}
@@ -0,0 +1,18 @@
+import { useMemo } from 'react';
+import { useNostr } from '@nostrify/react';
+import { useAppContext } from '@/hooks/useAppContext';
+
+/**
+ * Hook to access the configured station data relays
+ * @returns The relay URLs and a pool that fans queries out to all of them,
+ * deduplicating events by id. Connections are shared with the main pool.
+ */
+export function useStationRelays() {
+  const { nostr } = useNostr();
+  const { config } = useAppContext();
+  const relays = config.stationRelays;
+
+  const pool = useMemo(() => nostr.group(relays), [nostr, relays]);
+
+  return { relays, pool };
+}
@@ -0,0 +1,45 @@
+import { useQuery } from '@tanstack/react-query';
+import { useStationRelays } from '@/hooks/useStationRelays';
+import { FETCH_TIMEOUT_PER_DAY_MS, syncStationReadings } from '@/hooks/useSensorReadings';
+import { readStationTimestampsFromDB } from '@/lib/readingStore';
+import { computeReliability, type StationReliability } from '@/lib/reliability';
+
+/**
+ * Hook to compute the reporting reliability of stations over a period
+ *
+ * Events come from the IndexedDB reading cache, which is topped up from
+ * relays like the comparison charts are.
+ * @returns Reliability by station pubkey, or null for stations whose events
+ *   couldn't all be fetched, since the gaps would count as outages
+ */
+export function useStationReliability(pubkeys: string[], since: number, until: number, enabled = true) {
+  const { relays, pool } = useStationRelays();
+
+  return useQuery({
+    queryKey: ['station-reliability', relays.join(','), pubkeys.join(','), since, until],
+    queryFn: async (c) => {
+      const timeout = Math.max(60000, ((until - since) / 86400) * FETCH_TIMEOUT_PER_DAY_MS);
+      const signal = AbortSignal.any([c.signal, AbortSignal.timeout(timeout)]);
+
+      const entries = await Promise.all(pubkeys.map(async (pubkey) => {
+        const sync = await syncStationReadings(pool, relays, pubkey, since, until, signal);
+        if (sync.incomplete) return [pubkey, null] as const;
+
+        let timestamps = sync.fetched.map(reading => reading.timestamp);
+        if (sync.cacheAvailable) {
+          try {
+            timestamps = [...timestamps, ...await readStationTimestampsFromDB(pubkey, since, until)];
+          } catch {
+            return [pubkey, null] as const;
+          }
+        }
+
+        return [pubkey, computeReliability(timestamps, since, until)] as const;
+      }));
+
+      return Object.fromEntries(entries) as Record<string, StationReliability | null>;
+    },
+    enabled: enabled && pubkeys.length > 0,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+}
@@ -0,0 +1,45 @@
+import { useMemo } from 'react';
+import { useAppContext } from '@/hooks/useAppContext';
+import { useSensorTypes } from '@/hooks/useSensorTypes';
+import { getFormulaResultType } from '@/lib/formula';
+import { createUnitConverter, type UnitConverter } from '@/lib/units';
+
+/** Leaves values in their base unit */
+const BASE_UNITS: UnitConverter = {
+  unit: (baseUnit) => baseUnit,
+  convert: (value) => value,
+  convertDelta: (delta) => delta,
+  precision: () => undefined,
+};
+
+/**
+ * Hook to convert and format sensor values in the user's preferred units
+ */
+export function useUnits() {
+  const { config } = useAppContext();
+  const sensorTypes = useSensorTypes();
+  const preferences = config.unitPreferences;
+
+  return useMemo(() => {
+    const preferred = createUnitConverter(preferences);
+    // A formula may be a difference or a ratio, so converting it as a value could be wrong (e.g. the °F offset)
+    const converter = (type: string) => getFormulaResultType(type) === undefined ? preferred : BASE_UNITS;
+    const baseUnit = (type: string) => sensorTypes.get(type).unit;
+    const precision = (type: string) => converter(type).precision(baseUnit(type)) ?? sensorTypes.get(type).precision;
+
+    return {
+      /** Display unit for a sensor type */
+      unit: (type: string) => converter(type).unit(baseUnit(type)),
+      /** Decimal places values of a sensor type are shown with in the display unit */
+      precision,
+      /** Convert a stored value to the display unit */
+      convert: (value: number, type: string) => converter(type).convert(value, baseUnit(type)),
+      /** Convert a difference between stored values to the display unit */
+      convertDelta: (delta: number, type: string) => converter(type).convertDelta(delta, baseUnit(type)),
+      /** Convert a stored value and format it with the type's precision */
+      format: (value: number, type: string) => converter(type).convert(value, baseUnit(type)).toFixed(precision(type)),
+      /** Format a value that is already in the display unit */
+      formatConverted: (value: number, type: string) => value.toFixed(precision(type)),
+    };
+  }, [preferences, sensorTypes]);
+}
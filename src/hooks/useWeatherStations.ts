@@ -1,6 +1,7 @@
-import { useNostr } from '@nostrify/react';
 import { useQuery } from '@tanstack/react-query';
+import { useStationRelays } from '@/hooks/useStationRelays';
 import type { NostrEvent } from '@nostrify/nostrify';
+import { parseStationEvent } from '@/lib/weatherEvents';
 
 export interface SensorModel {
   model: string;
@@ -19,99 +20,26 @@ export interface WeatherStation {
   event: NostrEvent;
 }
 
-/**
- * Validates a weather station metadata event (kind 16158)
- */
-function validateWeatherStationEvent(event: NostrEvent): boolean {
-  if (event.kind !== 16158) return false;
-
-  // Must have at least one sensor tag
-  const sensorTags = event.tags.filter(([name]) => name === 'sensor');
-  if (sensorTags.length === 0) return false;
-
-  return true;
-}
-
-/**
- * Parse weather station metadata event into structured data
- */
-function parseWeatherStation(event: NostrEvent): WeatherStation {
-  const name = event.tags.find(([tag]) => tag === 'name')?.[1] || 'Unknown Station';
-  const description = event.tags.find(([tag]) => tag === 'description')?.[1];
-  const geohash = event.tags.find(([tag]) => tag === 'g')?.[1];
-  const power = event.tags.find(([tag]) => tag === 'power')?.[1];
-  const connectivity = event.tags.find(([tag]) => tag === 'connectivity')?.[1];
-
-  // Group sensor types by model
-  const sensorsByModel = new Map<string, Set<string>>();
-  const sensorStatuses = new Map<string, Record<string, string>>();
-
-  event.tags
-    .filter(([tag]) => tag === 'sensor')
-    .forEach(([, type, model]) => {
-      const modelName = model || 'unknown';
-      const sensorType = type || 'unknown';
-
-      if (!sensorsByModel.has(modelName)) {
-        sensorsByModel.set(modelName, new Set());
-        sensorStatuses.set(modelName, {});
-      }
-      sensorsByModel.get(modelName)!.add(sensorType);
-    });
-
-  // Parse sensor_status tags
-  event.tags
-    .filter(([tag]) => tag === 'sensor_status')
-    .forEach(([, type, model, status]) => {
-      const modelName = model || 'unknown';
-      const sensorType = type || 'unknown';
-      
-      if (sensorStatuses.has(modelName)) {
-        sensorStatuses.get(modelName)![sensorType] = status || 'unknown';
-      }
-    });
-
-  const sensorModels: SensorModel[] = Array.from(sensorsByModel.entries()).map(([model, types]) => ({
-    model,
-    types: Array.from(types),
-    statuses: sensorStatuses.get(model) || {},
-  }));
-
-  return {
-    pubkey: event.pubkey,
-    name,
-    description,
-    geohash,
-    power,
-    connectivity,
-    sensorModels,
-    event,
-  };
-}
-
 /**
  * Hook to fetch all weather stations (kind 16158)
  */
 export function useWeatherStations() {
-  const { nostr } = useNostr();
+  const { relays, pool } = useStationRelays();
 
   return useQuery({
-    queryKey: ['weather-stations'],
+    queryKey: ['weather-stations', relays.join(',')],
     queryFn: async (c) => {
       const signal = AbortSignal.any([c.signal, AbortSignal.timeout(5000)]);
 
-      // Query only from relay.samt.st
-      const relay = nostr.relay('wss://relay.samt.st');
-
-      const events = await relay.query(
+      const events = await pool.query(
         [{ kinds: [16158], limit: 100 }],
         { signal }
       );
 
-      // Filter and parse valid station events
+      // Parse station events, dropping invalid ones
       return events
-        .filter(validateWeatherStationEvent)
-        .map(parseWeatherStation);
+        .map(event => parseStationEvent(event).station)
+        .filter((station): station is WeatherStation => station !== null);
     },
     staleTime: 5 * 60 * 1000, // 5 minutes
   });
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import {
+  alignPoints,
+  computeAgreement,
+  computeBlandAltman,
+  computePairwiseAgreement,
+  fitRegressionLine,
+} from './agreement';
+
+function points(values: Array<[number, number]>) {
+  return values.map(([timestamp, value]) => ({ timestamp, value, min: value, max: value, count: 1 }));
+}
+
+function series(pubkey: string, sensorType: string, values: Array<[number, number]>) {
+  return { sensor: { pubkey, sensorType, sensorModel: 'BME280' }, points: points(values) };
+}
+
+describe('alignPoints', () => {
+  it('pairs values from matching buckets only', () => {
+    const a = points([[0, 1], [60, 2], [120, 3]]);
+    const b = points([[60, 20], [120, 30], [180, 40]]);
+
+    expect(alignPoints(a, b)).toEqual([[2, 20], [3, 30]]);
+  });
+});
+
+describe('computeAgreement', () => {
+  it('returns null without overlap', () => {
+    expect(computeAgreement([])).toBeNull();
+  });
+
+  it('measures a constant offset', () => {
+    const stats = computeAgreement([[1, 2], [2, 3], [3, 4]])!;
+
+    expect(stats.count).toBe(3);
+    expect(stats.bias).toBe(1);
+    expect(stats.mae).toBe(1);
+    expect(stats.rmse).toBe(1);
+    expect(stats.r).toBeCloseTo(1);
+    expect(stats.r2).toBeCloseTo(1);
+  });
+
+  it('keeps the sign of the bias and penalises large errors in RMSE', () => {
+    const stats = computeAgreement([[10, 9], [10, 9], [10, 6]])!;
+
+    expect(stats.bias).toBe(-2);
+    expect(stats.mae).toBe(2);
+    expect(stats.rmse).toBeCloseTo(Math.sqrt(6));
+  });
+
+  it('leaves correlation undefined for a constant series', () => {
+    const stats = computeAgreement([[5, 1], [5, 2], [5, 3]])!;
+
+    expect(stats.r).toBeNull();
+    expect(stats.r2).toBeNull();
+  });
+});
+
+describe('computePairwiseAgreement', () => {
+  it('only compares series of the same type', () => {
+    const results = computePairwiseAgreement([
+      series('a', 'temp', [[0, 20]]),
+      series('b', 'temp', [[0, 21]]),
+      series('a', 'humidity', [[0, 50]]),
+    ]);
+
+    expect(results).toHaveLength(1);
+    expect(results[0]).toMatchObject({ sensorType: 'temp', a: 'a-temp-BME280', b: 'b-temp-BME280' });
+  });
+});
+
+describe('fitRegressionLine', () => {
+  it('fits b on a', () => {
+    expect(fitRegressionLine([[0, 1], [1, 3], [2, 5]])).toEqual({ slope: 2, intercept: 1 });
+  });
+
+  it('returns null when a is constant', () => {
+    expect(fitRegressionLine([[1, 1], [1, 2]])).toBeNull();
+  });
+});
+
+describe('computeBlandAltman', () => {
+  it('computes bias and limits of agreement', () => {
+    const result = computeBlandAltman([[10, 11], [20, 23], [30, 32]])!;
+
+    expect(result.points[0]).toEqual({ mean: 10.5, difference: 1 });
+    expect(result.bias).toBe(2);
+    expect(result.sd).toBe(1);
+    expect(result.lower).toBeCloseTo(0.04);
+    expect(result.upper).toBeCloseTo(3.96);
+  });
+});
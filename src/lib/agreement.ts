@@ -0,0 +1,181 @@
+/**
+ * Agreement statistics between pairs of sensors
+ */
+
+import type { ResampledPoint, ResampledSeries } from '@/lib/resample';
+
+export interface AgreementStats {
+  /** Number of buckets where both sensors have a value */
+  count: number;
+  /** Mean of (b - a) */
+  bias: number;
+  /** Mean absolute error */
+  mae: number;
+  /** Root mean square error */
+  rmse: number;
+  /** Pearson correlation, or null when either series is constant */
+  r: number | null;
+  /** Coefficient of determination (r²) */
+  r2: number | null;
+}
+
+export interface PairwiseAgreement {
+  sensorType: string;
+  /** Sensor key of the first series */
+  a: string;
+  /** Sensor key of the second series */
+  b: string;
+  /** Null when the two series don't overlap */
+  stats: AgreementStats | null;
+}
+
+/**
+ * Build a sensor key in the format used across the comparison view
+ */
+export function getSensorKey(sensor: ResampledSeries['sensor']): string {
+  return `${sensor.pubkey}-${sensor.sensorType}-${sensor.sensorModel}`;
+}
+
+/**
+ * Pair up the values of two series that fall in the same bucket
+ * @returns [a, b] value pairs in timestamp order
+ */
+export function alignPoints(a: ResampledPoint[], b: ResampledPoint[]): Array<[number, number]> {
+  const bByTimestamp = new Map(b.map(point => [point.timestamp, point.value]));
+  const pairs: Array<[number, number]> = [];
+
+  for (const point of a) {
+    const other = bByTimestamp.get(point.timestamp);
+    if (other !== undefined) {
+      pairs.push([point.value, other]);
+    }
+  }
+
+  return pairs;
+}
+
+/**
+ * Compute agreement statistics for aligned value pairs
+ * @returns Null when there are no pairs
+ */
+export function computeAgreement(pairs: Array<[number, number]>): AgreementStats | null {
+  const n = pairs.length;
+  if (n === 0) return null;
+
+  let sumA = 0, sumB = 0, sumDiff = 0, sumAbs = 0, sumSq = 0;
+  for (const [a, b] of pairs) {
+    const diff = b - a;
+    sumA += a;
+    sumB += b;
+    sumDiff += diff;
+    sumAbs += Math.abs(diff);
+    sumSq += diff * diff;
+  }
+
+  const meanA = sumA / n;
+  const meanB = sumB / n;
+
+  let covariance = 0, varianceA = 0, varianceB = 0;
+  for (const [a, b] of pairs) {
+    covariance += (a - meanA) * (b - meanB);
+    varianceA += (a - meanA) ** 2;
+    varianceB += (b - meanB) ** 2;
+  }
+
+  const r = varianceA > 0 && varianceB > 0
+    ? covariance / Math.sqrt(varianceA * varianceB)
+    : null;
+
+  return {
+    count: n,
+    bias: sumDiff / n,
+    mae: sumAbs / n,
+    rmse: Math.sqrt(sumSq / n),
+    r,
+    r2: r === null ? null : r * r,
+  };
+}
+
+/**
+ * List every pair of series that measure the same type
+ */
+export function listSameTypePairs<T extends Pick<ResampledSeries, 'sensor'>>(series: T[]): Array<[T, T]> {
+  const pairs: Array<[T, T]> = [];
+
+  for (let i = 0; i < series.length; i++) {
+    for (let j = i + 1; j < series.length; j++) {
+      if (series[i].sensor.sensorType === series[j].sensor.sensorType) {
+        pairs.push([series[i], series[j]]);
+      }
+    }
+  }
+
+  return pairs;
+}
+
+/**
+ * Compute agreement for every pair of series that measure the same type
+ */
+export function computePairwiseAgreement(series: ResampledSeries[]): PairwiseAgreement[] {
+  return listSameTypePairs(series).map(([a, b]) => ({
+    sensorType: a.sensor.sensorType,
+    a: getSensorKey(a.sensor),
+    b: getSensorKey(b.sensor),
+    stats: computeAgreement(alignPoints(a.points, b.points)),
+  }));
+}
+
+export interface RegressionLine {
+  slope: number;
+  intercept: number;
+}
+
+/**
+ * Ordinary least-squares fit of b on a
+ * @returns Null with fewer than two pairs or when a doesn't vary
+ */
+export function fitRegressionLine(pairs: Array<[number, number]>): RegressionLine | null {
+  const n = pairs.length;
+  if (n < 2) return null;
+
+  const meanA = pairs.reduce((sum, [a]) => sum + a, 0) / n;
+  const meanB = pairs.reduce((sum, [, b]) => sum + b, 0) / n;
+
+  let covariance = 0, varianceA = 0;
+  for (const [a, b] of pairs) {
+    covariance += (a - meanA) * (b - meanB);
+    varianceA += (a - meanA) ** 2;
+  }
+  if (varianceA === 0) return null;
+
+  const slope = covariance / varianceA;
+  return { slope, intercept: meanB - slope * meanA };
+}
+
+export interface BlandAltman {
+  /** Mean of the pair and their difference (b - a) for each sample */
+  points: Array<{ mean: number; difference: number }>;
+  /** Mean difference */
+  bias: number;
+  /** Standard deviation of the differences */
+  sd: number;
+  /** Lower limit of agreement (bias - 1.96 sd) */
+  lower: number;
+  /** Upper limit of agreement (bias + 1.96 sd) */
+  upper: number;
+}
+
+/**
+ * Bland–Altman analysis of aligned value pairs
+ * @returns Null with fewer than two pairs
+ */
+export function computeBlandAltman(pairs: Array<[number, number]>): BlandAltman | null {
+  const n = pairs.length;
+  if (n < 2) return null;
+
+  const points = pairs.map(([a, b]) => ({ mean: (a + b) / 2, difference: b - a }));
+  const bias = points.reduce((sum, p) => sum + p.difference, 0) / n;
+  const sd = Math.sqrt(points.reduce((sum, p) => sum + (p.difference - bias) ** 2, 0) / (n - 1));
+
+  return { points, bias, sd, lower: bias - 1.96 * sd, upper: bias + 1.96 * sd };
+}
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { applyCalibration, fitCalibration } from './calibration';
+
+describe('fitCalibration', () => {
+  it('recovers slope and offset', () => {
+    const samples = [1, 2, 3, 4, 5].map(raw => ({ raw, reference: 2 * raw + 1 }));
+    const calibration = fitCalibration(samples, false, 0)!;
+
+    expect(calibration.slope).toBeCloseTo(2);
+    expect(calibration.offset).toBeCloseTo(1);
+    expect(calibration.humidityCoefficient).toBeUndefined();
+    expect(calibration.r2).toBeCloseTo(1);
+    expect(calibration.count).toBe(5);
+  });
+
+  it('fits a humidity term', () => {
+    const samples = [
+      { raw: 10, humidity: 40 },
+      { raw: 12, humidity: 80 },
+      { raw: 15, humidity: 50 },
+      { raw: 20, humidity: 90 },
+      { raw: 8, humidity: 30 },
+    ].map(s => ({ ...s, reference: 0.9 * s.raw - 0.05 * s.humidity + 2 }));
+    const calibration = fitCalibration(samples, true, 0)!;
+
+    expect(calibration.slope).toBeCloseTo(0.9);
+    expect(calibration.offset).toBeCloseTo(2);
+    expect(calibration.humidityCoefficient).toBeCloseTo(-0.05);
+  });
+
+  it('returns null when the fit is undetermined', () => {
+    expect(fitCalibration([{ raw: 1, reference: 1 }], false)).toBeNull();
+    expect(fitCalibration([1, 2, 3].map(() => ({ raw: 5, reference: 5 })), false)).toBeNull();
+  });
+});
+
+describe('applyCalibration', () => {
+  it('leaves readings uncorrected when the humidity term has no humidity', () => {
+    const calibration = { slope: 2, offset: 1, humidityCoefficient: 0.5, r2: 1, count: 3, fittedAt: 0 };
+
+    expect(applyCalibration(10, calibration, 10)).toBe(26);
+    expect(applyCalibration(10, calibration)).toBeNull();
+    expect(applyCalibration(10, { ...calibration, humidityCoefficient: undefined })).toBe(21);
+  });
+});
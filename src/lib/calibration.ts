@@ -0,0 +1,182 @@
+/**
+ * Linear calibration against a reference sensor
+ */
+
+import type { SensorReading } from '@/hooks/useSensorReadings';
+import type { ResampledPoint, ResampledSeries } from '@/lib/resample';
+
+export interface Calibration {
+  /** Multiplier applied to the raw value */
+  slope: number;
+  /** Added after scaling */
+  offset: number;
+  /** Multiplier applied to relative humidity (%), when fitted with a humidity term */
+  humidityCoefficient?: number;
+  /** Coefficient of determination of the fit */
+  r2: number;
+  /** Number of samples the fit used */
+  count: number;
+  /** When the fit was made (unix seconds) */
+  fittedAt: number;
+}
+
+export interface CalibrationSample {
+  /** Raw value from the sensor being calibrated */
+  raw: number;
+  /** Value from the reference sensor at the same time */
+  reference: number;
+  /** Relative humidity at the same time */
+  humidity?: number;
+}
+
+/** Minimum number of samples needed for a fit */
+export const MIN_CALIBRATION_SAMPLES = 3;
+
+/**
+ * Apply a calibration to a raw value
+ * @param humidity - Relative humidity, needed when the calibration has a humidity term
+ * @returns Null when the calibration has a humidity term but humidity is
+ *   missing, since dropping the term would bias the result
+ */
+export function applyCalibration(raw: number, calibration: Calibration, humidity?: number): number | null {
+  if (calibration.humidityCoefficient === undefined) {
+    return calibration.slope * raw + calibration.offset;
+  }
+  if (humidity === undefined) return null;
+  return calibration.slope * raw + calibration.offset + calibration.humidityCoefficient * humidity;
+}
+
+/**
+ * Solve a small linear system with Gaussian elimination
+ * @returns The solution, or null if the system is singular
+ */
+function solve(matrix: number[][], vector: number[]): number[] | null {
+  const n = vector.length;
+  const a = matrix.map((row, i) => [...row, vector[i]]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    }
+    if (Math.abs(a[pivot][col]) < 1e-12) return null;
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = a[row][col] / a[col][col];
+      for (let k = col; k <= n; k++) a[row][k] -= factor * a[col][k];
+    }
+  }
+
+  const x = new Array<number>(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = a[row][n];
+    for (let k = row + 1; k < n; k++) sum -= a[row][k] * x[k];
+    x[row] = sum / a[row][row];
+  }
+  return x;
+}
+
+/**
+ * Fit reference ≈ slope × raw + offset (+ humidityCoefficient × humidity)
+ * by least squares
+ * @param withHumidity - Include a humidity term; samples without humidity are skipped
+ * @returns Null when there are too few samples or the inputs don't vary
+ */
+export function fitCalibration(
+  samples: CalibrationSample[],
+  withHumidity: boolean,
+  fittedAt: number = Math.floor(Date.now() / 1000)
+): Calibration | null {
+  const usable = withHumidity ? samples.filter(s => s.humidity !== undefined) : samples;
+  if (usable.length < MIN_CALIBRATION_SAMPLES) return null;
+
+  // Design matrix rows: [raw, 1] or [raw, 1, humidity]
+  const rows = usable.map(s => withHumidity ? [s.raw, 1, s.humidity!] : [s.raw, 1]);
+  const size = rows[0].length;
+
+  const xtx = Array.from({ length: size }, () => new Array<number>(size).fill(0));
+  const xty = new Array<number>(size).fill(0);
+  rows.forEach((row, i) => {
+    for (let j = 0; j < size; j++) {
+      xty[j] += row[j] * usable[i].reference;
+      for (let k = 0; k < size; k++) xtx[j][k] += row[j] * row[k];
+    }
+  });
+
+  const coefficients = solve(xtx, xty);
+  if (!coefficients) return null;
+
+  const [slope, offset, humidityCoefficient] = coefficients;
+  const calibration: Calibration = {
+    slope,
+    offset,
+    humidityCoefficient: withHumidity ? humidityCoefficient : undefined,
+    r2: 0,
+    count: usable.length,
+    fittedAt,
+  };
+
+  const meanReference = usable.reduce((sum, s) => sum + s.reference, 0) / usable.length;
+  let residualSum = 0, totalSum = 0;
+  rows.forEach((row, i) => {
+    const predicted = row.reduce((sum, x, j) => sum + x * coefficients[j], 0);
+    residualSum += (usable[i].reference - predicted) ** 2;
+    totalSum += (usable[i].reference - meanReference) ** 2;
+  });
+  calibration.r2 = totalSum > 0 ? 1 - residualSum / totalSum : 0;
+
+  return calibration;
+}
+
+/**
+ * Pair a sensor's buckets with the reference's, adding humidity where known
+ */
+export function buildCalibrationSamples(
+  target: ResampledPoint[],
+  reference: ResampledPoint[],
+  humidity?: ResampledPoint[]
+): CalibrationSample[] {
+  const referenceByTimestamp = new Map(reference.map(p => [p.timestamp, p.value]));
+  const humidityByTimestamp = new Map(humidity?.map(p => [p.timestamp, p.value]));
+
+  return target.flatMap(point => {
+    const referenceValue = referenceByTimestamp.get(point.timestamp);
+    if (referenceValue === undefined) return [];
+    return [{ raw: point.value, reference: referenceValue, humidity: humidityByTimestamp.get(point.timestamp) }];
+  });
+}
+
+/**
+ * Find the humidity series measured at the same station, preferring the
+ * same sensor model
+ */
+export function findHumiditySeries(
+  series: ResampledSeries[],
+  sensor: ResampledSeries['sensor']
+): ResampledPoint[] | undefined {
+  const candidates = series.filter(s => s.sensor.pubkey === sensor.pubkey && s.sensor.sensorType === 'humidity');
+  return (candidates.find(s => s.sensor.sensorModel === sensor.sensorModel) ?? candidates[0])?.points;
+}
+
+/**
+ * Apply a calibration to every reading of a series
+ *
+ * With a humidity term, readings in buckets without humidity can't be
+ * corrected and are left out.
+ * @param humidity - Humidity buckets of the same station, looked up by the bucket each reading falls in
+ */
+export function calibrateReadings(
+  readings: SensorReading[],
+  calibration: Calibration,
+  humidity: ResampledPoint[] | undefined,
+  bucketSeconds: number
+): SensorReading[] {
+  const humidityByTimestamp = new Map(humidity?.map(p => [p.timestamp, p.value]));
+
+  return readings.flatMap(reading => {
+    const bucket = Math.floor(reading.timestamp / bucketSeconds) * bucketSeconds;
+    const value = applyCalibration(reading.value, calibration, humidityByTimestamp.get(bucket));
+    return value === null ? [] : [{ ...reading, value }];
+  });
+}
@@ -2,19 +2,50 @@
  * Comparison storage and management
  */
 
+import type { Aggregation } from '@/lib/resample';
+import { getSensorKey } from '@/lib/agreement';
+import type { Calibration } from '@/lib/calibration';
+import type { OutlierDecisions } from '@/lib/outlierFilter';
+import { removeSensorReferences, type ComputedSeries } from '@/lib/formula';
+import type { HumidityCorrection } from '@/lib/humidityCorrection';
+
 export interface SensorSelection {
   id: string; // unique ID for this selection
   stationPubkey: string;
   stationName: string;
   sensorModel: string;
   sensorTypes: string[]; // All types this model provides
+  calibrations?: Record<string, Calibration>; // Fitted against the reference, keyed by sensor type
+  humidityCorrections?: Record<string, HumidityCorrection>; // Growth-factor fits for PM types, keyed by sensor type
 }
 
+export type TimeRangePreset = '1h' | '24h' | '7d' | '30d' | '90d';
+
 export interface Comparison {
   id: string;
   name: string;
   sensors: SensorSelection[];
   createdAt: number;
+  /** How readings are combined into chart buckets (defaults to mean) */
+  aggregation?: Aggregation;
+  /** Shade the min/max of each bucket around the line */
+  showEnvelope?: boolean;
+  /** Relative preset, or 'custom' to use `customRange` (defaults to 24h) */
+  timeRange?: TimeRangePreset | 'custom';
+  /** Fixed window in unix seconds */
+  customRange?: { since: number; until: number };
+  /** SensorSelection the other sensors are calibrated against */
+  referenceSensorId?: string;
+  /** Show calibrated values in the chart and table */
+  applyCalibration?: boolean;
+  /** Remove humidity growth from PM sensors before calibrating */
+  applyHumidityCorrection?: boolean;
+  /** Reviewed outliers; these override the automatic outlier rules */
+  outlierDecisions?: OutlierDecisions;
+  /** Formula series shown alongside the sensors */
+  computedSeries?: ComputedSeries[];
+  /** Seconds added to each series' timestamps to line it up, by sensor key */
+  timeOffsets?: Record<string, number>;
 }
 
 const STORAGE_KEY = 'weather-comparisons';
@@ -127,13 +158,65 @@ export function addSensorToComparison(
 }
 
 /**
- * Remove a sensor from a comparison
+ * Update a sensor in a comparison
+ */
+export function updateSensorInComparison(
+  comparisonId: string,
+  sensorId: string,
+  updates: Partial<Omit<SensorSelection, 'id'>>
+): void {
+  const comparisons = loadComparisons();
+  const comparison = comparisons.find(c => c.id === comparisonId);
+  const index = comparison?.sensors.findIndex(s => s.id === sensorId) ?? -1;
+  if (comparison && index !== -1) {
+    comparison.sensors[index] = { ...comparison.sensors[index], ...updates };
+    saveComparisons(comparisons);
+  }
+}
+
+/**
+ * Drop the calibrations and humidity corrections of every sensor, which were
+ * fitted against the reference and no longer hold once it changes
+ */
+export function clearReferenceFits(sensors: SensorSelection[]): SensorSelection[] {
+  return sensors.map(({ calibrations: _calibrations, humidityCorrections: _humidityCorrections, ...sensor }) => sensor);
+}
+
+/**
+ * Remove a sensor from a comparison, along with the settings saved for it
  */
 export function removeSensorFromComparison(comparisonId: string, sensorId: string): void {
   const comparisons = loadComparisons();
   const comparison = comparisons.find(c => c.id === comparisonId);
-  if (comparison) {
+  const removed = comparison?.sensors.find(s => s.id === sensorId);
+  if (comparison && removed) {
+    // Formulas refer to sensors by position, which shifts for every later sensor
+    const position = comparison.sensors.indexOf(removed) + 1;
+    comparison.computedSeries = comparison.computedSeries?.map(computed => ({
+      ...computed,
+      expression: removeSensorReferences(computed.expression, position),
+    }));
+
     comparison.sensors = comparison.sensors.filter(s => s.id !== sensorId);
+
+    if (comparison.referenceSensorId === sensorId) {
+      comparison.referenceSensorId = undefined;
+      comparison.sensors = clearReferenceFits(comparison.sensors);
+    }
+
+    // Outlier decisions and time offsets are keyed by sensor key, or start with it
+    const keys = removed.sensorTypes.map(sensorType =>
+      getSensorKey({ pubkey: removed.stationPubkey, sensorType, sensorModel: removed.sensorModel })
+    );
+    if (comparison.outlierDecisions) {
+      comparison.outlierDecisions = Object.fromEntries(Object.entries(comparison.outlierDecisions)
+        .filter(([key]) => !keys.some(sensorKey => key.startsWith(`${sensorKey}@`))));
+    }
+    if (comparison.timeOffsets) {
+      comparison.timeOffsets = Object.fromEntries(Object.entries(comparison.timeOffsets)
+        .filter(([key]) => !keys.includes(key)));
+    }
+
     saveComparisons(comparisons);
   }
 }
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import type { NostrEvent } from '@nostrify/nostrify';
+import type { SensorReading } from '@/hooks/useSensorReadings';
+import { absoluteHumidity, deriveReadings, dewPoint, euAqi, getDerivedTypes, heatIndex, usAqi } from './derived';
+
+function reading(sensorType: string, value: number, model: string): SensorReading {
+  return { timestamp: 100, sensorType, value, model, event: { id: 'a' } as NostrEvent };
+}
+
+describe('formulas', () => {
+  it('computes dew point', () => {
+    expect(dewPoint(20, 50)).toBeCloseTo(9.3, 1);
+    expect(dewPoint(25, 100)).toBeCloseTo(25, 5);
+  });
+
+  it('computes heat index', () => {
+    // NWS table: 90 °F at 70% RH feels like 106 °F
+    expect(heatIndex((90 - 32) * 5 / 9, 70) * 9 / 5 + 32).toBeCloseTo(106, 0);
+    expect(heatIndex(15, 50)).toBeCloseTo(13.9, 1);
+  });
+
+  it('computes absolute humidity', () => {
+    expect(absoluteHumidity(20, 50)).toBeCloseTo(8.6, 1);
+  });
+
+  it('computes the US AQI from the worse pollutant', () => {
+    expect(usAqi(9)).toBe(50);
+    expect(usAqi(35.45)).toBe(100);
+    expect(usAqi(12, 200)).toBe(123);
+    expect(usAqi(1000)).toBe(500);
+    expect(usAqi()).toBeUndefined();
+  });
+
+  it('computes the EU AQI band', () => {
+    expect(euAqi(5, 10)).toBe(1);
+    expect(euAqi(22)).toBe(3);
+    expect(euAqi(5, 120)).toBe(5);
+    expect(euAqi(80)).toBe(6);
+  });
+});
+
+describe('deriveReadings', () => {
+  it('only combines readings from the same model', () => {
+    const derived = deriveReadings([
+      reading('temp', 20, 'BME280'),
+      reading('humidity', 50, 'BME280'),
+      reading('humidity', 50, 'SHT31'),
+      reading('pm25', 12, 'PMS5003'),
+    ]);
+
+    expect(derived.map(r => `${r.model}:${r.sensorType}`)).toEqual([
+      'BME280:dew_point',
+      'BME280:heat_index',
+      'BME280:abs_humidity',
+      'PMS5003:aqi_us',
+      'PMS5003:aqi_eu',
+    ]);
+    expect(derived[0]).toMatchObject({ timestamp: 100, event: { id: 'a' } });
+  });
+
+  it('does not derive types the station publishes itself', () => {
+    expect(getDerivedTypes(['temp', 'humidity', 'dew_point'])).toEqual(['heat_index', 'abs_humidity']);
+  });
+});
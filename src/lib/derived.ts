@@ -0,0 +1,203 @@
+/**
+ * Quantities derived from co-located readings
+ *
+ * Each derived reading is computed from readings of the same model in the
+ * same event, so it shares their timestamp and source event. Derived types
+ * are registered in the sensor type registry like any published tag.
+ */
+
+import type { SensorReading } from '@/hooks/useSensorReadings';
+
+export interface DerivedQuantity {
+  /** Sensor type of the derived readings */
+  type: string;
+  /** Derivable when a model provides all of these types */
+  requires: string[];
+  /** Or, for quantities with alternative inputs, any of these */
+  requiresAny?: string[];
+  /** Compute from the model's readings, keyed by type; undefined if inputs are missing */
+  compute: (values: Record<string, number>) => number | undefined;
+}
+
+/** Coefficients for the Magnus formula over water (Alduchov & Eskridge) */
+const MAGNUS_A = 17.625;
+const MAGNUS_B = 243.04;
+
+/**
+ * Dew point in °C
+ * @param temp - Air temperature in °C
+ * @param humidity - Relative humidity in %
+ */
+export function dewPoint(temp: number, humidity: number): number {
+  const gamma = Math.log(Math.max(humidity, 0.1) / 100) + (MAGNUS_A * temp) / (MAGNUS_B + temp);
+  return (MAGNUS_B * gamma) / (MAGNUS_A - gamma);
+}
+
+/**
+ * Heat index in °C, using the US National Weather Service algorithm
+ * (Steadman's simple formula, then the Rothfusz regression with its
+ * adjustments once the result is above 80 °F)
+ */
+export function heatIndex(temp: number, humidity: number): number {
+  const t = temp * 9 / 5 + 32;
+  const rh = humidity;
+
+  let hi = 0.5 * (t + 61 + (t - 68) * 1.2 + rh * 0.094);
+
+  if ((hi + t) / 2 >= 80) {
+    hi = -42.379 + 2.04901523 * t + 10.14333127 * rh
+      - 0.22475541 * t * rh - 0.00683783 * t * t
+      - 0.05481717 * rh * rh + 0.00122874 * t * t * rh
+      + 0.00085282 * t * rh * rh - 0.00000199 * t * t * rh * rh;
+
+    if (rh < 13 && t >= 80 && t <= 112) {
+      hi -= ((13 - rh) / 4) * Math.sqrt((17 - Math.abs(t - 95)) / 17);
+    } else if (rh > 85 && t >= 80 && t <= 87) {
+      hi += ((rh - 85) / 10) * ((87 - t) / 5);
+    }
+  }
+
+  return (hi - 32) * 5 / 9;
+}
+
+/**
+ * Absolute humidity in g/m³
+ */
+export function absoluteHumidity(temp: number, humidity: number): number {
+  // Saturation vapour pressure in hPa
+  const saturation = 6.112 * Math.exp((17.67 * temp) / (temp + 243.5));
+  return (saturation * humidity * 2.1674) / (273.15 + temp);
+}
+
+interface Breakpoint {
+  low: number;
+  high: number;
+  indexLow: number;
+  indexHigh: number;
+}
+
+/** US EPA PM2.5 breakpoints (2024 revision), µg/m³ */
+const US_PM25_BREAKPOINTS: Breakpoint[] = [
+  { low: 0, high: 9.0, indexLow: 0, indexHigh: 50 },
+  { low: 9.1, high: 35.4, indexLow: 51, indexHigh: 100 },
+  { low: 35.5, high: 55.4, indexLow: 101, indexHigh: 150 },
+  { low: 55.5, high: 125.4, indexLow: 151, indexHigh: 200 },
+  { low: 125.5, high: 225.4, indexLow: 201, indexHigh: 300 },
+  { low: 225.5, high: 325.4, indexLow: 301, indexHigh: 500 },
+];
+
+/** US EPA PM10 breakpoints, µg/m³ */
+const US_PM10_BREAKPOINTS: Breakpoint[] = [
+  { low: 0, high: 54, indexLow: 0, indexHigh: 50 },
+  { low: 55, high: 154, indexLow: 51, indexHigh: 100 },
+  { low: 155, high: 254, indexLow: 101, indexHigh: 150 },
+  { low: 255, high: 354, indexLow: 151, indexHigh: 200 },
+  { low: 355, high: 424, indexLow: 201, indexHigh: 300 },
+  { low: 425, high: 604, indexLow: 301, indexHigh: 500 },
+];
+
+/**
+ * Sub-index for one pollutant by linear interpolation within its breakpoint
+ * @param decimals - The EPA truncates concentrations to this many decimals first
+ */
+function usSubIndex(concentration: number, breakpoints: Breakpoint[], decimals: number): number {
+  const factor = 10 ** decimals;
+  const c = Math.floor(Math.max(concentration, 0) * factor) / factor;
+
+  // The index tops out at 500
+  const bp = breakpoints.find(b => c <= b.high);
+  if (!bp) return 500;
+
+  return Math.round(((bp.indexHigh - bp.indexLow) / (bp.high - bp.low)) * (c - bp.low) + bp.indexLow);
+}
+
+/**
+ * US EPA Air Quality Index (0–500), the worst of the PM2.5 and PM10 sub-indices
+ *
+ * The EPA defines the index on 24-hour averages; here it is applied to each
+ * reading, so resample to a day to match official figures.
+ */
+export function usAqi(pm25?: number, pm10?: number): number | undefined {
+  const indices = [
+    pm25 !== undefined ? usSubIndex(pm25, US_PM25_BREAKPOINTS, 1) : undefined,
+    pm10 !== undefined ? usSubIndex(pm10, US_PM10_BREAKPOINTS, 0) : undefined,
+  ].filter((i): i is number => i !== undefined);
+
+  return indices.length > 0 ? Math.max(...indices) : undefined;
+}
+
+/** Upper limits of the European Air Quality Index bands (Good … Very poor), µg/m³ */
+const EU_PM25_BANDS = [10, 20, 25, 50, 75];
+const EU_PM10_BANDS = [20, 40, 50, 100, 150];
+
+export const EU_AQI_LABELS = ['Good', 'Fair', 'Moderate', 'Poor', 'Very poor', 'Extremely poor'];
+
+function euBand(concentration: number, bands: number[]): number {
+  const index = bands.findIndex(limit => concentration <= limit);
+  return index === -1 ? bands.length + 1 : index + 1;
+}
+
+/**
+ * European Air Quality Index band (1 = Good … 6 = Extremely poor), the worse
+ * of the PM2.5 and PM10 bands
+ */
+export function euAqi(pm25?: number, pm10?: number): number | undefined {
+  const bands = [
+    pm25 !== undefined ? euBand(pm25, EU_PM25_BANDS) : undefined,
+    pm10 !== undefined ? euBand(pm10, EU_PM10_BANDS) : undefined,
+  ].filter((b): b is number => b !== undefined);
+
+  return bands.length > 0 ? Math.max(...bands) : undefined;
+}
+
+export const DERIVED_QUANTITIES: DerivedQuantity[] = [
+  { type: 'dew_point', requires: ['temp', 'humidity'], compute: v => dewPoint(v.temp, v.humidity) },
+  { type: 'heat_index', requires: ['temp', 'humidity'], compute: v => heatIndex(v.temp, v.humidity) },
+  { type: 'abs_humidity', requires: ['temp', 'humidity'], compute: v => absoluteHumidity(v.temp, v.humidity) },
+  { type: 'aqi_us', requires: [], requiresAny: ['pm25', 'pm10'], compute: v => usAqi(v.pm25, v.pm10) },
+  { type: 'aqi_eu', requires: [], requiresAny: ['pm25', 'pm10'], compute: v => euAqi(v.pm25, v.pm10) },
+];
+
+function canDerive(quantity: DerivedQuantity, types: string[]): boolean {
+  return quantity.requires.every(t => types.includes(t)) &&
+    (!quantity.requiresAny || quantity.requiresAny.some(t => types.includes(t)));
+}
+
+/**
+ * Derived types a sensor model can provide, given the types it publishes
+ */
+export function getDerivedTypes(types: string[]): string[] {
+  return DERIVED_QUANTITIES
+    .filter(quantity => !types.includes(quantity.type) && canDerive(quantity, types))
+    .map(quantity => quantity.type);
+}
+
+/**
+ * Compute derived readings from one event's readings
+ *
+ * Only readings of the same model are combined. A type the station already
+ * publishes itself is never derived.
+ */
+export function deriveReadings(readings: SensorReading[]): SensorReading[] {
+  const byModel = new Map<string, SensorReading[]>();
+  readings.forEach(reading => {
+    byModel.set(reading.model, [...(byModel.get(reading.model) ?? []), reading]);
+  });
+
+  const derived: SensorReading[] = [];
+
+  for (const [model, modelReadings] of byModel) {
+    const values = Object.fromEntries(modelReadings.map(r => [r.sensorType, r.value]));
+    const source = modelReadings[0];
+
+    for (const type of getDerivedTypes(Object.keys(values))) {
+      const quantity = DERIVED_QUANTITIES.find(q => q.type === type)!;
+      const value = quantity.compute(values);
+      if (value === undefined || !Number.isFinite(value)) continue;
+
+      derived.push({ timestamp: source.timestamp, sensorType: type, value, model, event: source.event });
+    }
+  }
+
+  return derived;
+}
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { buildHistogram, percentile, summarizeDistribution } from './distribution';
+
+describe('percentile', () => {
+  it('interpolates between values', () => {
+    expect(percentile([1, 2, 3, 4], 50)).toBe(2.5);
+    expect(percentile([10, 20, 30, 40, 50], 95)).toBe(48);
+  });
+});
+
+describe('summarizeDistribution', () => {
+  it('summarizes values in any order', () => {
+    const summary = summarizeDistribution([5, 1, 3, 2, 4])!;
+
+    expect(summary).toMatchObject({ count: 5, mean: 3, min: 1, p25: 2, p50: 3, p75: 4, max: 5 });
+    expect(summary.std).toBeCloseTo(Math.sqrt(2.5));
+  });
+
+  it('returns null without values', () => {
+    expect(summarizeDistribution([])).toBeNull();
+  });
+});
+
+describe('buildHistogram', () => {
+  it('bins every series on the same edges', () => {
+    const bins = buildHistogram([[0, 1, 2, 3], [3, 4]], 2);
+
+    expect(bins.map(b => [b.start, b.end])).toEqual([[0, 2], [2, 4]]);
+    expect(bins.map(b => b.shares)).toEqual([[0.5, 0], [0.5, 1]]);
+  });
+
+  it('puts constant values in one bin', () => {
+    expect(buildHistogram([[7, 7]], 10)).toEqual([{ start: 7, end: 8, shares: [1] }]);
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Value distributions of sensor readings
+ */
+
+export interface DistributionSummary {
+  count: number;
+  mean: number;
+  /** Sample standard deviation, 0 for a single value */
+  std: number;
+  min: number;
+  p5: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p95: number;
+  max: number;
+}
+
+export interface HistogramBin {
+  /** Lower edge of the bin */
+  start: number;
+  /** Upper edge of the bin */
+  end: number;
+  /** Share of each series' values in the bin (0–1), in the order the series were given */
+  shares: number[];
+}
+
+/**
+ * Percentile of sorted values, interpolating between neighbours
+ * @param p - Percentile from 0 to 100
+ */
+export function percentile(sorted: number[], p: number): number {
+  const position = (sorted.length - 1) * (p / 100);
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+/**
+ * Summary statistics of a set of values
+ * @returns Null when there are no values
+ */
+export function summarizeDistribution(values: number[]): DistributionSummary | null {
+  const n = values.length;
+  if (n === 0) return null;
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const mean = sorted.reduce((sum, v) => sum + v, 0) / n;
+  const variance = n > 1 ? sorted.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (n - 1) : 0;
+
+  return {
+    count: n,
+    mean,
+    std: Math.sqrt(variance),
+    min: sorted[0],
+    p5: percentile(sorted, 5),
+    p25: percentile(sorted, 25),
+    p50: percentile(sorted, 50),
+    p75: percentile(sorted, 75),
+    p95: percentile(sorted, 95),
+    max: sorted[n - 1],
+  };
+}
+
+/**
+ * Histogram of several series on shared bins, so they can be overlaid
+ * @param series - Values of each series
+ * @param binCount - Number of equal-width bins across the combined range
+ */
+export function buildHistogram(series: number[][], binCount: number): HistogramBin[] {
+  let min = Infinity;
+  let max = -Infinity;
+  for (const values of series) {
+    for (const v of values) {
+      if (v < min) min = v;
+      if (v > max) max = v;
+    }
+  }
+  if (min === Infinity) return [];
+
+  // A constant series still gets one bin
+  const count = max > min ? binCount : 1;
+  const width = max > min ? (max - min) / count : 1;
+
+  const bins: HistogramBin[] = Array.from({ length: count }, (_, i) => ({
+    start: min + i * width,
+    end: min + (i + 1) * width,
+    shares: series.map(() => 0),
+  }));
+
+  series.forEach((values, s) => {
+    for (const v of values) {
+      // The maximum belongs in the last bin
+      const index = Math.min(count - 1, Math.floor((v - min) / width));
+      bins[index].shares[s]++;
+    }
+    bins.forEach(bin => {
+      bin.shares[s] = values.length > 0 ? bin.shares[s] / values.length : 0;
+    });
+  });
+
+  return bins;
+}
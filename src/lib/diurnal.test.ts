@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { buildDiurnalProfile, decodeGeohash, differencePoints, getHourOfDay, getSolarOffset } from './diurnal';
+
+const HOUR = 3600;
+
+describe('decodeGeohash', () => {
+  it('finds the centre of the cell', () => {
+    const position = decodeGeohash('u4pruydqqvj')!;
+
+    expect(position.latitude).toBeCloseTo(57.64911, 4);
+    expect(position.longitude).toBeCloseTo(10.40744, 4);
+  });
+
+  it('rejects characters outside the alphabet', () => {
+    expect(decodeGeohash('u4pa')).toBeNull();
+  });
+});
+
+describe('getHourOfDay', () => {
+  it('shifts by the solar offset of the longitude', () => {
+    // The '9' cell is centred on 112.5°W, 7.5 hours behind UTC
+    const offset = getSolarOffset('9')!;
+    expect(offset).toBe(-7.5 * HOUR);
+    expect(getHourOfDay(2 * HOUR, offset)).toBe(18);
+  });
+});
+
+describe('buildDiurnalProfile', () => {
+  it('groups values of the same hour across days', () => {
+    const points = [0, 1, 2].flatMap(day => [
+      { timestamp: day * 24 * HOUR + 12 * HOUR, value: 20 + day },
+      { timestamp: day * 24 * HOUR + 12 * HOUR + 1800, value: 22 + day },
+    ]);
+    const profile = buildDiurnalProfile(points, 0);
+
+    expect(profile).toHaveLength(1);
+    expect(profile[0]).toMatchObject({ hour: 12, mean: 22, count: 6 });
+    expect(profile[0].p25).toBeCloseTo(21.25);
+  });
+});
+
+describe('differencePoints', () => {
+  it('pairs buckets with the reference', () => {
+    const point = (timestamp: number, value: number) => ({ timestamp, value, min: value, max: value, count: 1 });
+
+    expect(differencePoints([point(0, 5), point(60, 7)], [point(60, 4)])).toEqual([{ timestamp: 60, value: 3 }]);
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Diurnal (hour-of-day) profiles
+ *
+ * Stations don't publish a timezone, so hours are local solar time from the
+ * longitude in the station's geohash. That is also the clock sunshine
+ * follows, which is what heating errors track.
+ */
+
+import type { TimeValuePoint } from '@/lib/resample';
+import { percentile } from '@/lib/distribution';
+import type { ResampledPoint } from '@/lib/resample';
+
+const GEOHASH_ALPHABET = '0123456789bcdefghjkmnpqrstuvwxyz';
+
+export interface HourlyProfile {
+  /** Hour of day, 0–23 */
+  hour: number;
+  mean: number;
+  p25: number;
+  p75: number;
+  /** Number of values in this hour */
+  count: number;
+}
+
+/**
+ * Centre of a geohash cell
+ * @returns Null when the geohash is malformed
+ */
+export function decodeGeohash(geohash: string): { latitude: number; longitude: number } | null {
+  const lat = [-90, 90];
+  const lon = [-180, 180];
+  let isLongitude = true;
+
+  for (const char of geohash.toLowerCase()) {
+    const bits = GEOHASH_ALPHABET.indexOf(char);
+    if (bits === -1) return null;
+
+    for (let bit = 4; bit >= 0; bit--) {
+      const range = isLongitude ? lon : lat;
+      const mid = (range[0] + range[1]) / 2;
+      if ((bits >> bit) & 1) range[0] = mid; else range[1] = mid;
+      isLongitude = !isLongitude;
+    }
+  }
+
+  return { latitude: (lat[0] + lat[1]) / 2, longitude: (lon[0] + lon[1]) / 2 };
+}
+
+/**
+ * Offset of local solar time from UTC, in seconds
+ * @returns Null when the station has no usable geohash
+ */
+export function getSolarOffset(geohash?: string): number | null {
+  const position = geohash ? decodeGeohash(geohash) : null;
+  return position ? Math.round((position.longitude / 15) * 3600) : null;
+}
+
+/**
+ * Hour of day of a timestamp
+ * @param offset - Seconds ahead of UTC
+ */
+export function getHourOfDay(timestamp: number, offset: number): number {
+  const secondsOfDay = (((timestamp + offset) % 86400) + 86400) % 86400;
+  return Math.floor(secondsOfDay / 3600);
+}
+
+/**
+ * Mean and interquartile range of the values in each hour of day
+ * @returns One entry per hour with values, in hour order
+ */
+export function buildDiurnalProfile(points: TimeValuePoint[], offset: number): HourlyProfile[] {
+  const byHour: number[][] = Array.from({ length: 24 }, () => []);
+  points.forEach(p => byHour[getHourOfDay(p.timestamp, offset)].push(p.value));
+
+  return byHour.flatMap((values, hour) => {
+    if (values.length === 0) return [];
+    const sorted = values.sort((a, b) => a - b);
+    return [{
+      hour,
+      mean: sorted.reduce((sum, v) => sum + v, 0) / sorted.length,
+      p25: percentile(sorted, 25),
+      p75: percentile(sorted, 75),
+      count: sorted.length,
+    }];
+  });
+}
+
+/**
+ * Sensor minus reference in every bucket both have a value
+ */
+export function differencePoints(target: ResampledPoint[], reference: ResampledPoint[]): TimeValuePoint[] {
+  const referenceByTimestamp = new Map(reference.map(p => [p.timestamp, p.value]));
+
+  return target.flatMap(point => {
+    const referenceValue = referenceByTimestamp.get(point.timestamp);
+    return referenceValue === undefined ? [] : [{ timestamp: point.timestamp, value: point.value - referenceValue }];
+  });
+}
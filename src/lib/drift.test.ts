@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { DRIFT_BUCKET_SECONDS, buildDriftSeries, fitDriftTrend, isDrifting, isNearby } from './drift';
+
+function weekly(values: number[]) {
+  return values.map((value, i) => ({ timestamp: i * DRIFT_BUCKET_SECONDS, value, min: value, max: value, count: 1 }));
+}
+
+describe('buildDriftSeries', () => {
+  it('compares against the median of the peers', () => {
+    const points = buildDriftSeries(weekly([12, 20]), [weekly([10, 10]), weekly([11, 10]), weekly([30])]);
+
+    expect(points).toEqual([
+      { timestamp: 0, reference: 11, difference: 1, peers: 3 },
+      { timestamp: DRIFT_BUCKET_SECONDS, reference: 10, difference: 10, peers: 2 },
+    ]);
+  });
+
+  it('skips buckets no peer covers', () => {
+    expect(buildDriftSeries(weekly([1, 2, 3]), [weekly([1])])).toHaveLength(1);
+  });
+});
+
+describe('fitDriftTrend', () => {
+  it('reports the rate per 30 days relative to the peer level', () => {
+    // Sensor gains 0.7 a week on a steady reference of 20
+    const sensor = weekly(Array.from({ length: 10 }, (_, i) => 20 + 0.7 * i));
+    const reference = weekly(Array(10).fill(20));
+    const trend = fitDriftTrend(buildDriftSeries(sensor, [reference]), true)!;
+
+    expect(trend.rate).toBeCloseTo(3);
+    expect(trend.relativeRate).toBeCloseTo(15);
+    expect(trend.r2).toBeCloseTo(1);
+    expect(isDrifting(trend, 5)).toBe(true);
+    expect(isDrifting(trend, 20)).toBe(false);
+  });
+
+  it('has no relative rate for types without a true zero', () => {
+    const sensor = weekly(Array.from({ length: 10 }, (_, i) => 20 + 0.7 * i));
+    const trend = fitDriftTrend(buildDriftSeries(sensor, [weekly(Array(10).fill(20))]), false)!;
+
+    expect(trend.rate).toBeCloseTo(3);
+    expect(trend.relativeRate).toBeNull();
+    expect(isDrifting(trend, 5)).toBe(false);
+  });
+
+  it('needs several weeks of overlap', () => {
+    expect(fitDriftTrend(buildDriftSeries(weekly([1, 2, 3]), [weekly([1, 1, 1])]), true)).toBeNull();
+  });
+});
+
+describe('isNearby', () => {
+  it('matches stations within about 20 km', () => {
+    expect(isNearby('u4pruyd', 'u4pr9')).toBe(true);
+    expect(isNearby('u4pruyd', 'u4pq0')).toBe(false);
+    expect(isNearby(undefined, 'u4pr')).toBe(false);
+  });
+
+  it('matches neighbours on either side of a cell edge', () => {
+    expect(isNearby('u4przz', 'u4pxb')).toBe(true);
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Long-term drift of a sensor against its peers
+ *
+ * Low-cost gas and PM sensors lose sensitivity over months. Averaging a
+ * sensor and its peers over weekly buckets removes weather and noise, so a
+ * trend left in their difference is the sensor drifting.
+ */
+
+import { computeAgreement, fitRegressionLine } from '@/lib/agreement';
+import { decodeGeohash } from '@/lib/diurnal';
+import type { ResampledPoint } from '@/lib/resample';
+
+/** Width of the buckets the difference is taken over */
+export const DRIFT_BUCKET_SECONDS = 7 * 24 * 60 * 60;
+
+/** How far back the report looks */
+export const DRIFT_RANGE_SECONDS = 90 * 24 * 60 * 60;
+
+/** Drift rates are reported per this many seconds */
+export const DRIFT_RATE_SECONDS = 30 * 24 * 60 * 60;
+
+/** Fewest weekly buckets needed to fit a trend */
+export const MIN_DRIFT_BUCKETS = 4;
+
+/** Default flagging threshold, in % of the peers' level per 30 days, for ratio-scale types */
+export const DEFAULT_DRIFT_THRESHOLD = 5;
+
+/** Stations within this distance of each other are nearby */
+const NEARBY_DISTANCE_KM = 20;
+
+/** Shorter geohashes are cells too large to place a station within that distance */
+const MIN_GEOHASH_LENGTH = 4;
+
+const EARTH_RADIUS_KM = 6371;
+
+export interface DriftPoint {
+  /** Start of the bucket */
+  timestamp: number;
+  /** Peer value: the reference, or the median of the peers */
+  reference: number;
+  /** Sensor value minus the peer value */
+  difference: number;
+  /** Number of peers with a value in this bucket */
+  peers: number;
+}
+
+export interface DriftTrend {
+  /** Change in the difference per 30 days, in the sensor's units */
+  rate: number;
+  /** Rate as a percentage of the peers' mean level, or null for types without a true zero or when that level is zero */
+  relativeRate: number | null;
+  /** Fitted difference at the first bucket */
+  intercept: number;
+  /** Coefficient of determination of the trend */
+  r2: number;
+  /** Number of buckets the trend was fitted on */
+  count: number;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+/**
+ * Difference between a sensor and its peers in every bucket where both have
+ * a value
+ * @param peers - Series on the same bucket grid; a single reference is one peer
+ */
+export function buildDriftSeries(target: ResampledPoint[], peers: ResampledPoint[][]): DriftPoint[] {
+  const peerMaps = peers.map(points => new Map(points.map(p => [p.timestamp, p.value])));
+
+  return target.flatMap(point => {
+    const values = peerMaps
+      .map(byTimestamp => byTimestamp.get(point.timestamp))
+      .filter((value): value is number => value !== undefined);
+    if (values.length === 0) return [];
+
+    const reference = median(values);
+    return [{ timestamp: point.timestamp, reference, difference: point.value - reference, peers: values.length }];
+  });
+}
+
+/**
+ * Fit a linear trend to the difference over time
+ * @param ratioScale - Whether the type is measured from a true zero; a
+ *   percentage of a temperature or pressure level depends on the unit's zero
+ * @returns Null with fewer than MIN_DRIFT_BUCKETS buckets
+ */
+export function fitDriftTrend(points: DriftPoint[], ratioScale: boolean): DriftTrend | null {
+  if (points.length < MIN_DRIFT_BUCKETS) return null;
+
+  const start = points[0].timestamp;
+  const pairs = points.map(p => [(p.timestamp - start) / DRIFT_RATE_SECONDS, p.difference] as [number, number]);
+  const line = fitRegressionLine(pairs);
+  if (!line) return null;
+
+  const level = Math.abs(points.reduce((sum, p) => sum + p.reference, 0) / points.length);
+
+  return {
+    rate: line.slope,
+    relativeRate: ratioScale && level > 0 ? (line.slope / level) * 100 : null,
+    intercept: line.intercept,
+    r2: computeAgreement(pairs)?.r2 ?? 0,
+    count: points.length,
+  };
+}
+
+/**
+ * Whether a trend drifts faster than the threshold; only trends with a
+ * relative rate can be flagged
+ * @param threshold - % of the peers' level per 30 days
+ */
+export function isDrifting(trend: DriftTrend, threshold: number): boolean {
+  return trend.relativeRate !== null && Math.abs(trend.relativeRate) > threshold;
+}
+
+/**
+ * Great-circle distance between two points, in km
+ */
+function distanceKm(
+  a: { latitude: number; longitude: number },
+  b: { latitude: number; longitude: number }
+): number {
+  const toRadians = (degrees: number) => degrees * Math.PI / 180;
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLon = toRadians(b.longitude - a.longitude);
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h));
+}
+
+/**
+ * Whether two stations are close enough to serve as each other's peers
+ *
+ * Compared by distance rather than a shared geohash prefix, which would
+ * split neighbours on either side of a cell edge.
+ */
+export function isNearby(geohashA?: string, geohashB?: string): boolean {
+  if (!geohashA || !geohashB || geohashA.length < MIN_GEOHASH_LENGTH || geohashB.length < MIN_GEOHASH_LENGTH) {
+    return false;
+  }
+  const a = decodeGeohash(geohashA);
+  const b = decodeGeohash(geohashB);
+  return a !== null && b !== null && distanceKm(a, b) <= NEARBY_DISTANCE_KM;
+}
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import type { ResampledSeries } from './resample';
+import {
+  FormulaError,
+  evaluateComputedSeries,
+  evaluateFormula,
+  getComputedSensor,
+  getFormulaResultType,
+  getFormulaVariables,
+  parseFormula,
+  removeSensorReferences,
+} from './formula';
+
+function evaluate(source: string, scope: Record<string, number> = {}) {
+  return evaluateFormula(parseFormula(source), scope);
+}
+
+function series(pubkey: string, sensorType: string, values: Array<[number, number]>): ResampledSeries {
+  return {
+    sensor: { pubkey, sensorType, sensorModel: 'M' },
+    points: values.map(([timestamp, value]) => ({ timestamp, value, min: value, max: value, count: 1 })),
+  };
+}
+
+describe('parseFormula', () => {
+  it('follows operator precedence', () => {
+    expect(evaluate('1 + 2 * 3')).toBe(7);
+    expect(evaluate('(1 + 2) * 3')).toBe(9);
+    expect(evaluate('2 ^ 3 ^ 2')).toBe(512);
+    expect(evaluate('-2 ^ 2')).toBe(-4);
+    expect(evaluate('10 / 4 - 1.5e0')).toBe(1);
+  });
+
+  it('calls functions', () => {
+    expect(evaluate('max(1, abs(-5), 3)')).toBe(5);
+    expect(evaluate('sqrt(pow(3, 2) + 16)')).toBe(5);
+  });
+
+  it('collects sensor references', () => {
+    expect(getFormulaVariables(parseFormula('0.52*pm25 - 0.086*humidity + 5.75'))).toEqual(['pm25', 'humidity']);
+    expect(getFormulaVariables(parseFormula('s1.temp - s2.temp'))).toEqual(['s1.temp', 's2.temp']);
+  });
+
+  it('rejects malformed formulas', () => {
+    expect(() => parseFormula('1 +')).toThrow(FormulaError);
+    expect(() => parseFormula('(1 + 2')).toThrow('Expected ")"');
+    expect(() => parseFormula('alert(1)')).toThrow('Unknown function "alert"');
+    expect(() => parseFormula('temp; 1')).toThrow('Unexpected ";" at position 5');
+    expect(() => parseFormula('pow(1)')).toThrow('Wrong number of arguments');
+    expect(() => parseFormula('constructor(1)')).toThrow('Unknown function "constructor"');
+    expect(() => parseFormula('__proto__(1)')).toThrow(FormulaError);
+  });
+});
+
+describe('evaluateComputedSeries', () => {
+  it('applies a correction to aligned buckets only', () => {
+    const points = evaluateComputedSeries('0.52*pm25 - 0.086*humidity + 5.75', [
+      { index: 1, series: series('a', 'pm25', [[0, 10], [60, 20], [120, 30]]) },
+      { index: 2, series: series('a', 'humidity', [[0, 50], [120, 40]]) },
+    ]);
+
+    expect(points.map(p => p.timestamp)).toEqual([0, 120]);
+    expect(points[0].value).toBeCloseTo(0.52 * 10 - 0.086 * 50 + 5.75);
+  });
+
+  it('refers to sensors by position', () => {
+    const sources = [
+      { index: 1, series: series('a', 'temp', [[0, 21]]) },
+      { index: 2, series: series('b', 'temp', [[0, 20]]) },
+    ];
+
+    expect(evaluateComputedSeries('s1.temp - s2.temp', sources)[0].value).toBe(1);
+    expect(() => evaluateComputedSeries('temp * 2', sources)).toThrow('use e.g. s1.temp');
+  });
+
+  it('skips buckets where the result is undefined', () => {
+    const points = evaluateComputedSeries('1 / pm25', [{ index: 1, series: series('a', 'pm25', [[0, 0], [60, 2]]) }]);
+
+    expect(points).toEqual([{ timestamp: 60, value: 0.5, min: 0.5, max: 0.5, count: 1 }]);
+  });
+});
+
+describe('getFormulaResultType', () => {
+  it('reads the result type back from a computed series', () => {
+    const withType = getComputedSensor({ id: 'a', name: 'dT', expression: 's1.temp - s2.temp', sensorType: 'temp' });
+    const withoutType = getComputedSensor({ id: 'b', name: 'ratio', expression: 's1.pm25 / s2.pm25' });
+
+    expect(getFormulaResultType(withType.sensorType)).toBe('temp');
+    expect(getFormulaResultType(withoutType.sensorType)).toBe('');
+    expect(getFormulaResultType('temp')).toBeUndefined();
+  });
+});
+
+describe('removeSensorReferences', () => {
+  it('renumbers later sensors and breaks references to the removed one', () => {
+    expect(removeSensorReferences('s1.temp - s3.temp + s2.temp', 2)).toBe('s1.temp - s2.temp + removed.temp');
+    expect(removeSensorReferences('pm25 * 2', 1)).toBe('pm25 * 2');
+  });
+});
@@ -0,0 +1,379 @@
+/**
+ * Formula series: user-defined expressions over a comparison's sensors
+ *
+ * Expressions support numbers, + - * / ^, parentheses, a few functions and
+ * sensor references. `pm25` refers to the only sensor of that type in the
+ * comparison, `s2.temp` to the temp readings of sensor #2. Formulas are
+ * parsed into a tree and evaluated directly, never passed to `eval`.
+ */
+
+import type { ResampledPoint, ResampledSeries } from '@/lib/resample';
+
+/** A computed series saved with a comparison */
+export interface ComputedSeries {
+  id: string;
+  name: string;
+  expression: string;
+  /** Sensor type the result is measured in, for units and formatting */
+  sensorType?: string;
+}
+
+/** Stands in for a station pubkey in the keys of computed series */
+export const FORMULA_PUBKEY = 'formula';
+
+/** Sensor types of computed series start with this, followed by the type the result is measured in */
+const FORMULA_TYPE_PREFIX = 'formula:';
+
+/**
+ * Sensor descriptor for a computed series, so it can be charted like a real one
+ */
+export function getComputedSensor(computed: ComputedSeries): ResampledSeries['sensor'] {
+  return { pubkey: FORMULA_PUBKEY, sensorType: `${FORMULA_TYPE_PREFIX}${computed.sensorType ?? ''}`, sensorModel: computed.id };
+}
+
+/**
+ * Type a computed series' result is measured in, from the sensor type of
+ * its descriptor
+ * @returns Undefined for the types of real sensors, and '' for results without a unit
+ */
+export function getFormulaResultType(sensorType: string): string | undefined {
+  return sensorType.startsWith(FORMULA_TYPE_PREFIX) ? sensorType.slice(FORMULA_TYPE_PREFIX.length) : undefined;
+}
+
+export type FormulaNode =
+  | { kind: 'number'; value: number }
+  | { kind: 'variable'; name: string }
+  | { kind: 'unary'; operator: '-'; operand: FormulaNode }
+  | { kind: 'binary'; operator: '+' | '-' | '*' | '/' | '^'; left: FormulaNode; right: FormulaNode }
+  | { kind: 'call'; name: string; args: FormulaNode[] };
+
+export class FormulaError extends Error {
+  constructor(message: string, public position?: number) {
+    super(position !== undefined ? `${message} at position ${position + 1}` : message);
+    this.name = 'FormulaError';
+  }
+}
+
+/** Functions available in formulas, with their argument counts */
+// A Map, so names like "constructor" don't resolve to Object.prototype members
+const FUNCTIONS = new Map<string, { arity: [number, number]; fn: (...args: number[]) => number }>([
+  ['abs', { arity: [1, 1], fn: Math.abs }],
+  ['sqrt', { arity: [1, 1], fn: Math.sqrt }],
+  ['exp', { arity: [1, 1], fn: Math.exp }],
+  ['ln', { arity: [1, 1], fn: Math.log }],
+  ['log10', { arity: [1, 1], fn: Math.log10 }],
+  ['round', { arity: [1, 1], fn: Math.round }],
+  ['pow', { arity: [2, 2], fn: Math.pow }],
+  ['min', { arity: [1, Infinity], fn: Math.min }],
+  ['max', { arity: [1, Infinity], fn: Math.max }],
+]);
+
+export const FORMULA_FUNCTIONS = [...FUNCTIONS.keys()];
+
+interface Token {
+  type: 'number' | 'identifier' | 'operator' | '(' | ')' | ',';
+  text: string;
+  position: number;
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    const number = /^(\d+\.?\d*|\.\d+)(e[+-]?\d+)?/i.exec(source.slice(i));
+    if (number) {
+      tokens.push({ type: 'number', text: number[0], position: i });
+      i += number[0].length;
+      continue;
+    }
+
+    // Identifiers may be qualified with a sensor, e.g. s1.temp
+    const identifier = /^[a-z_][a-z0-9_]*(\.[a-z_][a-z0-9_]*)?/i.exec(source.slice(i));
+    if (identifier) {
+      tokens.push({ type: 'identifier', text: identifier[0], position: i });
+      i += identifier[0].length;
+      continue;
+    }
+
+    if ('+-*/^'.includes(char)) {
+      tokens.push({ type: 'operator', text: char, position: i });
+    } else if (char === '(' || char === ')' || char === ',') {
+      tokens.push({ type: char, text: char, position: i });
+    } else {
+      throw new FormulaError(`Unexpected "${char}"`, i);
+    }
+    i++;
+  }
+
+  return tokens;
+}
+
+/**
+ * Parse a formula
+ *
+ * Precedence from lowest: + -, * /, unary minus, ^ (right associative).
+ * @throws FormulaError if the formula is malformed
+ */
+export function parseFormula(source: string): FormulaNode {
+  const tokens = tokenize(source);
+  let index = 0;
+
+  const peek = () => tokens[index];
+  const next = () => tokens[index++];
+  const end = source.length;
+
+  const expect = (type: Token['type']) => {
+    const token = next();
+    if (!token || token.type !== type) {
+      throw new FormulaError(`Expected "${type}"`, token?.position ?? end);
+    }
+    return token;
+  };
+
+  const parseAdditive = (): FormulaNode => {
+    let node = parseMultiplicative();
+    while (peek()?.type === 'operator' && (peek().text === '+' || peek().text === '-')) {
+      const operator = next().text as '+' | '-';
+      node = { kind: 'binary', operator, left: node, right: parseMultiplicative() };
+    }
+    return node;
+  };
+
+  const parseMultiplicative = (): FormulaNode => {
+    let node = parseUnary();
+    while (peek()?.type === 'operator' && (peek().text === '*' || peek().text === '/')) {
+      const operator = next().text as '*' | '/';
+      node = { kind: 'binary', operator, left: node, right: parseUnary() };
+    }
+    return node;
+  };
+
+  const parseUnary = (): FormulaNode => {
+    if (peek()?.type === 'operator' && (peek().text === '-' || peek().text === '+')) {
+      const operator = next().text;
+      const operand = parseUnary();
+      return operator === '-' ? { kind: 'unary', operator: '-', operand } : operand;
+    }
+    return parsePower();
+  };
+
+  const parsePower = (): FormulaNode => {
+    const base = parsePrimary();
+    if (peek()?.type === 'operator' && peek().text === '^') {
+      next();
+      return { kind: 'binary', operator: '^', left: base, right: parseUnary() };
+    }
+    return base;
+  };
+
+  const parsePrimary = (): FormulaNode => {
+    const token = next();
+    if (!token) throw new FormulaError('Unexpected end of formula', end);
+
+    if (token.type === 'number') {
+      return { kind: 'number', value: Number(token.text) };
+    }
+
+    if (token.type === '(') {
+      const node = parseAdditive();
+      expect(')');
+      return node;
+    }
+
+    if (token.type === 'identifier') {
+      if (peek()?.type !== '(') {
+        return { kind: 'variable', name: token.text };
+      }
+
+      const fn = FUNCTIONS.get(token.text.toLowerCase());
+      if (!fn) throw new FormulaError(`Unknown function "${token.text}"`, token.position);
+      next();
+
+      const args: FormulaNode[] = [];
+      if (peek()?.type !== ')') {
+        args.push(parseAdditive());
+        while (peek()?.type === ',') {
+          next();
+          args.push(parseAdditive());
+        }
+      }
+      expect(')');
+
+      const [minArgs, maxArgs] = fn.arity;
+      if (args.length < minArgs || args.length > maxArgs) {
+        throw new FormulaError(`Wrong number of arguments for ${token.text}()`, token.position);
+      }
+      return { kind: 'call', name: token.text.toLowerCase(), args };
+    }
+
+    throw new FormulaError(`Unexpected "${token.text}"`, token.position);
+  };
+
+  if (tokens.length === 0) throw new FormulaError('Formula is empty');
+
+  const node = parseAdditive();
+  if (index < tokens.length) {
+    throw new FormulaError(`Unexpected "${peek().text}"`, peek().position);
+  }
+  return node;
+}
+
+/**
+ * Names of the sensors a formula refers to, in order of first use
+ */
+export function getFormulaVariables(node: FormulaNode): string[] {
+  const names = new Set<string>();
+  const visit = (n: FormulaNode) => {
+    switch (n.kind) {
+      case 'variable': names.add(n.name); break;
+      case 'unary': visit(n.operand); break;
+      case 'binary': visit(n.left); visit(n.right); break;
+      case 'call': n.args.forEach(visit); break;
+    }
+  };
+  visit(node);
+  return [...names];
+}
+
+/**
+ * Evaluate a parsed formula
+ * @param scope - Value of each variable
+ * @returns NaN or ±Infinity for undefined results such as division by zero
+ */
+export function evaluateFormula(node: FormulaNode, scope: Record<string, number>): number {
+  switch (node.kind) {
+    case 'number':
+      return node.value;
+    case 'variable':
+      return scope[node.name] ?? NaN;
+    case 'unary':
+      return -evaluateFormula(node.operand, scope);
+    case 'binary': {
+      const left = evaluateFormula(node.left, scope);
+      const right = evaluateFormula(node.right, scope);
+      switch (node.operator) {
+        case '+': return left + right;
+        case '-': return left - right;
+        case '*': return left * right;
+        case '/': return left / right;
+        case '^': return left ** right;
+      }
+      break;
+    }
+    case 'call':
+      return FUNCTIONS.get(node.name)?.fn(...node.args.map(arg => evaluateFormula(arg, scope))) ?? NaN;
+  }
+  return NaN;
+}
+
+export interface FormulaSource {
+  /** Position of the sensor model in the comparison, 1-based; `s2.temp` refers to #2 */
+  index: number;
+  series: ResampledSeries;
+}
+
+/**
+ * Names a formula can use for each source: `s<index>.<type>` always, plus
+ * the bare type when only one source has it
+ */
+export function getVariableNames(sources: FormulaSource[]): Map<string, ResampledSeries> {
+  const names = new Map<string, ResampledSeries>();
+  const typeCounts = new Map<string, number>();
+
+  sources.forEach(({ series }) => {
+    const type = series.sensor.sensorType;
+    typeCounts.set(type, (typeCounts.get(type) ?? 0) + 1);
+  });
+
+  sources.forEach(({ index, series }) => {
+    const type = series.sensor.sensorType;
+    names.set(`s${index}.${type}`, series);
+    if (typeCounts.get(type) === 1) names.set(type, series);
+  });
+
+  return names;
+}
+
+/**
+ * Rewrite a formula's `s<index>.<type>` references after the sensor at
+ * position `removed` leaves the comparison: later sensors move up one, and
+ * references to the removed sensor become `removed.<type>`, which never
+ * resolves, rather than silently pointing at its successor
+ * @returns The formula unchanged if it can't be tokenized
+ */
+export function removeSensorReferences(expression: string, removed: number): string {
+  let tokens: Token[];
+  try {
+    tokens = tokenize(expression);
+  } catch {
+    return expression;
+  }
+
+  // Right to left, so the positions of earlier tokens stay valid
+  return tokens.reduceRight((result, token) => {
+    const match = token.type === 'identifier' ? /^s(\d+)\.(.+)$/.exec(token.text) : null;
+    if (!match || Number(match[1]) < removed) return result;
+
+    const index = Number(match[1]);
+    const replacement = index === removed ? `removed.${match[2]}` : `s${index - 1}.${match[2]}`;
+    return result.slice(0, token.position) + replacement + result.slice(token.position + token.text.length);
+  }, expression);
+}
+
+/**
+ * Evaluate a computed series on the bucket grid its inputs share
+ *
+ * A bucket gets a value only when every input has one there; buckets where
+ * the formula is undefined (e.g. division by zero) are skipped.
+ * @throws FormulaError if the formula is malformed or names an unknown sensor
+ */
+export function evaluateComputedSeries(expression: string, sources: FormulaSource[]): ResampledPoint[] {
+  const node = parseFormula(expression);
+  const variables = getFormulaVariables(node);
+  if (variables.length === 0) {
+    throw new FormulaError('Formula must refer to at least one sensor');
+  }
+
+  const names = getVariableNames(sources);
+  const inputs = variables.map(name => {
+    const series = names.get(name);
+    if (!series) {
+      const ambiguous = sources.filter(s => s.series.sensor.sensorType === name).length > 1;
+      throw new FormulaError(ambiguous
+        ? `"${name}" matches several sensors; use e.g. s1.${name}`
+        : `Unknown sensor "${name}"`);
+    }
+    return { name, points: new Map(series.points.map(p => [p.timestamp, p])) };
+  });
+
+  const points: ResampledPoint[] = [];
+
+  for (const timestamp of inputs[0].points.keys()) {
+    const scope: Record<string, number> = {};
+    let count = Infinity;
+
+    const aligned = inputs.every(({ name, points: byTimestamp }) => {
+      const point = byTimestamp.get(timestamp);
+      if (!point) return false;
+      scope[name] = point.value;
+      count = Math.min(count, point.count);
+      return true;
+    });
+    if (!aligned) continue;
+
+    const value = evaluateFormula(node, scope);
+    if (!Number.isFinite(value)) continue;
+
+    points.push({ timestamp, value, min: value, max: value, count });
+  }
+
+  return points.sort((a, b) => a.timestamp - b.timestamp);
+}
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import type { NostrEvent } from '@nostrify/nostrify';
+import {
+  applyHumidityCorrection,
+  buildHumiditySamples,
+  correctReadingsForHumidity,
+  fitHumidityCorrection,
+  growthFactor,
+} from './humidityCorrection';
+
+function points(values: number[]) {
+  return values.map((value, i) => ({ timestamp: i * 60, value, min: value, max: value, count: 1 }));
+}
+
+describe('growthFactor', () => {
+  it('grows with humidity and is capped near saturation', () => {
+    expect(growthFactor(0, 0.4)).toBe(1);
+    expect(growthFactor(50, 0.4)).toBeCloseTo(1 + 0.4 / 1.65);
+    expect(growthFactor(100, 0.4)).toBe(growthFactor(98, 0.4));
+  });
+});
+
+describe('fitHumidityCorrection', () => {
+  it('recovers kappa and the dry ratio', () => {
+    const humidity = [20, 30, 40, 50, 60, 70, 80, 85, 90, 95];
+    const samples = humidity.map((rh, i) => ({ timestamp: i, humidity: rh, ratio: 1.2 * growthFactor(rh, 0.35) }));
+    const correction = fitHumidityCorrection(samples, 0)!;
+
+    expect(correction.kappa).toBeCloseTo(0.35);
+    expect(correction.dryRatio).toBeCloseTo(1.2);
+    expect(correction.r2).toBeCloseTo(1);
+  });
+
+  it('returns null without enough varied samples', () => {
+    expect(fitHumidityCorrection([{ timestamp: 0, humidity: 50, ratio: 1 }])).toBeNull();
+    expect(fitHumidityCorrection(Array.from({ length: 10 }, (_, i) => ({ timestamp: i, humidity: 50, ratio: 1 })))).toBeNull();
+  });
+});
+
+describe('buildHumiditySamples', () => {
+  it('pairs buckets and skips near-zero reference values', () => {
+    const samples = buildHumiditySamples(points([10, 4, 6]), points([5, 0.5, 3]), points([60, 70, 80]));
+
+    expect(samples).toEqual([
+      { timestamp: 0, humidity: 60, ratio: 2 },
+      { timestamp: 120, humidity: 80, ratio: 2 },
+    ]);
+  });
+});
+
+describe('applyHumidityCorrection', () => {
+  it('divides out the growth and gives null without humidity', () => {
+    const correction = { kappa: 0.4, dryRatio: 1, r2: 1, count: 10, fittedAt: 0 };
+
+    expect(applyHumidityCorrection(20, correction, 50)).toBeCloseTo(20 / growthFactor(50, 0.4));
+    expect(applyHumidityCorrection(20, correction)).toBeNull();
+  });
+});
+
+describe('correctReadingsForHumidity', () => {
+  it('leaves out readings with no humidity in their bucket', () => {
+    const correction = { kappa: 0.4, dryRatio: 1, r2: 1, count: 10, fittedAt: 0 };
+    const readings = [30, 90, 150].map(timestamp => ({
+      timestamp, sensorType: 'pm25', value: 20, model: 'M', event: {} as NostrEvent,
+    }));
+
+    // Humidity covers the first and third minute only
+    const humidity = [0, 120].map(timestamp => ({ timestamp, value: 50, min: 50, max: 50, count: 1 }));
+    const corrected = correctReadingsForHumidity(readings, correction, humidity, 60);
+
+    expect(corrected.map(r => r.timestamp)).toEqual([30, 150]);
+    expect(corrected[0].value).toBeCloseTo(20 / growthFactor(50, 0.4));
+    expect(correctReadingsForHumidity(readings, correction, undefined, 60)).toEqual([]);
+  });
+});
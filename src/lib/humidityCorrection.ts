@@ -0,0 +1,174 @@
+/**
+ * Humidity correction for optical particulate sensors
+ *
+ * Optical counters see particles swollen by water uptake, so they read high
+ * in humid air. The growth is modelled with single-parameter κ-Köhler theory
+ * (Crilley et al., 2018): the wet/dry mass ratio is
+ * 1 + (κ / ρ) / (100 / RH − 1), with ρ the particle/water density ratio.
+ */
+
+import type { SensorReading, SensorSeries } from '@/hooks/useSensorReadings';
+import type { WeatherStation } from '@/hooks/useWeatherStations';
+import type { SensorSelection } from '@/lib/comparisonStore';
+import type { ResampledPoint } from '@/lib/resample';
+
+/** Particulate types the correction applies to */
+export const PM_TYPES = ['pm1', 'pm25', 'pm10'];
+
+/** Assumed ratio of dry particle to water density */
+const DENSITY_RATIO = 1.65;
+
+/** Growth diverges at saturation, so humidity is capped here */
+export const MAX_HUMIDITY = 98;
+
+/** Reference values below this (µg/m³) are too noisy to take a ratio of */
+const MIN_REFERENCE = 1;
+
+/** Minimum number of samples needed for a fit */
+export const MIN_HUMIDITY_SAMPLES = 10;
+
+export interface HumidityCorrection {
+  /** Hygroscopicity parameter κ */
+  kappa: number;
+  /** Sensor/reference ratio in dry air, left for the linear calibration to remove */
+  dryRatio: number;
+  /** Coefficient of determination of the fitted ratio */
+  r2: number;
+  /** Number of samples the fit used */
+  count: number;
+  /** When the fit was made (unix seconds) */
+  fittedAt: number;
+}
+
+export interface HumiditySample {
+  timestamp: number;
+  humidity: number;
+  /** Sensor value divided by the reference value */
+  ratio: number;
+}
+
+/**
+ * Wet/dry mass ratio at a relative humidity
+ */
+export function growthFactor(humidity: number, kappa: number): number {
+  const rh = Math.min(Math.max(humidity, 0), MAX_HUMIDITY);
+  return 1 + (kappa / DENSITY_RATIO) / (100 / rh - 1);
+}
+
+/**
+ * Remove the humidity growth from a raw value
+ * @returns Null when humidity is missing, since the uncorrected value would
+ *   read high next to corrected ones
+ */
+export function applyHumidityCorrection(raw: number, correction: HumidityCorrection, humidity?: number): number | null {
+  return humidity === undefined ? null : raw / growthFactor(humidity, correction.kappa);
+}
+
+/**
+ * Pair a PM sensor's buckets with the reference and the station's humidity
+ */
+export function buildHumiditySamples(
+  target: ResampledPoint[],
+  reference: ResampledPoint[],
+  humidity: ResampledPoint[]
+): HumiditySample[] {
+  const referenceByTimestamp = new Map(reference.map(p => [p.timestamp, p.value]));
+  const humidityByTimestamp = new Map(humidity.map(p => [p.timestamp, p.value]));
+
+  return target.flatMap(point => {
+    const referenceValue = referenceByTimestamp.get(point.timestamp);
+    const rh = humidityByTimestamp.get(point.timestamp);
+    if (referenceValue === undefined || rh === undefined || referenceValue < MIN_REFERENCE) return [];
+    return [{ timestamp: point.timestamp, humidity: rh, ratio: point.value / referenceValue }];
+  });
+}
+
+/**
+ * Fit ratio ≈ dryRatio × growthFactor(RH, κ) by least squares
+ *
+ * The model is linear in x = RH / (100 − RH): ratio = a + b·x, with
+ * dryRatio = a and κ = ρ·b / a.
+ * @returns Null when there are too few samples or humidity doesn't vary
+ */
+export function fitHumidityCorrection(
+  samples: HumiditySample[],
+  fittedAt: number = Math.floor(Date.now() / 1000)
+): HumidityCorrection | null {
+  if (samples.length < MIN_HUMIDITY_SAMPLES) return null;
+
+  const points = samples.map(s => {
+    const rh = Math.min(Math.max(s.humidity, 0), MAX_HUMIDITY);
+    return { x: rh / (100 - rh), y: s.ratio };
+  });
+
+  const n = points.length;
+  const meanX = points.reduce((sum, p) => sum + p.x, 0) / n;
+  const meanY = points.reduce((sum, p) => sum + p.y, 0) / n;
+  let sxx = 0, sxy = 0, syy = 0;
+  points.forEach(({ x, y }) => {
+    sxx += (x - meanX) ** 2;
+    sxy += (x - meanX) * (y - meanY);
+    syy += (y - meanY) ** 2;
+  });
+  if (sxx === 0) return null;
+
+  const slope = sxy / sxx;
+  const dryRatio = meanY - slope * meanX;
+  if (dryRatio <= 0) return null;
+
+  // A sensor can't shrink in humid air, so a negative κ means no humidity effect
+  const kappa = Math.max(0, (DENSITY_RATIO * slope) / dryRatio);
+  const fitted = { kappa, dryRatio, r2: 0, count: n, fittedAt };
+
+  const residualSum = samples.reduce((sum, s) => sum + (s.ratio - dryRatio * growthFactor(s.humidity, kappa)) ** 2, 0);
+  fitted.r2 = syy > 0 ? 1 - residualSum / syy : 0;
+
+  return fitted;
+}
+
+/**
+ * Humidity sensors to fetch alongside a comparison: for each station with a
+ * PM sensor but no humidity sensor in the comparison, a model of that station
+ * that measures humidity
+ */
+export function getStationHumiditySensors(
+  selections: SensorSelection[],
+  stations: WeatherStation[]
+): SensorSeries['sensor'][] {
+  const sensors: SensorSeries['sensor'][] = [];
+
+  selections.forEach(selection => {
+    if (!selection.sensorTypes.some(type => PM_TYPES.includes(type))) return;
+
+    const pubkey = selection.stationPubkey;
+    const hasHumidity = selections.some(s => s.stationPubkey === pubkey && s.sensorTypes.includes('humidity'));
+    if (hasHumidity || sensors.some(s => s.pubkey === pubkey)) return;
+
+    const models = stations.find(s => s.pubkey === pubkey)?.sensorModels ?? [];
+    const model = models.find(m => m.model === selection.sensorModel && m.types.includes('humidity'))
+      ?? models.find(m => m.types.includes('humidity'));
+    if (model) sensors.push({ pubkey, sensorType: 'humidity', sensorModel: model.model });
+  });
+
+  return sensors;
+}
+
+/**
+ * Apply a humidity correction to every reading of a series, leaving out
+ * readings with no humidity in their bucket
+ * @param humidity - Humidity buckets of the same station, looked up by the bucket each reading falls in
+ */
+export function correctReadingsForHumidity(
+  readings: SensorReading[],
+  correction: HumidityCorrection,
+  humidity: ResampledPoint[] | undefined,
+  bucketSeconds: number
+): SensorReading[] {
+  const humidityByTimestamp = new Map(humidity?.map(p => [p.timestamp, p.value]));
+
+  return readings.flatMap(reading => {
+    const bucket = Math.floor(reading.timestamp / bucketSeconds) * bucketSeconds;
+    const value = applyHumidityCorrection(reading.value, correction, humidityByTimestamp.get(bucket));
+    return value === null ? [] : [{ ...reading, value }];
+  });
+}
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import type { NostrEvent } from '@nostrify/nostrify';
+import { applyTimeOffsets, chooseLagStep, crossCorrelate, findBestLag } from './lag';
+
+function points(values: number[], start = 0) {
+  return values.map((value, i) => ({ timestamp: (start + i) * 60, value, min: value, max: value, count: 1 }));
+}
+
+// A wave with enough structure that only one shift lines it up
+const signal = Array.from({ length: 80 }, (_, i) => Math.sin(i / 5) + Math.sin(i / 13) * 2);
+
+describe('crossCorrelate', () => {
+  it('finds the lag of a delayed copy', () => {
+    // b shows the same values 4 buckets after a
+    const best = findBestLag(crossCorrelate(points(signal), points(signal, 4), 60, 10));
+
+    expect(best?.lag).toBe(4 * 60);
+    expect(best?.r).toBeCloseTo(1);
+  });
+
+  it('reports zero lag for aligned series', () => {
+    const best = findBestLag(crossCorrelate(points(signal), points(signal), 60, 5));
+
+    expect(best).toMatchObject({ lag: 0, count: 80 });
+  });
+
+  it('ignores lags with too little overlap', () => {
+    expect(findBestLag(crossCorrelate(points([1, 2, 3]), points([1, 2, 3]), 60, 1))).toBeNull();
+  });
+});
+
+describe('chooseLagStep', () => {
+  it('uses a fine grid unless the lag or the range is long', () => {
+    expect(chooseLagStep(3600, 86400)).toBe(60);
+    expect(chooseLagStep(86400, 86400)).toBe(600);
+    expect(chooseLagStep(3600, 90 * 86400)).toBe(900);
+  });
+});
+
+describe('applyTimeOffsets', () => {
+  it('shifts only series with an offset', () => {
+    const reading = { timestamp: 100, sensorType: 'temp', value: 1, model: 'M', event: {} as NostrEvent };
+    const data = [
+      { sensor: { pubkey: 'a', sensorType: 'temp', sensorModel: 'M' }, readings: [reading] },
+      { sensor: { pubkey: 'b', sensorType: 'temp', sensorModel: 'M' }, readings: [reading] },
+    ];
+
+    const shifted = applyTimeOffsets(data, { 'b-temp-M': -60 });
+
+    expect(shifted[0]).toBe(data[0]);
+    expect(shifted[1].readings[0].timestamp).toBe(40);
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Time-lag estimation between two series by cross-correlation
+ *
+ * Clock skew and slow sensor response both show up as one series trailing
+ * the other. Correlating the series at a range of offsets finds the shift
+ * that lines them up best.
+ */
+
+import type { SensorSeries } from '@/hooks/useSensorReadings';
+import { alignPoints, computeAgreement, getSensorKey } from '@/lib/agreement';
+import { chooseBucketSeconds, type ResampledPoint } from '@/lib/resample';
+
+export interface LagCorrelation {
+  /** Seconds by which b trails a */
+  lag: number;
+  /** Pearson correlation at this lag, or null when either side is constant */
+  r: number | null;
+  /** Number of overlapping buckets at this lag */
+  count: number;
+}
+
+/** Fewest overlapping buckets for a lag to be considered */
+export const MIN_LAG_OVERLAP = 10;
+
+/** Cap on lags per direction, so long searches stay quick */
+const MAX_LAG_STEPS = 200;
+
+/** Cap on grid points per series, so long ranges stay quick */
+const MAX_LAG_POINTS = 10000;
+
+/**
+ * Grid step for a lag search, as fine as the searched lag and the length of
+ * the series allow rather than tied to the chart's buckets
+ * @param maxLagSeconds - Largest lag searched in each direction
+ * @param spanSeconds - Time covered by the series
+ */
+export function chooseLagStep(maxLagSeconds: number, spanSeconds: number): number {
+  return Math.max(
+    chooseBucketSeconds(0, maxLagSeconds, MAX_LAG_STEPS),
+    chooseBucketSeconds(0, spanSeconds, MAX_LAG_POINTS)
+  );
+}
+
+/**
+ * Move every point of a series by a number of seconds
+ */
+export function shiftPoints(points: ResampledPoint[], seconds: number): ResampledPoint[] {
+  return points.map(point => ({ ...point, timestamp: point.timestamp + seconds }));
+}
+
+/**
+ * Correlate a(t) with b(t + lag) for every whole-bucket lag in ±maxLagBuckets
+ * @returns One entry per lag, from most negative to most positive
+ */
+export function crossCorrelate(
+  a: ResampledPoint[],
+  b: ResampledPoint[],
+  bucketSeconds: number,
+  maxLagBuckets: number
+): LagCorrelation[] {
+  const correlations: LagCorrelation[] = [];
+
+  for (let k = -maxLagBuckets; k <= maxLagBuckets; k++) {
+    const lag = k * bucketSeconds;
+    const stats = computeAgreement(alignPoints(a, shiftPoints(b, -lag)));
+    correlations.push({ lag, r: stats?.r ?? null, count: stats?.count ?? 0 });
+  }
+
+  return correlations;
+}
+
+/**
+ * The lag with the highest correlation, preferring the smallest shift on ties
+ * @returns Null when no lag has enough overlap
+ */
+export function findBestLag(correlations: LagCorrelation[]): LagCorrelation | null {
+  let best: LagCorrelation | null = null;
+
+  for (const entry of correlations) {
+    if (entry.r === null || entry.count < MIN_LAG_OVERLAP) continue;
+    if (!best || entry.r > best.r! || (entry.r === best.r && Math.abs(entry.lag) < Math.abs(best.lag))) {
+      best = entry;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Shift the readings of each series by its offset
+ * @param offsets - Seconds added to timestamps, by sensor key
+ */
+export function applyTimeOffsets(data: SensorSeries[], offsets: Record<string, number>): SensorSeries[] {
+  return data.map(series => {
+    const offset = offsets[getSensorKey(series.sensor)];
+    if (!offset) return series;
+    return {
+      ...series,
+      readings: series.readings.map(reading => ({ ...reading, timestamp: reading.timestamp + offset })),
+    };
+  });
+}
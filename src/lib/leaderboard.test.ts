@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import type { NostrEvent } from '@nostrify/nostrify';
+import type { SensorSeries } from '@/hooks/useSensorReadings';
+import type { WeatherStation } from '@/hooks/useWeatherStations';
+import { computeSensorMetrics, computeUptime, rankModels, sortRankings, summarizeSensor } from './leaderboard';
+
+const HOUR = 3600;
+
+function series(pubkey: string, sensorModel: string, values: number[]): SensorSeries {
+  return {
+    sensor: { pubkey, sensorType: 'temp', sensorModel },
+    readings: values.map((value, i) => ({
+      timestamp: i * HOUR,
+      sensorType: 'temp',
+      value,
+      model: sensorModel,
+      event: {} as NostrEvent,
+    })),
+  };
+}
+
+function station(pubkey: string, statuses: Record<string, Record<string, string>>): WeatherStation {
+  return {
+    pubkey,
+    name: pubkey,
+    sensorModels: Object.entries(statuses).map(([model, s]) => ({ model, types: ['temp'], statuses: s })),
+    event: {} as NostrEvent,
+  };
+}
+
+describe('computeUptime', () => {
+  it('counts buckets with a reading', () => {
+    expect(computeUptime([0, 100, 2 * HOUR], 0, 4 * HOUR - 1, HOUR)).toBe(0.5);
+  });
+});
+
+describe('rankModels', () => {
+  const values = [20, 21, 22, 21, 20, 19];
+  const summaries = [
+    series('a', 'BME280', values),
+    series('a', 'DHT22', values.map(v => v + 2)),
+    series('b', 'BME280', values),
+    series('b', 'DHT22', values.slice(0, 3)),
+  ].map(s => summarizeSensor(s, 0, 6 * HOUR - 1, HOUR));
+  const metrics = computeSensorMetrics(
+    summaries,
+    [station('a', { BME280: { temp: 'ok' }, DHT22: { temp: 'ok' } }), station('b', { BME280: { temp: 'ok' }, DHT22: { temp: '418' } })]
+  );
+
+  it('averages each model across stations', () => {
+    const dht = rankModels(metrics).find(r => r.sensorModel === 'DHT22')!;
+
+    expect(dht.uptime).toBe(0.75);
+    expect(dht.errorShare).toBe(0.5);
+    expect(dht.peerMae).toBeCloseTo(1);
+  });
+
+  it('orders models best first', () => {
+    expect(sortRankings(rankModels(metrics), 'uptime').map(r => r.sensorModel)).toEqual(['BME280', 'DHT22']);
+  });
+});
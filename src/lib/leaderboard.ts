@@ -0,0 +1,166 @@
+/**
+ * Network-wide ranking of sensor models
+ *
+ * Each sensor (a model on a station, for one type) is scored on its own, then
+ * the scores of every station running a model are averaged per type.
+ */
+
+import type { SensorSeries } from '@/hooks/useSensorReadings';
+import type { WeatherStation } from '@/hooks/useWeatherStations';
+import { alignPoints, computeAgreement } from '@/lib/agreement';
+import { detrendedStd } from '@/lib/precision';
+import { resample, type ResampledPoint } from '@/lib/resample';
+
+export interface SensorMetrics {
+  pubkey: string;
+  sensorType: string;
+  sensorModel: string;
+  /** Share of buckets in the period with at least one reading (0–1) */
+  uptime: number;
+  /** Detrended noise σ, or null with too few readings */
+  noise: number | null;
+  /** Mean absolute difference from other models of the same type on the station */
+  peerMae: number | null;
+  /** Mean correlation with those co-located models */
+  peerR: number | null;
+  /** Status the station last declared for the sensor, e.g. 'ok' or '418' */
+  status?: string;
+}
+
+/** What the ranking needs of one sensor's readings, so the readings themselves can be dropped */
+export interface SensorSummary {
+  sensor: SensorSeries['sensor'];
+  /** Readings averaged into buckets, for pairing with co-located sensors */
+  points: ResampledPoint[];
+  uptime: number;
+  noise: number | null;
+}
+
+export interface ModelRanking {
+  sensorType: string;
+  sensorModel: string;
+  /** Per-station metrics the ranking averages */
+  sensors: SensorMetrics[];
+  uptime: number;
+  noise: number | null;
+  peerMae: number | null;
+  peerR: number | null;
+  /** Share of stations reporting status 418 for this type (0–1) */
+  errorShare: number;
+}
+
+export type RankingMetric = 'peerMae' | 'peerR' | 'uptime' | 'noise' | 'errorShare';
+
+/** Metrics models can be ranked by, and whether a higher value is better */
+export const RANKING_METRICS: Record<RankingMetric, { label: string; higherIsBetter: boolean }> = {
+  peerMae: { label: 'Peer agreement (MAE)', higherIsBetter: false },
+  peerR: { label: 'Peer correlation (r)', higherIsBetter: true },
+  uptime: { label: 'Uptime', higherIsBetter: true },
+  noise: { label: 'Noise', higherIsBetter: false },
+  errorShare: { label: '418 errors', higherIsBetter: false },
+};
+
+function mean(values: Array<number | null>): number | null {
+  const present = values.filter((v): v is number => v !== null);
+  return present.length > 0 ? present.reduce((sum, v) => sum + v, 0) / present.length : null;
+}
+
+/**
+ * Share of buckets in a period with at least one reading
+ */
+export function computeUptime(timestamps: number[], since: number, until: number, bucketSeconds: number): number {
+  const first = Math.floor(since / bucketSeconds);
+  const last = Math.floor(until / bucketSeconds);
+  const total = last - first + 1;
+  if (total <= 0) return 0;
+
+  const covered = new Set(timestamps
+    .filter(ts => ts >= since && ts <= until)
+    .map(ts => Math.floor(ts / bucketSeconds)));
+
+  return covered.size / total;
+}
+
+/**
+ * Reduce a sensor's readings over the period to what the ranking needs
+ * @param bucketSeconds - Bucket size for uptime and for pairing co-located sensors
+ */
+export function summarizeSensor(
+  { sensor, readings }: SensorSeries,
+  since: number,
+  until: number,
+  bucketSeconds: number
+): SensorSummary {
+  return {
+    sensor,
+    points: resample(readings, bucketSeconds, 'mean'),
+    uptime: computeUptime(readings.map(r => r.timestamp), since, until, bucketSeconds),
+    noise: detrendedStd(readings.map(r => r.value)),
+  };
+}
+
+/**
+ * Score every sensor in the network
+ * @param summaries - Summary of each sensor over the period, on the same buckets
+ */
+export function computeSensorMetrics(summaries: SensorSummary[], stations: WeatherStation[]): SensorMetrics[] {
+  return summaries.map(({ sensor, points, uptime, noise }) => {
+    const peers = summaries.filter(other =>
+      other.sensor.pubkey === sensor.pubkey &&
+      other.sensor.sensorType === sensor.sensorType &&
+      other.sensor.sensorModel !== sensor.sensorModel
+    );
+    const agreement = peers
+      .map(peer => computeAgreement(alignPoints(peer.points, points)))
+      .filter(stats => stats !== null);
+
+    const model = stations
+      .find(s => s.pubkey === sensor.pubkey)?.sensorModels
+      .find(m => m.model === sensor.sensorModel);
+
+    return {
+      ...sensor,
+      uptime,
+      noise,
+      peerMae: mean(agreement.map(stats => stats.mae)),
+      peerR: mean(agreement.map(stats => stats.r)),
+      status: model?.statuses[sensor.sensorType],
+    };
+  });
+}
+
+/**
+ * Average the sensor metrics of each model, per type
+ */
+export function rankModels(metrics: SensorMetrics[]): ModelRanking[] {
+  const groups = new Map<string, SensorMetrics[]>();
+  metrics.forEach(m => {
+    const key = `${m.sensorType}|${m.sensorModel}`;
+    groups.set(key, [...(groups.get(key) ?? []), m]);
+  });
+
+  return [...groups.values()].map(sensors => ({
+    sensorType: sensors[0].sensorType,
+    sensorModel: sensors[0].sensorModel,
+    sensors,
+    uptime: mean(sensors.map(s => s.uptime)) ?? 0,
+    noise: mean(sensors.map(s => s.noise)),
+    peerMae: mean(sensors.map(s => s.peerMae)),
+    peerR: mean(sensors.map(s => s.peerR)),
+    errorShare: sensors.filter(s => s.status === '418').length / sensors.length,
+  }));
+}
+
+/**
+ * Order models best first by a metric; models without a value come last
+ */
+export function sortRankings(rankings: ModelRanking[], metric: RankingMetric): ModelRanking[] {
+  const direction = RANKING_METRICS[metric].higherIsBetter ? -1 : 1;
+
+  return [...rankings].sort((a, b) => {
+    const va = a[metric];
+    const vb = b[metric];
+    if (va === null || vb === null) return va === vb ? 0 : va === null ? 1 : -1;
+    return (va - vb) * direction;
+  });
+}
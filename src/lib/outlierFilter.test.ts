@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import type { NostrEvent } from '@nostrify/nostrify';
+import type { SensorReading } from '@/hooks/useSensorReadings';
+import { BUILT_IN_SENSOR_TYPES } from './sensorTypes';
+import {
+  DEFAULT_OUTLIER_RULES,
+  filterOutliers,
+  type OutlierRuleConfig,
+} from './outlierFilter';
+
+const pm1 = BUILT_IN_SENSOR_TYPES.find(def => def.type === 'pm1')!;
+
+function readings(values: number[]): SensorReading[] {
+  return values.map((value, i) => ({
+    timestamp: i * 60,
+    sensorType: 'pm1',
+    value,
+    model: 'PMS5003',
+    event: { id: String(i) } as NostrEvent,
+  }));
+}
+
+function only(strategy: OutlierRuleConfig['strategy'], params: Record<string, number> = {}): OutlierRuleConfig[] {
+  return [{ strategy, enabled: true, params }];
+}
+
+describe('percent-change', () => {
+  it('does not divide by zero readings', () => {
+    const { validReadings, outliers } = filterOutliers(readings([0, 0, 0.5, 0, 1]), 'A', only('percent-change'), pm1);
+
+    expect(outliers).toHaveLength(0);
+    expect(validReadings).toHaveLength(5);
+  });
+
+  it('compares against the last accepted reading, not the outlier', () => {
+    const { outliers } = filterOutliers(readings([10, 100, 11, 12]), 'A', only('percent-change'), pm1);
+
+    expect(outliers).toHaveLength(1);
+    expect(outliers[0]).toMatchObject({ value: 100, expected: 10, rule: 'percent-change', stationName: 'A' });
+  });
+
+  it('accepts a level shift as the new baseline', () => {
+    const { validReadings, outliers } = filterOutliers(readings([2, 2, 2, 9, 9, 9, 9, 9, 9, 9, 9, 9, 9, 9]), 'A', only('percent-change'), pm1);
+
+    expect(outliers).toHaveLength(0);
+    expect(validReadings).toHaveLength(14);
+  });
+});
+
+describe('rolling-zscore', () => {
+  it('flags readings far from the recent mean', () => {
+    const { outliers } = filterOutliers(readings([10, 11, 10, 11, 10, 50, 11]), 'A', only('rolling-zscore', { threshold: 4 }), pm1);
+
+    expect(outliers.map(o => o.value)).toEqual([50]);
+  });
+
+  it('flags a spike after a run of identical readings', () => {
+    const { outliers } = filterOutliers(readings([5, 5, 5, 5, 5, 40, 5, 5.1]), 'A', only('rolling-zscore', { threshold: 4 }), pm1);
+
+    expect(outliers.map(o => o.value)).toEqual([40]);
+  });
+
+  it('restarts the window after a level shift', () => {
+    const { outliers } = filterOutliers(readings([10, 11, 10, 11, 10, 50, 51, 50, 51, 50, 51]), 'A', only('rolling-zscore', { threshold: 4 }), pm1);
+
+    expect(outliers).toHaveLength(0);
+  });
+});
+
+describe('hampel', () => {
+  it('flags spikes relative to the surrounding median', () => {
+    const { outliers } = filterOutliers(readings([5, 6, 5, 7, 40, 6, 5, 6]), 'A', only('hampel'), pm1);
+
+    expect(outliers.map(o => o.value)).toEqual([40]);
+    expect(outliers[0].rule).toBe('hampel');
+  });
+
+  it('flags spikes in a window of identical readings', () => {
+    const { outliers } = filterOutliers(readings([5, 5, 5, 5, 40, 5, 5, 5]), 'A', only('hampel'), pm1);
+
+    expect(outliers.map(o => o.value)).toEqual([40]);
+  });
+});
+
+describe('physical-range', () => {
+  it('flags readings outside the sensor type range', () => {
+    const { outliers } = filterOutliers(readings([5, -3, 2000]), 'A', only('physical-range'), pm1);
+
+    expect(outliers.map(o => o.expected)).toEqual([0, 1000]);
+  });
+});
+
+describe('filterOutliers', () => {
+  it('skips disabled rules', () => {
+    const rules = [{ ...DEFAULT_OUTLIER_RULES[0], enabled: false }];
+
+    expect(filterOutliers(readings([5, 2000]), 'A', rules, pm1).outliers).toHaveLength(0);
+  });
+
+  it('keeps readings reviewed as real events', () => {
+    const { validReadings, outliers } = filterOutliers(
+      readings([10, 100, 11]), 'A', only('percent-change'), pm1, 'pm', { 'pm@60': 'real' }
+    );
+
+    expect(validReadings.map(r => r.value)).toEqual([10, 100, 11]);
+    expect(outliers).toHaveLength(1);
+    expect(outliers[0]).toMatchObject({ key: 'pm@60', decision: 'real' });
+  });
+
+  it('drops readings reviewed as faults even when no rule flags them', () => {
+    const { validReadings, outliers } = filterOutliers(
+      readings([10, 11, 12]), 'A', only('percent-change'), pm1, 'pm', { 'pm@120': 'fault' }
+    );
+
+    expect(validReadings.map(r => r.value)).toEqual([10, 11]);
+    expect(outliers[0]).toMatchObject({ rule: 'review', expected: 11, decision: 'fault' });
+  });
+
+  it('fills in missing thresholds with defaults', () => {
+    expect(filterOutliers(readings([10, 100]), 'A', only('percent-change'), pm1).outliers).toHaveLength(1);
+  });
+});
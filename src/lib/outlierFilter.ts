@@ -1,13 +1,29 @@
-import type { SensorReading } from '@/hooks/useSensorReadings';
+import type { SensorReading, SensorSeries } from '@/hooks/useSensorReadings';
+import type { SensorTypeDefinition } from '@/lib/sensorTypes';
+
+export type OutlierStrategyId = 'percent-change' | 'rolling-zscore' | 'hampel' | 'physical-range';
+
+/** Outcome of reviewing an outlier: a genuine event to keep, or a sensor fault to drop */
+export type OutlierDecision = 'real' | 'fault';
+
+/** Review decisions keyed by `getOutlierKey` */
+export type OutlierDecisions = Record<string, OutlierDecision>;
 
 export interface OutlierInfo {
   timestamp: number;
   value: number;
-  previousValue: number;
-  percentChange: number;
+  /** Value the rule compared against (previous reading, rolling mean, median or range bound) */
+  expected: number;
+  /** Rule that flagged the reading, or 'review' if only a review decision removes it */
+  rule: OutlierStrategyId | 'review';
+  /** Rule-specific measure of how far off the reading was, see `OutlierStrategy.describe` */
+  score: number;
   sensorType: string;
   sensorModel: string;
   stationName: string;
+  /** Key the review decision is stored under */
+  key: string;
+  decision?: OutlierDecision;
 }
 
 export interface FilteredReadings {
@@ -15,76 +31,372 @@ export interface FilteredReadings {
   outliers: OutlierInfo[];
 }
 
+export interface OutlierFlag {
+  /** Index into the readings passed to `detect` */
+  index: number;
+  expected: number;
+  score: number;
+}
+
+export interface OutlierStrategyParam {
+  key: string;
+  label: string;
+  default: number;
+  min: number;
+  step: number;
+}
+
+export interface OutlierStrategy {
+  id: OutlierStrategyId;
+  label: string;
+  description: string;
+  params: OutlierStrategyParam[];
+  /**
+   * Find outliers in a series
+   * @param readings - Readings sorted by timestamp
+   * @param params - Thresholds, keyed by `OutlierStrategyParam.key`
+   * @param definition - Registry entry for the series' sensor type
+   */
+  detect: (readings: SensorReading[], params: Record<string, number>, definition: SensorTypeDefinition) => OutlierFlag[];
+  /** Short explanation of a flag's score for display */
+  describe: (score: number) => string;
+}
+
+export interface OutlierRuleConfig {
+  strategy: OutlierStrategyId;
+  enabled: boolean;
+  params: Record<string, number>;
+}
+
+/** Rules configured per sensor type; types without an entry use `DEFAULT_OUTLIER_RULES` */
+export type OutlierRulesByType = Record<string, OutlierRuleConfig[]>;
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+/**
+ * Smallest step a sensor type reports, used as the floor of a window's
+ * spread so a spike after a run of identical readings still scores
+ */
+function resolution(definition: SensorTypeDefinition): number {
+  return 10 ** -definition.precision;
+}
+
+/**
+ * Flags jumps relative to the last accepted reading. The base is floored at
+ * `minBase` so readings near zero (common for pm1) don't divide by zero.
+ * A run of `resetAfter` flags in a row is a level shift rather than a spike,
+ * so the run is accepted and becomes the new baseline.
+ */
+const percentChange: OutlierStrategy = {
+  id: 'percent-change',
+  label: 'Percent change',
+  description: 'Change from the last accepted reading',
+  params: [
+    { key: 'threshold', label: 'Max change (%)', default: 300, min: 1, step: 10 },
+    { key: 'minBase', label: 'Min base value', default: 1, min: 0, step: 0.1 },
+    { key: 'resetAfter', label: 'Level shift after (readings)', default: 3, min: 1, step: 1 },
+  ],
+  detect: (readings, { threshold, minBase, resetAfter }) => {
+    const flags: OutlierFlag[] = [];
+    let run: OutlierFlag[] = [];
+    let previous: number | undefined;
+
+    readings.forEach((reading, index) => {
+      if (previous === undefined) {
+        previous = reading.value;
+        return;
+      }
+
+      const base = Math.max(Math.abs(previous), minBase, Number.EPSILON);
+      const change = Math.abs(reading.value - previous) / base * 100;
+
+      if (change <= threshold) {
+        flags.push(...run);
+        run = [];
+        previous = reading.value;
+      } else if (run.length + 1 >= resetAfter) {
+        run = [];
+        previous = reading.value;
+      } else {
+        run.push({ index, expected: previous, score: change });
+      }
+    });
+
+    return [...flags, ...run];
+  },
+  describe: (score) => `${score.toFixed(0)}% change`,
+};
+
+/**
+ * Flags readings far from the mean of the accepted readings before them,
+ * with the standard deviation floored at the type's resolution.
+ * A run of `resetAfter` flags in a row is accepted as a level shift and
+ * restarts the window from the run.
+ */
+const rollingZScore: OutlierStrategy = {
+  id: 'rolling-zscore',
+  label: 'Rolling z-score',
+  description: 'Standard deviations from the mean of the previous readings',
+  params: [
+    { key: 'window', label: 'Window (readings)', default: 30, min: 3, step: 1 },
+    { key: 'threshold', label: 'Max z-score', default: 4, min: 1, step: 0.5 },
+    { key: 'resetAfter', label: 'Level shift after (readings)', default: 3, min: 1, step: 1 },
+  ],
+  detect: (readings, { window, threshold, resetAfter }, definition) => {
+    const flags: OutlierFlag[] = [];
+    let run: OutlierFlag[] = [];
+    let accepted: number[] = [];
+    const minSd = resolution(definition);
+
+    readings.forEach((reading, index) => {
+      const recent = accepted.slice(-window);
+
+      if (recent.length >= 3) {
+        const mean = recent.reduce((sum, v) => sum + v, 0) / recent.length;
+        const sd = Math.sqrt(recent.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (recent.length - 1));
+        const z = Math.abs(reading.value - mean) / Math.max(sd, minSd);
+
+        if (z > threshold) {
+          if (run.length + 1 < resetAfter) {
+            run.push({ index, expected: mean, score: z });
+            return;
+          }
+          accepted = [...run.map(flag => readings[flag.index].value), reading.value];
+          run = [];
+          return;
+        }
+      }
+
+      flags.push(...run);
+      run = [];
+      accepted.push(reading.value);
+    });
+
+    return [...flags, ...run];
+  },
+  describe: (score) => `z = ${score.toFixed(1)}`,
+};
+
+/**
+ * Hampel filter: flags readings far from the median of a centred window,
+ * scaled by the median absolute deviation (floored at the type's resolution)
+ */
+const hampel: OutlierStrategy = {
+  id: 'hampel',
+  label: 'Hampel / MAD',
+  description: 'Scaled MADs from the median of the surrounding readings',
+  params: [
+    { key: 'halfWindow', label: 'Half window (readings)', default: 7, min: 1, step: 1 },
+    { key: 'threshold', label: 'Max scaled MADs', default: 3, min: 1, step: 0.5 },
+  ],
+  detect: (readings, { halfWindow, threshold }, definition) => {
+    const flags: OutlierFlag[] = [];
+    const values = readings.map(r => r.value);
+    const minMad = resolution(definition);
+
+    values.forEach((value, index) => {
+      const window = values.slice(Math.max(0, index - halfWindow), index + halfWindow + 1);
+      if (window.length < 3) return;
+
+      const windowMedian = median(window);
+      // 1.4826 makes the MAD a consistent estimate of the standard deviation
+      const mad = Math.max(1.4826 * median(window.map(v => Math.abs(v - windowMedian))), minMad);
+
+      const score = Math.abs(value - windowMedian) / mad;
+      if (score > threshold) {
+        flags.push({ index, expected: windowMedian, score });
+      }
+    });
+
+    return flags;
+  },
+  describe: (score) => `${score.toFixed(1)} MADs`,
+};
+
+/**
+ * Flags readings outside the plausible range of the sensor type
+ */
+const physicalRange: OutlierStrategy = {
+  id: 'physical-range',
+  label: 'Physical range',
+  description: "Outside the sensor type's plausible min/max",
+  params: [],
+  detect: (readings, _params, definition) => {
+    const flags: OutlierFlag[] = [];
+
+    readings.forEach((reading, index) => {
+      if (definition.min !== undefined && reading.value < definition.min) {
+        flags.push({ index, expected: definition.min, score: definition.min - reading.value });
+      } else if (definition.max !== undefined && reading.value > definition.max) {
+        flags.push({ index, expected: definition.max, score: reading.value - definition.max });
+      }
+    });
+
+    return flags;
+  },
+  describe: () => 'Out of range',
+};
+
+export const OUTLIER_STRATEGIES: Record<OutlierStrategyId, OutlierStrategy> = {
+  'physical-range': physicalRange,
+  'percent-change': percentChange,
+  'rolling-zscore': rollingZScore,
+  hampel,
+};
+
+/**
+ * Default thresholds for a strategy
+ */
+export function getDefaultParams(strategy: OutlierStrategy): Record<string, number> {
+  return Object.fromEntries(strategy.params.map(p => [p.key, p.default]));
+}
+
+function defaultRule(strategy: OutlierStrategy, enabled: boolean): OutlierRuleConfig {
+  return { strategy: strategy.id, enabled, params: getDefaultParams(strategy) };
+}
+
+/** Rules used for sensor types without their own configuration */
+export const DEFAULT_OUTLIER_RULES: OutlierRuleConfig[] = [
+  defaultRule(physicalRange, true),
+  defaultRule(percentChange, true),
+  defaultRule(rollingZScore, false),
+  defaultRule(hampel, false),
+];
+
+/**
+ * Key identifying a reading for review decisions
+ */
+export function getOutlierKey(sensorKey: string, timestamp: number): string {
+  return `${sensorKey}@${timestamp}`;
+}
+
+/**
+ * Rules that apply to a sensor type, in the order they run
+ */
+export function getOutlierRules(rulesByType: OutlierRulesByType, sensorType: string): OutlierRuleConfig[] {
+  return rulesByType[sensorType] ?? DEFAULT_OUTLIER_RULES;
+}
+
 /**
- * Filter outlier readings that deviate more than 300% from the previous value
+ * Filter outlier readings with the enabled rules
+ *
+ * Rules run in order, each on the readings the previous rules accepted, so
+ * an outlier is never used as the baseline for the next reading. Review
+ * decisions override the rules: readings marked 'real' are kept even when
+ * flagged, and readings marked 'fault' are dropped even when not.
  * @param readings - Array of sensor readings (should be sorted by timestamp)
  * @param stationName - Name of the station for outlier tracking
+ * @param rules - Rules to apply
+ * @param definition - Registry entry for the readings' sensor type
+ * @param sensorKey - Identifies the series in review decision keys
+ * @param decisions - Review decisions for the comparison
  * @returns Object containing valid readings and detected outliers
  */
 export function filterOutliers(
   readings: SensorReading[],
-  stationName: string
+  stationName: string,
+  rules: OutlierRuleConfig[],
+  definition: SensorTypeDefinition,
+  sensorKey: string = '',
+  decisions: OutlierDecisions = {}
 ): FilteredReadings {
-  if (readings.length === 0) {
-    return { validReadings: [], outliers: [] };
-  }
-
-  const validReadings: SensorReading[] = [];
+  let validReadings = readings;
   const outliers: OutlierInfo[] = [];
+  const listed = new Set<string>();
+
+  for (const rule of rules) {
+    if (!rule.enabled || validReadings.length === 0) continue;
 
-  // First reading is always valid (no previous value to compare)
-  validReadings.push(readings[0]);
+    const strategy = OUTLIER_STRATEGIES[rule.strategy];
+    const params = { ...getDefaultParams(strategy), ...rule.params };
+    const flags = strategy.detect(validReadings, params, definition);
+    if (flags.length === 0) continue;
 
-  for (let i = 1; i < readings.length; i++) {
-    const current = readings[i];
-    const previous = readings[i - 1];
+    const flagged = new Set<number>();
+    for (const flag of flags) {
+      const reading = validReadings[flag.index];
+      const key = getOutlierKey(sensorKey, reading.timestamp);
+      const decision = decisions[key];
 
-    // Calculate percentage change
-    const percentChange = Math.abs((current.value - previous.value) / previous.value) * 100;
+      // A reading kept as a real event can be flagged again by a later rule
+      if (listed.has(key)) continue;
+      listed.add(key);
 
-    // If change is more than 300%, mark as outlier
-    if (percentChange > 300) {
+      if (decision !== 'real') flagged.add(flag.index);
       outliers.push({
-        timestamp: current.timestamp,
-        value: current.value,
-        previousValue: previous.value,
-        percentChange,
-        sensorType: current.sensorType,
-        sensorModel: current.model,
+        timestamp: reading.timestamp,
+        value: reading.value,
+        expected: flag.expected,
+        rule: rule.strategy,
+        score: flag.score,
+        sensorType: reading.sensorType,
+        sensorModel: reading.model,
         stationName,
+        key,
+        decision,
       });
-    } else {
-      validReadings.push(current);
     }
+
+    validReadings = validReadings.filter((_, index) => !flagged.has(index));
   }
 
+  // Faults confirmed in review stay dropped even if the rules have changed since
+  validReadings = validReadings.filter((reading, index) => {
+    const key = getOutlierKey(sensorKey, reading.timestamp);
+    if (decisions[key] !== 'fault' || listed.has(key)) return true;
+
+    outliers.push({
+      timestamp: reading.timestamp,
+      value: reading.value,
+      expected: validReadings[index - 1]?.value ?? reading.value,
+      rule: 'review',
+      score: 0,
+      sensorType: reading.sensorType,
+      sensorModel: reading.model,
+      stationName,
+      key,
+      decision: 'fault',
+    });
+    return false;
+  });
+
   return { validReadings, outliers };
 }
 
 /**
  * Filter outliers from multiple sensor reading arrays
+ * @param getDefinition - Looks up the registry entry for a sensor type
+ * @param decisions - Review decisions for the comparison
  */
 export function filterMultipleSensorOutliers(
-  data: Array<{
-    sensor: { pubkey: string; sensorType: string; sensorModel: string };
-    readings: SensorReading[];
-  }>,
-  stationNames: Record<string, string>
+  data: SensorSeries[],
+  stationNames: Record<string, string>,
+  rulesByType: OutlierRulesByType,
+  getDefinition: (sensorType: string) => SensorTypeDefinition,
+  decisions: OutlierDecisions = {}
 ): {
-  filteredData: Array<{
-    sensor: { pubkey: string; sensorType: string; sensorModel: string };
-    readings: SensorReading[];
-  }>;
+  filteredData: SensorSeries[];
   allOutliers: OutlierInfo[];
 } {
-  const filteredData = [];
+  const filteredData: SensorSeries[] = [];
   const allOutliers: OutlierInfo[] = [];
 
   for (const item of data) {
     const sensorKey = `${item.sensor.pubkey}-${item.sensor.sensorType}-${item.sensor.sensorModel}`;
     const stationName = stationNames[sensorKey] || 'Unknown';
 
-    const { validReadings, outliers } = filterOutliers(item.readings, stationName);
+    const { validReadings, outliers } = filterOutliers(
+      item.readings,
+      stationName,
+      getOutlierRules(rulesByType, item.sensor.sensorType),
+      getDefinition(item.sensor.sensorType),
+      sensorKey,
+      decisions
+    );
 
     filteredData.push({
       sensor: item.sensor,
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { allanDeviation, characterizePrecision, detrendedStd, estimateResolution, sampleInterval } from './precision';
+
+function points(values: number[], interval = 60) {
+  return values.map((value, i) => ({ timestamp: i * interval, value }));
+}
+
+describe('sampleInterval', () => {
+  it('takes the median gap so outages are ignored', () => {
+    const timestamps = [0, 60, 120, 180, 3600, 3660];
+    expect(sampleInterval(timestamps.map(timestamp => ({ timestamp, value: 0 })))).toBe(60);
+  });
+});
+
+describe('detrendedStd', () => {
+  it('ignores a steady trend', () => {
+    expect(detrendedStd(Array.from({ length: 20 }, (_, i) => 10 + 0.3 * i))).toBeCloseTo(0);
+  });
+});
+
+describe('estimateResolution', () => {
+  it('finds the quantization step', () => {
+    expect(estimateResolution([20, 20.5, 21, 20.5, 22])).toBe(0.5);
+    expect(estimateResolution([3, 3, 3])).toBeNull();
+  });
+});
+
+describe('allanDeviation', () => {
+  it('falls when averaging cancels alternating noise', () => {
+    // ±1 around a constant: 1-slot means differ by 2, 2-slot means not at all
+    const allan = allanDeviation(points(Array.from({ length: 64 }, (_, i) => (i % 2 ? 1 : -1))), 60);
+
+    expect(allan[0]).toMatchObject({ tau: 60, deviation: Math.SQRT2 });
+    expect(allan[1]).toMatchObject({ tau: 120, deviation: 0 });
+  });
+
+  it('skips windows that span a gap', () => {
+    const series = [...points(Array(10).fill(5)), ...points(Array(10).fill(9)).map(p => ({ ...p, timestamp: p.timestamp + 3600 }))];
+    expect(allanDeviation(series, 60)[0].deviation).toBe(0);
+  });
+});
+
+describe('characterizePrecision', () => {
+  it('picks the averaging time with the lowest deviation', () => {
+    const stats = characterizePrecision(points(Array.from({ length: 64 }, (_, i) => (i % 2 ? 1 : -1))));
+
+    expect(stats.interval).toBe(60);
+    expect(stats.bestTau).toBe(120);
+    expect(stats.resolution).toBe(2);
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Noise and precision of a sensor from its raw readings
+ *
+ * The Allan deviation at averaging time τ is the typical change between
+ * consecutive τ-long means. It falls while averaging removes noise and rises
+ * again once drift dominates, so its minimum is the best averaging interval.
+ */
+
+import type { TimeValuePoint } from '@/lib/resample';
+
+export interface AllanPoint {
+  /** Averaging time in seconds */
+  tau: number;
+  /** Allan deviation, in the sensor's units */
+  deviation: number;
+  /** Number of adjacent window pairs it was estimated from */
+  count: number;
+}
+
+export interface PrecisionStats {
+  /** Number of readings */
+  count: number;
+  /** Typical time between readings in seconds */
+  interval: number;
+  /** Standard deviation of the readings once local trends are removed */
+  noise: number | null;
+  /** Smallest step between distinct values */
+  resolution: number | null;
+  allan: AllanPoint[];
+  /** Averaging time with the lowest Allan deviation */
+  bestTau: number | null;
+}
+
+/** Fewest window pairs an Allan deviation is estimated from */
+const MIN_ALLAN_PAIRS = 5;
+
+/** Largest grid the readings are laid on; longer ranges use a coarser base interval */
+const MAX_GRID_LENGTH = 200_000;
+
+/** Steps smaller than this are floating-point noise, not resolution */
+const MIN_STEP = 1e-9;
+
+/**
+ * Median time between consecutive readings, in whole seconds
+ * @param points - Points sorted by timestamp
+ */
+export function sampleInterval(points: TimeValuePoint[]): number {
+  const gaps = points.slice(1)
+    .map((point, i) => point.timestamp - points[i].timestamp)
+    .filter(gap => gap > 0)
+    .sort((a, b) => a - b);
+  if (gaps.length === 0) return 1;
+  return Math.max(1, Math.round(gaps[Math.floor(gaps.length / 2)]));
+}
+
+/**
+ * Noise around the local trend
+ *
+ * Each reading is compared with the mean of its neighbours, which cancels
+ * offsets and linear trends. For white noise the residuals have 1.5 times
+ * the variance of the noise, which is scaled out.
+ * @returns Null with fewer than three readings
+ */
+export function detrendedStd(values: number[]): number | null {
+  if (values.length < 3) return null;
+
+  let sumSq = 0;
+  for (let i = 1; i < values.length - 1; i++) {
+    sumSq += (values[i] - (values[i - 1] + values[i + 1]) / 2) ** 2;
+  }
+  return Math.sqrt(sumSq / (values.length - 2) / 1.5);
+}
+
+/**
+ * Smallest difference between two distinct values
+ * @returns Null when every value is the same
+ */
+export function estimateResolution(values: number[]): number | null {
+  const distinct = [...new Set(values)].sort((a, b) => a - b);
+  let resolution: number | null = null;
+
+  for (let i = 1; i < distinct.length; i++) {
+    const step = distinct[i] - distinct[i - 1];
+    if (step > MIN_STEP && (resolution === null || step < resolution)) resolution = step;
+  }
+
+  return resolution;
+}
+
+/**
+ * Overlapping Allan deviation at averaging times of 1, 2, 4, … base intervals
+ *
+ * Readings are averaged onto a grid of `tau0` second slots; windows that
+ * contain an empty slot are skipped, so gaps don't count as changes.
+ * @param points - Points sorted by timestamp
+ */
+export function allanDeviation(points: TimeValuePoint[], tau0: number): AllanPoint[] {
+  if (points.length < 2) return [];
+
+  const start = points[0].timestamp;
+  const length = Math.round((points[points.length - 1].timestamp - start) / tau0) + 1;
+
+  const sums = new Array<number>(length).fill(0);
+  const counts = new Array<number>(length).fill(0);
+  for (const point of points) {
+    const slot = Math.round((point.timestamp - start) / tau0);
+    sums[slot] += point.value;
+    counts[slot]++;
+  }
+
+  // Prefix sums of slot means and of filled slots, for O(1) window means
+  const valueSums = [0];
+  const filled = [0];
+  for (let i = 0; i < length; i++) {
+    valueSums.push(valueSums[i] + (counts[i] > 0 ? sums[i] / counts[i] : 0));
+    filled.push(filled[i] + (counts[i] > 0 ? 1 : 0));
+  }
+
+  const result: AllanPoint[] = [];
+
+  for (let m = 1; 2 * m <= length; m *= 2) {
+    let sumSq = 0;
+    let pairs = 0;
+
+    for (let j = 0; j + 2 * m <= length; j++) {
+      if (filled[j + 2 * m] - filled[j] !== 2 * m) continue;
+      const first = (valueSums[j + m] - valueSums[j]) / m;
+      const second = (valueSums[j + 2 * m] - valueSums[j + m]) / m;
+      sumSq += (second - first) ** 2;
+      pairs++;
+    }
+
+    if (pairs < MIN_ALLAN_PAIRS) break;
+    result.push({ tau: m * tau0, deviation: Math.sqrt(sumSq / (2 * pairs)), count: pairs });
+  }
+
+  return result;
+}
+
+/**
+ * Noise, resolution and Allan deviation of a series
+ * @param points - Points sorted by timestamp
+ */
+export function characterizePrecision(points: TimeValuePoint[]): PrecisionStats {
+  const values = points.map(p => p.value);
+  const span = points.length > 1 ? points[points.length - 1].timestamp - points[0].timestamp : 0;
+  const interval = Math.max(sampleInterval(points), Math.ceil(span / MAX_GRID_LENGTH));
+  const allan = allanDeviation(points, interval);
+
+  // The lowest point; ties go to the shortest averaging time, so a flat tail doesn't push it longer
+  const best = allan.reduce<AllanPoint | null>((min, p) => !min || p.deviation < min.deviation ? p : min, null);
+
+  return {
+    count: points.length,
+    interval,
+    noise: detrendedStd(values),
+    resolution: estimateResolution(values),
+    allan,
+    bestTau: best?.tau ?? null,
+  };
+}
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import type { NostrEvent } from '@nostrify/nostrify';
+import type { SensorReading } from '@/hooks/useSensorReadings';
+import { BUILT_IN_SENSOR_TYPES } from './sensorTypes';
+import { getBucketFlags, runQualityControl, summarizeQualityControl } from './qualityControl';
+
+const temp = BUILT_IN_SENSOR_TYPES.find(def => def.type === 'temp')!;
+const light = BUILT_IN_SENSOR_TYPES.find(def => def.type === 'light')!;
+
+function readings(points: Array<[number, number]>): SensorReading[] {
+  return points.map(([timestamp, value], i) => ({
+    timestamp,
+    sensorType: 'temp',
+    value,
+    model: 'BME280',
+    event: { id: String(i) } as NostrEvent,
+  }));
+}
+
+/** One reading a minute */
+function everyMinute(values: number[]) {
+  return readings(values.map((value, i) => [i * 60, value]));
+}
+
+describe('runQualityControl', () => {
+  it('passes normal readings', () => {
+    const results = runQualityControl(everyMinute([20, 20.1, 20.3, 20.2]), temp);
+
+    expect(results.every(r => r.flag === 'good')).toBe(true);
+  });
+
+  it('marks out-of-range readings bad', () => {
+    const [result] = runQualityControl(everyMinute([85]), temp);
+
+    expect(result).toEqual({ flag: 'bad', checks: ['range'] });
+  });
+
+  it('marks large steps suspect', () => {
+    const results = runQualityControl(everyMinute([20, 20.5, 55]), temp);
+
+    expect(results[2]).toEqual({ flag: 'suspect', checks: ['step'] });
+  });
+
+  it('marks repeated values suspect and long flatlines bad', () => {
+    const repeated = runQualityControl(everyMinute([20, 20, 20, 20, 20, 21]), temp);
+    expect(repeated.slice(0, 5).every(r => r.flag === 'suspect' && r.checks.includes('repeated'))).toBe(true);
+    expect(repeated[5].flag).toBe('good');
+
+    const flatline = runQualityControl(readings([[0, 0], [2 * 3600, 0], [4 * 3600, 0]]), temp);
+    expect(flatline.every(r => r.flag === 'bad' && r.checks.includes('flatline'))).toBe(true);
+  });
+
+  it('allows long runs at the resting value', () => {
+    // Every ten minutes for four hours
+    const held = (value: number) => readings(Array.from({ length: 25 }, (_, i) => [i * 600, value]));
+
+    expect(runQualityControl(held(0), light).every(r => r.flag === 'good')).toBe(true);
+    expect(runQualityControl(held(500), light).every(r => r.flag === 'bad')).toBe(true);
+  });
+
+  it('marks readings just after a gap as warming up', () => {
+    const results = runQualityControl(readings([[0, 20], [3600, 20.5], [3900, 20.6], [4500, 20.7]]), temp);
+
+    expect(results.map(r => r.flag)).toEqual(['good', 'suspect', 'suspect', 'good']);
+    expect(results[1].checks).toEqual(['warmup']);
+  });
+});
+
+describe('summarizeQualityControl', () => {
+  it('reports the share of good readings', () => {
+    const summary = summarizeQualityControl([
+      { flag: 'good', checks: [] },
+      { flag: 'good', checks: [] },
+      { flag: 'suspect', checks: ['step'] },
+      { flag: 'bad', checks: ['range'] },
+    ]);
+
+    expect(summary).toEqual({ good: 2, suspect: 1, bad: 1, goodPercent: 50 });
+  });
+});
+
+describe('getBucketFlags', () => {
+  it('keeps the worst flag per bucket', () => {
+    const series = everyMinute([20, 21, 22, 23]);
+    const flags = getBucketFlags(series, [
+      { flag: 'suspect', checks: ['step'] },
+      { flag: 'bad', checks: ['range'] },
+      { flag: 'suspect', checks: ['step'] },
+      { flag: 'good', checks: [] },
+    ], 120);
+
+    expect(flags).toEqual({ 0: 'bad', 120: 'suspect' });
+  });
+});
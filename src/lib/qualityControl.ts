@@ -0,0 +1,149 @@
+/**
+ * Quality-control checks that flag each reading of a series
+ *
+ * Unlike outlier rules, QC doesn't remove readings. It marks the ones that
+ * look like sensor faults (frozen values, reboots, implausible jumps) so
+ * they can be shown and counted.
+ */
+
+import type { SensorReading } from '@/hooks/useSensorReadings';
+import type { SensorTypeDefinition } from '@/lib/sensorTypes';
+
+export type QCFlag = 'good' | 'suspect' | 'bad';
+
+export type QCCheck = 'range' | 'step' | 'flatline' | 'repeated' | 'warmup';
+
+export interface QCResult {
+  flag: QCFlag;
+  /** Checks that failed for this reading */
+  checks: QCCheck[];
+}
+
+export interface QCOptions {
+  /** Largest plausible change between consecutive readings, as a fraction of the type's min–max range */
+  maxStepFraction: number;
+  /** A value held unchanged for this long is a frozen sensor */
+  flatlineSeconds: number;
+  /** This many identical consecutive values are suspect */
+  repeatCount: number;
+  /** A pause longer than this is treated as a restart */
+  gapSeconds: number;
+  /** Readings this soon after a restart are suspect while the sensor warms up */
+  warmupSeconds: number;
+}
+
+export const DEFAULT_QC_OPTIONS: QCOptions = {
+  maxStepFraction: 0.25,
+  flatlineSeconds: 3 * 60 * 60,
+  repeatCount: 5,
+  gapSeconds: 30 * 60,
+  warmupSeconds: 10 * 60,
+};
+
+/** Checks that mark a reading bad rather than suspect */
+const BAD_CHECKS: QCCheck[] = ['range', 'flatline'];
+
+export const QC_CHECK_LABELS: Record<QCCheck, string> = {
+  range: 'Out of range',
+  step: 'Step change',
+  flatline: 'Flatline',
+  repeated: 'Repeated value',
+  warmup: 'Warm-up after gap',
+};
+
+/**
+ * Run every check over a series
+ * @param readings - Readings sorted by timestamp
+ * @param definition - Registry entry for the series' sensor type
+ * @returns One result per reading, in the same order
+ */
+export function runQualityControl(
+  readings: SensorReading[],
+  definition: SensorTypeDefinition,
+  options: QCOptions = DEFAULT_QC_OPTIONS
+): QCResult[] {
+  const checks = readings.map(() => new Set<QCCheck>());
+  const { min, max } = definition;
+  const maxStep = min !== undefined && max !== undefined ? (max - min) * options.maxStepFraction : undefined;
+
+  let restartAt: number | undefined;
+
+  readings.forEach((reading, i) => {
+    if ((min !== undefined && reading.value < min) || (max !== undefined && reading.value > max)) {
+      checks[i].add('range');
+    }
+
+    const previous = readings[i - 1];
+    if (!previous) return;
+
+    if (reading.timestamp - previous.timestamp > options.gapSeconds) {
+      restartAt = reading.timestamp;
+    }
+    if (restartAt !== undefined && reading.timestamp - restartAt < options.warmupSeconds) {
+      checks[i].add('warmup');
+    }
+
+    if (maxStep !== undefined && Math.abs(reading.value - previous.value) > maxStep) {
+      checks[i].add('step');
+    }
+  });
+
+  // Runs of identical values: suspect once long enough, bad once held too long.
+  // Runs at the type's resting value (no light at night, clean air) are normal.
+  let runStart = 0;
+  for (let i = 1; i <= readings.length; i++) {
+    if (i < readings.length && readings[i].value === readings[runStart].value) continue;
+    if (readings[runStart].value === definition.restValue) {
+      runStart = i;
+      continue;
+    }
+
+    const runLength = i - runStart;
+    const duration = readings[i - 1].timestamp - readings[runStart].timestamp;
+    for (let j = runStart; j < i; j++) {
+      if (duration >= options.flatlineSeconds) checks[j].add('flatline');
+      if (runLength >= options.repeatCount) checks[j].add('repeated');
+    }
+    runStart = i;
+  }
+
+  return checks.map(set => {
+    const failed = [...set];
+    const flag: QCFlag = failed.some(c => BAD_CHECKS.includes(c)) ? 'bad' : failed.length > 0 ? 'suspect' : 'good';
+    return { flag, checks: failed };
+  });
+}
+
+/**
+ * Count readings by flag
+ */
+export function summarizeQualityControl(results: QCResult[]): Record<QCFlag, number> & { goodPercent: number } {
+  const counts = { good: 0, suspect: 0, bad: 0 };
+  results.forEach(result => counts[result.flag]++);
+  return {
+    ...counts,
+    goodPercent: results.length > 0 ? (counts.good / results.length) * 100 : 0,
+  };
+}
+
+/**
+ * Worst flag within each resampling bucket, for bucket-level charts
+ * @returns Flags keyed by bucket start; buckets with only good readings are left out
+ */
+export function getBucketFlags(
+  readings: SensorReading[],
+  results: QCResult[],
+  bucketSeconds: number
+): Record<number, QCFlag> {
+  const flags: Record<number, QCFlag> = {};
+
+  readings.forEach((reading, i) => {
+    const flag = results[i]?.flag;
+    if (!flag || flag === 'good') return;
+
+    const bucket = Math.floor(reading.timestamp / bucketSeconds) * bucketSeconds;
+    if (flags[bucket] !== 'bad') flags[bucket] = flag;
+  });
+
+  return flags;
+}
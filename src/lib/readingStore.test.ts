@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { planSync } from './readingStore';
+
+const NOW = 1_700_000_000;
+
+describe('planSync', () => {
+  it('fetches the whole range when nothing is cached', () => {
+    const { missing, next } = planSync(undefined, NOW - 3600, NOW, NOW);
+
+    expect(missing).toEqual([{ since: NOW - 3600, until: NOW }]);
+    expect(next).toEqual({ oldest: NOW - 3600, newest: NOW - 300 });
+  });
+
+  it('only fetches readings newer than the cached range', () => {
+    const synced = { oldest: NOW - 86400, newest: NOW - 600 };
+    const { missing, next } = planSync(synced, NOW - 3600, NOW, NOW);
+
+    expect(missing).toEqual([{ since: NOW - 599, until: NOW }]);
+    expect(next).toEqual({ oldest: NOW - 86400, newest: NOW - 300 });
+  });
+
+  it('extends the cached range backwards for longer ranges', () => {
+    const synced = { oldest: NOW - 86400, newest: NOW - 300 };
+    const { missing, next } = planSync(synced, NOW - 7 * 86400, NOW, NOW);
+
+    expect(missing).toEqual([
+      { since: NOW - 7 * 86400, until: NOW - 86401 },
+      { since: NOW - 299, until: NOW },
+    ]);
+    expect(next).toEqual({ oldest: NOW - 7 * 86400, newest: NOW - 300 });
+  });
+
+  it('refetches when the requested range does not touch the cached one', () => {
+    const synced = { oldest: NOW - 3600, newest: NOW - 300 };
+    const { missing, next } = planSync(synced, NOW - 30 * 86400, NOW - 29 * 86400, NOW);
+
+    expect(missing).toEqual([{ since: NOW - 30 * 86400, until: NOW - 29 * 86400 }]);
+    expect(next).toEqual({ oldest: NOW - 30 * 86400, newest: NOW - 29 * 86400 });
+  });
+});
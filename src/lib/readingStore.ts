@@ -0,0 +1,203 @@
+import { openDB, type IDBPDatabase } from 'idb';
+import type { SensorReading } from '@/hooks/useSensorReadings';
+import { SCHEMA_VERSION } from '@/lib/weatherEvents';
+
+// ============================================================================
+// IndexedDB Schema
+// ============================================================================
+
+// Use domain-based naming to avoid conflicts between apps on same domain
+const getDBName = () => {
+  const hostname = typeof window !== 'undefined' ? window.location.hostname : 'default';
+  return `weather-reading-store-${hostname}`;
+};
+const DB_NAME = getDBName();
+// Tied to the event schema so readings parsed with older rules are dropped
+const DB_VERSION = SCHEMA_VERSION;
+const READINGS_STORE = 'readings';
+const SYNC_STORE = 'sync';
+
+/** A parsed reading, flattened so it can be keyed by [pubkey, sensorType, model, timestamp] */
+interface StoredReading extends SensorReading {
+  pubkey: string;
+}
+
+/** Contiguous time range (inclusive, unix seconds) that has been fetched for a station from a set of relays */
+export interface SyncedRange {
+  oldest: number;
+  newest: number;
+}
+
+// ============================================================================
+// Database Operations
+// ============================================================================
+
+/**
+ * Open the IndexedDB database
+ */
+async function openDatabase(): Promise<IDBPDatabase> {
+  return openDB(DB_NAME, DB_VERSION, {
+    upgrade(db, _oldVersion, _newVersion, transaction) {
+      if (!db.objectStoreNames.contains(READINGS_STORE)) {
+        db.createObjectStore(READINGS_STORE, {
+          keyPath: ['pubkey', 'sensorType', 'model', 'timestamp'],
+        });
+      } else {
+        transaction.objectStore(READINGS_STORE).clear();
+      }
+      if (!db.objectStoreNames.contains(SYNC_STORE)) {
+        db.createObjectStore(SYNC_STORE);
+      } else {
+        transaction.objectStore(SYNC_STORE).clear();
+      }
+    },
+  });
+}
+
+/**
+ * Write parsed readings to IndexedDB
+ */
+export async function writeReadingsToDB(readings: SensorReading[]): Promise<void> {
+  try {
+    const db = await openDatabase();
+    const tx = db.transaction(READINGS_STORE, 'readwrite');
+    await Promise.all([
+      ...readings.map(reading => {
+        const stored: StoredReading = { ...reading, pubkey: reading.event.pubkey };
+        return tx.store.put(stored);
+      }),
+      tx.done,
+    ]);
+  } catch (error) {
+    console.error('[ReadingStore] Error writing to IndexedDB:', error);
+    throw error;
+  }
+}
+
+/**
+ * Read readings for one sensor within a time range, sorted by timestamp
+ */
+export async function readReadingsFromDB(
+  pubkey: string,
+  sensorType: string,
+  model: string,
+  since: number,
+  until: number
+): Promise<SensorReading[]> {
+  try {
+    const db = await openDatabase();
+    const range = IDBKeyRange.bound(
+      [pubkey, sensorType, model, since],
+      [pubkey, sensorType, model, until]
+    );
+    const stored = await db.getAll(READINGS_STORE, range) as StoredReading[];
+
+    return stored.map(({ pubkey: _pubkey, ...reading }) => reading);
+  } catch (error) {
+    console.error('[ReadingStore] Error reading from IndexedDB:', error);
+    throw error;
+  }
+}
+
+/**
+ * Read the distinct timestamps of a station's cached readings within a time
+ * range, sorted. Readings from one event share its timestamp, so these are
+ * the times of its events.
+ */
+export async function readStationTimestampsFromDB(
+  pubkey: string,
+  since: number,
+  until: number
+): Promise<number[]> {
+  try {
+    const db = await openDatabase();
+    // Arrays sort after strings, so this spans every sensor of the station
+    const range = IDBKeyRange.bound([pubkey], [pubkey, []]);
+    const keys = await db.getAllKeys(READINGS_STORE, range) as Array<[string, string, string, number]>;
+
+    const timestamps = new Set(keys.map(key => key[3]).filter(ts => ts >= since && ts <= until));
+    return [...timestamps].sort((a, b) => a - b);
+  } catch (error) {
+    console.error('[ReadingStore] Error reading from IndexedDB:', error);
+    throw error;
+  }
+}
+
+/**
+ * Key of a station's sync state. A range fetched from some relays says
+ * nothing about what other relays hold, so each relay set is tracked apart.
+ */
+function getSyncKey(pubkey: string, relays: string[]): [string, string] {
+  return [pubkey, [...relays].sort().join(',')];
+}
+
+/**
+ * Read the range of time already fetched for a station from a set of relays
+ */
+export async function readSyncedRange(pubkey: string, relays: string[]): Promise<SyncedRange | undefined> {
+  try {
+    const db = await openDatabase();
+    return await db.get(SYNC_STORE, getSyncKey(pubkey, relays)) as SyncedRange | undefined;
+  } catch (error) {
+    console.error('[ReadingStore] Error reading sync state:', error);
+    throw error;
+  }
+}
+
+/**
+ * Record the range of time fetched for a station from a set of relays
+ */
+export async function writeSyncedRange(pubkey: string, relays: string[], range: SyncedRange): Promise<void> {
+  try {
+    const db = await openDatabase();
+    await db.put(SYNC_STORE, range, getSyncKey(pubkey, relays));
+  } catch (error) {
+    console.error('[ReadingStore] Error writing sync state:', error);
+    throw error;
+  }
+}
+
+// ============================================================================
+// Incremental Sync
+// ============================================================================
+
+/** Data this recent is refetched on every sync in case late events arrive */
+const SYNC_OVERLAP_SECONDS = 5 * 60;
+
+/**
+ * Work out which parts of a requested range still need fetching from relays
+ * @param synced - Range already fetched for the station, if any
+ * @param since - Start of the requested range
+ * @param until - End of the requested range
+ * @param now - Current unix time in seconds
+ * @returns The ranges to fetch, and the synced range to record once they are fetched
+ */
+export function planSync(
+  synced: SyncedRange | undefined,
+  since: number,
+  until: number,
+  now: number = Math.floor(Date.now() / 1000)
+): { missing: Array<{ since: number; until: number }>; next: SyncedRange } {
+  const next = { oldest: since, newest: Math.min(until, now - SYNC_OVERLAP_SECONDS) };
+
+  // Nothing cached, or the cached range doesn't touch this one
+  if (!synced || until < synced.oldest || since > synced.newest) {
+    return { missing: [{ since, until }], next };
+  }
+
+  const missing: Array<{ since: number; until: number }> = [];
+  if (since < synced.oldest) {
+    missing.push({ since, until: synced.oldest - 1 });
+  }
+  if (until > synced.newest) {
+    missing.push({ since: synced.newest + 1, until });
+  }
+
+  return {
+    missing,
+    next: {
+      oldest: Math.min(since, synced.oldest),
+      newest: Math.max(next.newest, synced.newest),
+    },
+  };
+}
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { computeReliability, formatDuration } from './reliability';
+
+describe('computeReliability', () => {
+  it('finds the interval, missed publishes and outages', () => {
+    // Every minute for an hour, with a 10-minute outage from 20 to 30
+    const timestamps = Array.from({ length: 60 }, (_, i) => i * 60).filter(ts => ts <= 1200 || ts >= 1800);
+    const reliability = computeReliability(timestamps, 0, 3540);
+
+    expect(reliability.interval).toBe(60);
+    expect(reliability.events).toBe(51);
+    expect(reliability.missedPercent).toBeCloseTo((9 / 60) * 100);
+    expect(reliability.longestOutage).toBe(600);
+    expect(reliability.jitter).toBe(0);
+    expect(reliability.restarts).toBe(1);
+  });
+
+  it('counts silence at the ends of the period', () => {
+    const reliability = computeReliability([3600, 3660, 3720], 0, 7200);
+
+    expect(reliability.longestOutage).toBe(3600);
+    expect(reliability.missedPercent).toBeCloseTo((118 / 121) * 100);
+  });
+
+  it('measures jitter of on-schedule gaps', () => {
+    expect(computeReliability([0, 55, 120, 175, 240], 0, 240).jitter).toBe(5);
+  });
+
+  it('handles stations with too few events', () => {
+    expect(computeReliability([], 0, 100)).toMatchObject({ events: 0, interval: null, longestOutage: 100 });
+  });
+});
+
+describe('formatDuration', () => {
+  it('picks a readable unit', () => {
+    expect(formatDuration(45)).toBe('45 s');
+    expect(formatDuration(600)).toBe('10 min');
+    expect(formatDuration(5400)).toBe('1.5 h');
+    expect(formatDuration(2 * 86400)).toBe('2 d');
+  });
+});
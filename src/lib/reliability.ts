@@ -0,0 +1,85 @@
+/**
+ * Reporting reliability of a station from the timestamps of its reading events
+ */
+
+export type ReliabilityPeriod = '24h' | '7d' | '30d';
+
+/** Periods reliability can be computed over */
+export const RELIABILITY_PERIODS: Record<ReliabilityPeriod, { tab: string; seconds: number }> = {
+  '24h': { tab: '24H', seconds: 24 * 60 * 60 },
+  '7d': { tab: '7D', seconds: 7 * 24 * 60 * 60 },
+  '30d': { tab: '30D', seconds: 30 * 24 * 60 * 60 },
+};
+
+/** A gap this many intervals long is an outage, taken as a restart */
+const OUTAGE_INTERVALS = 3;
+
+/** Gaps up to this many intervals long count as on schedule for jitter */
+const ON_TIME_INTERVALS = 1.5;
+
+export interface StationReliability {
+  /** Number of events in the period */
+  events: number;
+  /** Expected publish interval (median gap) in seconds, or null with fewer than two events */
+  interval: number | null;
+  /** Share of expected publishes that never arrived (0–100) */
+  missedPercent: number | null;
+  /** Longest time without an event in seconds, including the ends of the period */
+  longestOutage: number;
+  /** Standard deviation of on-schedule gaps from the interval, in seconds */
+  jitter: number | null;
+  /** Outages longer than three intervals */
+  restarts: number;
+}
+
+/**
+ * Reliability of a station over a period
+ * @param timestamps - Event timestamps, in any order
+ */
+export function computeReliability(timestamps: number[], since: number, until: number): StationReliability {
+  const sorted = [...new Set(timestamps)]
+    .filter(ts => ts >= since && ts <= until)
+    .sort((a, b) => a - b);
+
+  if (sorted.length < 2) {
+    const gap = sorted.length === 1 ? Math.max(sorted[0] - since, until - sorted[0]) : until - since;
+    return { events: sorted.length, interval: null, missedPercent: null, longestOutage: gap, jitter: null, restarts: 0 };
+  }
+
+  const gaps = sorted.slice(1).map((ts, i) => ts - sorted[i]);
+  const ordered = [...gaps].sort((a, b) => a - b);
+  const mid = Math.floor(ordered.length / 2);
+  const median = ordered.length % 2 === 0 ? (ordered[mid - 1] + ordered[mid]) / 2 : ordered[mid];
+  const interval = Math.max(1, Math.round(median));
+
+  const lead = sorted[0] - since;
+  const tail = until - sorted[sorted.length - 1];
+
+  const missed = gaps.reduce((sum, gap) => sum + Math.max(0, Math.round(gap / interval) - 1), 0)
+    + Math.floor(lead / interval)
+    + Math.floor(tail / interval);
+
+  const onTime = gaps.filter(gap => gap <= interval * ON_TIME_INTERVALS);
+  const jitter = onTime.length > 0
+    ? Math.sqrt(onTime.reduce((sum, gap) => sum + (gap - interval) ** 2, 0) / onTime.length)
+    : null;
+
+  return {
+    events: sorted.length,
+    interval,
+    missedPercent: (missed / (sorted.length + missed)) * 100,
+    longestOutage: Math.max(lead, tail, ...gaps),
+    jitter,
+    restarts: gaps.filter(gap => gap > interval * OUTAGE_INTERVALS).length,
+  };
+}
+
+/**
+ * Format a duration for display (e.g. '45 s', '12 min', '3.5 h', '2.1 d')
+ */
+export function formatDuration(seconds: number): string {
+  if (seconds < 60) return `${Math.round(seconds)} s`;
+  if (seconds < 3600) return `${Math.round(seconds / 60)} min`;
+  if (seconds < 86400) return `${Number((seconds / 3600).toFixed(1))} h`;
+  return `${Number((seconds / 86400).toFixed(1))} d`;
+}
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { chooseBucketSeconds, resample } from './resample';
+
+const points = [
+  { timestamp: 0, value: 4 },
+  { timestamp: 20, value: 1 },
+  { timestamp: 40, value: 10 },
+  { timestamp: 50, value: 3 },
+  { timestamp: 130, value: 7 },
+];
+
+describe('resample', () => {
+  it('aligns buckets to multiples of the bucket size', () => {
+    const resampled = resample([{ timestamp: 95, value: 1 }, { timestamp: 125, value: 2 }], 60, 'mean');
+
+    expect(resampled.map(p => p.timestamp)).toEqual([60, 120]);
+  });
+
+  it('skips empty buckets', () => {
+    expect(resample(points, 60, 'mean').map(p => p.timestamp)).toEqual([0, 120]);
+  });
+
+  it('aggregates each bucket', () => {
+    const first = (aggregation: Parameters<typeof resample>[2]) => resample(points, 60, aggregation)[0].value;
+
+    expect(first('mean')).toBe(4.5);
+    expect(first('median')).toBe(3.5);
+    expect(first('min')).toBe(1);
+    expect(first('max')).toBe(10);
+    expect(first('last')).toBe(3);
+  });
+
+  it('keeps the bucket envelope and count', () => {
+    const [bucket] = resample(points, 60, 'last');
+
+    expect(bucket).toMatchObject({ min: 1, max: 10, count: 4 });
+  });
+});
+
+describe('chooseBucketSeconds', () => {
+  it('picks the smallest interval that fits the target', () => {
+    expect(chooseBucketSeconds(0, 3600, 500)).toBe(60);
+    expect(chooseBucketSeconds(0, 24 * 3600, 500)).toBe(300);
+  });
+
+  it('falls back to the largest interval for very long ranges', () => {
+    expect(chooseBucketSeconds(0, 10 * 365 * 24 * 3600, 500)).toBe(24 * 3600);
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Time-series resampling onto a common grid
+ */
+
+import type { SensorSeries } from '@/hooks/useSensorReadings';
+
+export interface TimeValuePoint {
+  timestamp: number;
+  value: number;
+}
+
+export type Aggregation = 'mean' | 'min' | 'max' | 'median' | 'last';
+
+/** Aggregations users can pick, with display labels */
+export const AGGREGATIONS: Record<Aggregation, string> = {
+  mean: 'Mean',
+  median: 'Median',
+  min: 'Min',
+  max: 'Max',
+  last: 'Last',
+};
+
+export const DEFAULT_AGGREGATION: Aggregation = 'mean';
+
+/** Default number of buckets a chart's range is split into */
+export const DEFAULT_TARGET_POINTS = 500;
+
+/** Bucket sizes the grid snaps to, in seconds */
+const BUCKET_INTERVALS = [
+  60, 120, 300, 600, 900, 1800,
+  3600, 2 * 3600, 3 * 3600, 6 * 3600, 12 * 3600, 24 * 3600,
+];
+
+export interface ResampledPoint {
+  /** Start of the bucket */
+  timestamp: number;
+  /** Aggregated value of the readings in the bucket */
+  value: number;
+  /** Lowest reading in the bucket */
+  min: number;
+  /** Highest reading in the bucket */
+  max: number;
+  /** Number of readings in the bucket */
+  count: number;
+}
+
+/**
+ * Pick the smallest round bucket size that fits a time range into at most
+ * `targetPoints` buckets
+ */
+export function chooseBucketSeconds(since: number, until: number, targetPoints: number): number {
+  const span = Math.max(until - since, 1);
+  return BUCKET_INTERVALS.find(interval => span / interval <= targetPoints)
+    ?? BUCKET_INTERVALS[BUCKET_INTERVALS.length - 1];
+}
+
+/**
+ * Aggregate the values of one bucket
+ * @param values - Values in timestamp order
+ */
+function aggregate(values: number[], aggregation: Aggregation): number {
+  switch (aggregation) {
+    case 'min':
+      return Math.min(...values);
+    case 'max':
+      return Math.max(...values);
+    case 'last':
+      return values[values.length - 1];
+    case 'median': {
+      const sorted = [...values].sort((a, b) => a - b);
+      const mid = Math.floor(sorted.length / 2);
+      return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+    }
+    case 'mean':
+      return values.reduce((sum, v) => sum + v, 0) / values.length;
+  }
+}
+
+/**
+ * Resample a series onto a fixed grid of buckets
+ *
+ * Buckets are aligned to multiples of `bucketSeconds`, so every series
+ * resampled with the same bucket size lines up exactly. Empty buckets are
+ * left out rather than filled.
+ * @param points - Points sorted by timestamp
+ * @param bucketSeconds - Width of each bucket
+ * @param aggregation - How the readings in a bucket are combined
+ * @returns One point per non-empty bucket, sorted by timestamp
+ */
+export function resample(
+  points: TimeValuePoint[],
+  bucketSeconds: number,
+  aggregation: Aggregation
+): ResampledPoint[] {
+  const buckets = new Map<number, number[]>();
+
+  for (const point of points) {
+    const start = Math.floor(point.timestamp / bucketSeconds) * bucketSeconds;
+    const values = buckets.get(start);
+    if (values) {
+      values.push(point.value);
+    } else {
+      buckets.set(start, [point.value]);
+    }
+  }
+
+  return [...buckets.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([timestamp, values]) => ({
+      timestamp,
+      value: aggregate(values, aggregation),
+      min: Math.min(...values),
+      max: Math.max(...values),
+      count: values.length,
+    }));
+}
+
+export interface ResampledSeries {
+  sensor: SensorSeries['sensor'];
+  points: ResampledPoint[];
+}
+
+/**
+ * Format a bucket size for display (e.g. '5 min', '1 h')
+ */
+export function formatBucketSeconds(seconds: number): string {
+  if (seconds % 86400 === 0) return `${seconds / 86400} d`;
+  if (seconds % 3600 === 0) return `${seconds / 3600} h`;
+  return `${Math.round(seconds / 60)} min`;
+}
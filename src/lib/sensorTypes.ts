@@ -0,0 +1,113 @@
+/**
+ * Sensor type registry
+ */
+
+import { getFormulaResultType } from '@/lib/formula';
+
+export interface SensorTypeDefinition {
+  /** Tag name used in kind 4223 events (e.g. 'temp', 'pm25') */
+  type: string;
+  /** Human readable name */
+  name: string;
+  unit: string;
+  /** Number of decimals to display */
+  precision: number;
+  /** Lowest physically plausible value */
+  min?: number;
+  /** Highest physically plausible value */
+  max?: number;
+  /** Value the sensor legitimately holds for long stretches (e.g. 0 lux at night), exempt from flatline checks */
+  restValue?: number;
+  /** Measured from a true zero (e.g. PM, gas concentrations), so a drift can be judged as a percentage of the level */
+  ratioScale?: boolean;
+  /** SVG stroke-dasharray for chart lines ('0' is solid) */
+  dashStyle: string;
+  /** Icon name, one of SENSOR_TYPE_ICON_NAMES */
+  icon: string;
+}
+
+/** Icons available for sensor types */
+export const SENSOR_TYPE_ICON_NAMES = [
+  'thermometer',
+  'droplets',
+  'gauge',
+  'wind',
+  'activity',
+  'sun',
+  'cloud-rain',
+  'leaf',
+  'flame',
+  'zap',
+  'radio',
+] as const;
+
+/** Line styles users can pick for chart lines */
+export const DASH_STYLES: Record<string, string> = {
+  '0': 'Solid',
+  '5 5': 'Dashed',
+  '2 2': 'Dotted',
+  '8 4': 'Long dash',
+  '8 4 2 4': 'Dash dot',
+};
+
+export const BUILT_IN_SENSOR_TYPES: SensorTypeDefinition[] = [
+  { type: 'temp', name: 'Temperature', unit: '°C', precision: 1, min: -60, max: 60, dashStyle: '0', icon: 'thermometer' },
+  { type: 'humidity', name: 'Humidity', unit: '%', precision: 1, min: 0, max: 100, dashStyle: '5 5', icon: 'droplets' },
+  { type: 'pressure', name: 'Pressure', unit: 'hPa', precision: 1, min: 850, max: 1100, dashStyle: '8 4', icon: 'gauge' },
+  { type: 'pm1', name: 'PM1.0', unit: 'µg/m³', precision: 1, min: 0, max: 1000, restValue: 0, ratioScale: true, dashStyle: '0', icon: 'wind' },
+  { type: 'pm25', name: 'PM2.5', unit: 'µg/m³', precision: 1, min: 0, max: 1000, restValue: 0, ratioScale: true, dashStyle: '5 5', icon: 'wind' },
+  { type: 'pm10', name: 'PM10', unit: 'µg/m³', precision: 1, min: 0, max: 1000, restValue: 0, ratioScale: true, dashStyle: '2 2', icon: 'wind' },
+  { type: 'air_quality', name: 'Air Quality', unit: 'raw', precision: 0, min: 0, max: 1023, dashStyle: '2 2', icon: 'activity' },
+  { type: 'light', name: 'Light', unit: 'lux', precision: 0, min: 0, max: 120000, restValue: 0, dashStyle: '0', icon: 'sun' },
+  { type: 'rain', name: 'Rain', unit: 'raw', precision: 0, min: 0, max: 1023, restValue: 0, dashStyle: '5 5', icon: 'cloud-rain' },
+  // Derived from other readings of the same model, see lib/derived
+  { type: 'dew_point', name: 'Dew Point', unit: '°C', precision: 1, min: -80, max: 60, dashStyle: '2 2', icon: 'droplets' },
+  { type: 'heat_index', name: 'Heat Index', unit: '°C', precision: 1, min: -60, max: 80, dashStyle: '8 4 2 4', icon: 'flame' },
+  { type: 'abs_humidity', name: 'Absolute Humidity', unit: 'g/m³', precision: 1, min: 0, max: 130, dashStyle: '8 4', icon: 'droplets' },
+  { type: 'aqi_us', name: 'AQI (US EPA)', unit: 'AQI', precision: 0, min: 0, max: 500, restValue: 0, dashStyle: '0', icon: 'leaf' },
+  { type: 'aqi_eu', name: 'AQI (EU)', unit: 'EAQI', precision: 0, min: 1, max: 6, restValue: 1, dashStyle: '5 5', icon: 'leaf' },
+];
+
+/**
+ * Definition used for tags that aren't registered
+ */
+function fallbackDefinition(type: string): SensorTypeDefinition {
+  return { type, name: type, unit: '', precision: 2, dashStyle: '0', icon: 'gauge' };
+}
+
+export interface SensorTypeRegistry {
+  /** Built-in types followed by custom types */
+  all: SensorTypeDefinition[];
+  /** Look up a type, falling back to a generic definition for unknown tags */
+  get: (type: string) => SensorTypeDefinition;
+}
+
+/**
+ * Build a registry from the built-in types plus user-defined ones
+ */
+export function createSensorTypeRegistry(customTypes: SensorTypeDefinition[] = []): SensorTypeRegistry {
+  const byType = new Map<string, SensorTypeDefinition>();
+  BUILT_IN_SENSOR_TYPES.forEach(def => byType.set(def.type, def));
+  customTypes.forEach(def => byType.set(def.type, def));
+
+  const get = (type: string): SensorTypeDefinition => {
+    // Computed series take the definition of the type their result is measured in
+    const resultType = getFormulaResultType(type);
+    if (resultType !== undefined) {
+      return { ...(resultType ? get(resultType) : { ...fallbackDefinition(type), name: 'Formula' }), type };
+    }
+    return byType.get(type) ?? fallbackDefinition(type);
+  };
+
+  return {
+    all: Array.from(byType.values()),
+    get,
+  };
+}
+
+/**
+ * Check whether a type is one of the built-in types
+ */
+export function isBuiltInSensorType(type: string): boolean {
+  return BUILT_IN_SENSOR_TYPES.some(def => def.type === type);
+}
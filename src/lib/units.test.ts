@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { createUnitConverter, DEFAULT_UNIT_PREFERENCES } from './units';
+
+describe('createUnitConverter', () => {
+  it('leaves values untouched in metric', () => {
+    const units = createUnitConverter(DEFAULT_UNIT_PREFERENCES);
+
+    expect(units.unit('°C')).toBe('°C');
+    expect(units.convert(21.5, '°C')).toBe(21.5);
+  });
+
+  it('converts to imperial units', () => {
+    const units = createUnitConverter({ system: 'imperial', custom: {} });
+
+    expect(units.unit('°C')).toBe('°F');
+    expect(units.convert(100, '°C')).toBeCloseTo(212);
+    expect(units.convert(1013.25, 'hPa')).toBeCloseTo(29.92, 2);
+    expect(units.convert(10, 'm/s')).toBeCloseTo(22.37, 2);
+    expect(units.convert(25.4, 'mm')).toBeCloseTo(1);
+  });
+
+  it('scales differences without applying offsets', () => {
+    const units = createUnitConverter({ system: 'imperial', custom: {} });
+
+    expect(units.convertDelta(10, '°C')).toBeCloseTo(18);
+  });
+
+  it('uses the chosen unit per quantity in custom mode', () => {
+    const units = createUnitConverter({ system: 'custom', custom: { temperature: 'K', speed: 'km/h' } });
+
+    expect(units.convert(0, '°C')).toBeCloseTo(273.15);
+    expect(units.convert(10, 'm/s')).toBeCloseTo(36);
+    expect(units.unit('hPa')).toBe('hPa');
+  });
+
+  it('passes through units it does not know', () => {
+    const units = createUnitConverter({ system: 'imperial', custom: {} });
+
+    expect(units.unit('µg/m³')).toBe('µg/m³');
+    expect(units.convert(12, 'µg/m³')).toBe(12);
+    expect(units.precision('µg/m³')).toBeUndefined();
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Unit conversion for display
+ *
+ * Readings are always stored in the unit their sensor type declares. A
+ * quantity is recognised from that base unit, so custom sensor types with a
+ * matching unit (e.g. 'm/s') are converted too.
+ */
+
+export type Quantity = 'temperature' | 'pressure' | 'speed' | 'length';
+
+export type UnitSystem = 'metric' | 'imperial' | 'custom';
+
+export interface UnitPreferences {
+  system: UnitSystem;
+  /** Unit symbol per quantity, used when the system is 'custom' */
+  custom: Partial<Record<Quantity, string>>;
+}
+
+interface UnitDefinition {
+  symbol: string;
+  label: string;
+  /** Convert a value from the quantity's base unit */
+  fromBase: (value: number) => number;
+  /** Convert a difference between two values from the base unit */
+  deltaFromBase: (delta: number) => number;
+  /** Decimals to display, overriding the sensor type's precision */
+  precision?: number;
+}
+
+interface QuantityDefinition {
+  label: string;
+  base: string;
+  imperial: string;
+  units: UnitDefinition[];
+}
+
+const identity = (value: number) => value;
+const scale = (factor: number) => (value: number) => value * factor;
+
+export const QUANTITIES: Record<Quantity, QuantityDefinition> = {
+  temperature: {
+    label: 'Temperature',
+    base: '°C',
+    imperial: '°F',
+    units: [
+      { symbol: '°C', label: 'Celsius', fromBase: identity, deltaFromBase: identity },
+      { symbol: '°F', label: 'Fahrenheit', fromBase: v => v * 9 / 5 + 32, deltaFromBase: scale(9 / 5) },
+      { symbol: 'K', label: 'Kelvin', fromBase: v => v + 273.15, deltaFromBase: identity },
+    ],
+  },
+  pressure: {
+    label: 'Pressure',
+    base: 'hPa',
+    imperial: 'inHg',
+    units: [
+      { symbol: 'hPa', label: 'Hectopascals', fromBase: identity, deltaFromBase: identity },
+      { symbol: 'kPa', label: 'Kilopascals', fromBase: scale(0.1), deltaFromBase: scale(0.1), precision: 2 },
+      { symbol: 'inHg', label: 'Inches of mercury', fromBase: scale(0.0295300), deltaFromBase: scale(0.0295300), precision: 2 },
+      { symbol: 'mmHg', label: 'Millimetres of mercury', fromBase: scale(0.750062), deltaFromBase: scale(0.750062) },
+    ],
+  },
+  speed: {
+    label: 'Wind Speed',
+    base: 'm/s',
+    imperial: 'mph',
+    units: [
+      { symbol: 'm/s', label: 'Metres per second', fromBase: identity, deltaFromBase: identity },
+      { symbol: 'km/h', label: 'Kilometres per hour', fromBase: scale(3.6), deltaFromBase: scale(3.6) },
+      { symbol: 'mph', label: 'Miles per hour', fromBase: scale(2.236936), deltaFromBase: scale(2.236936) },
+      { symbol: 'kn', label: 'Knots', fromBase: scale(1.943844), deltaFromBase: scale(1.943844) },
+    ],
+  },
+  length: {
+    label: 'Rainfall',
+    base: 'mm',
+    imperial: 'in',
+    units: [
+      { symbol: 'mm', label: 'Millimetres', fromBase: identity, deltaFromBase: identity },
+      { symbol: 'in', label: 'Inches', fromBase: scale(1 / 25.4), deltaFromBase: scale(1 / 25.4), precision: 2 },
+    ],
+  },
+};
+
+export const DEFAULT_UNIT_PREFERENCES: UnitPreferences = {
+  system: 'metric',
+  custom: {},
+};
+
+/**
+ * Find the quantity measured in a base unit, if it is convertible
+ */
+function getQuantity(baseUnit: string): Quantity | undefined {
+  return (Object.keys(QUANTITIES) as Quantity[]).find(q => QUANTITIES[q].base === baseUnit);
+}
+
+/**
+ * Resolve which unit a quantity should be displayed in
+ */
+function getDisplayUnit(quantity: Quantity, preferences: UnitPreferences): UnitDefinition {
+  const definition = QUANTITIES[quantity];
+  const symbol = preferences.system === 'imperial'
+    ? definition.imperial
+    : preferences.system === 'custom'
+      ? preferences.custom[quantity] ?? definition.base
+      : definition.base;
+
+  return definition.units.find(u => u.symbol === symbol) ?? definition.units[0];
+}
+
+export interface UnitConverter {
+  /** Display unit for values stored in `baseUnit` */
+  unit: (baseUnit: string) => string;
+  /** Convert a value from `baseUnit` to the display unit */
+  convert: (value: number, baseUnit: string) => number;
+  /** Convert a difference (e.g. a bias or spread) from `baseUnit` to the display unit */
+  convertDelta: (delta: number, baseUnit: string) => number;
+  /** Decimals to display for the unit, if it overrides the sensor type's precision */
+  precision: (baseUnit: string) => number | undefined;
+}
+
+/**
+ * Build a converter for the given preferences
+ */
+export function createUnitConverter(preferences: UnitPreferences): UnitConverter {
+  const resolve = (baseUnit: string) => {
+    const quantity = getQuantity(baseUnit);
+    return quantity ? getDisplayUnit(quantity, preferences) : undefined;
+  };
+
+  return {
+    unit: (baseUnit) => resolve(baseUnit)?.symbol ?? baseUnit,
+    convert: (value, baseUnit) => resolve(baseUnit)?.fromBase(value) ?? value,
+    convertDelta: (delta, baseUnit) => resolve(baseUnit)?.deltaFromBase(delta) ?? delta,
+    precision: (baseUnit) => resolve(baseUnit)?.precision,
+  };
+}
@@ -0,0 +1,199 @@
+import { describe, it, expect } from 'vitest';
+import type { NostrEvent } from '@nostrify/nostrify';
+import { parseReadingEvent, parseStationEvent, SCHEMA_VERSION } from './weatherEvents';
+
+const PUBKEY = 'e4690a13290739da123aa17d553851dec4cdd0e9d89aa18de3741c446caf8761';
+
+function makeEvent(kind: number, tags: string[][]): NostrEvent {
+  return {
+    id: 'a'.repeat(64),
+    pubkey: PUBKEY,
+    created_at: 1_730_000_000,
+    kind,
+    tags,
+    content: '',
+    sig: 'b'.repeat(128),
+  };
+}
+
+describe('parseReadingEvent', () => {
+  it('parses a reading event from an ESP32 station', () => {
+    const event = makeEvent(4223, [
+      ['a', `16158:${PUBKEY}:`],
+      ['t', 'weather'],
+      ['temp', '21.4', 'BME280'],
+      ['humidity', '48.2', 'BME280'],
+      ['pressure', '1013.6', 'BME280'],
+      ['pm1', '0', 'PMS5003'],
+      ['pm25', '3', 'PMS5003'],
+      ['pm10', '5', 'PMS5003'],
+      ['light', '312', 'BH1750'],
+      ['rain', '1023', 'FC-37'],
+    ]);
+
+    const result = parseReadingEvent(event);
+
+    expect(result.valid).toBe(true);
+    expect(result.schemaVersion).toBe(SCHEMA_VERSION);
+    expect(result.issues).toEqual([]);
+    expect(result.readings.map(r => [r.sensorType, r.value, r.model])).toEqual([
+      ['temp', 21.4, 'BME280'],
+      ['humidity', 48.2, 'BME280'],
+      ['pressure', 1013.6, 'BME280'],
+      ['pm1', 0, 'PMS5003'],
+      ['pm25', 3, 'PMS5003'],
+      ['pm10', 5, 'PMS5003'],
+      ['light', 312, 'BH1750'],
+      ['rain', 1023, 'FC-37'],
+    ]);
+    expect(result.readings[0].timestamp).toBe(event.created_at);
+    expect(result.readings[0].event).toBe(event);
+  });
+
+  it('rejects events of the wrong kind', () => {
+    const result = parseReadingEvent(makeEvent(1, [['t', 'weather'], ['temp', '20', 'DHT22']]));
+
+    expect(result.valid).toBe(false);
+    expect(result.readings).toEqual([]);
+    expect(result.issues.map(i => i.code)).toEqual(['wrong-kind']);
+  });
+
+  it('rejects events without the weather tag', () => {
+    const result = parseReadingEvent(makeEvent(4223, [['temp', '20', 'DHT22']]));
+
+    expect(result.valid).toBe(false);
+    expect(result.issues.map(i => i.code)).toEqual(['missing-weather-tag']);
+  });
+
+  it('skips a sensor without a model', () => {
+    const result = parseReadingEvent(makeEvent(4223, [
+      ['t', 'weather'],
+      ['temp', '20.1'],
+      ['humidity', '55', 'DHT22'],
+    ]));
+
+    expect(result.valid).toBe(true);
+    expect(result.readings.map(r => r.sensorType)).toEqual(['humidity']);
+    expect(result.issues).toMatchObject([
+      { code: 'missing-model', severity: 'warning', tag: ['temp', '20.1'] },
+    ]);
+  });
+
+  it('skips non-numeric values', () => {
+    const result = parseReadingEvent(makeEvent(4223, [
+      ['t', 'weather'],
+      ['temp', 'nan', 'DHT22'],
+      ['humidity', '12abc', 'DHT22'],
+      ['pm25', '', 'PMS5003'],
+    ]));
+
+    expect(result.readings).toEqual([]);
+    expect(result.issues.map(i => i.code)).toEqual(['non-numeric-value', 'non-numeric-value', 'unknown-tag']);
+  });
+
+  it('reports unknown tags', () => {
+    const result = parseReadingEvent(makeEvent(4223, [
+      ['t', 'weather'],
+      ['firmware', 'v1.2.3'],
+      ['reboot'],
+      ['temp', '19', 'DS18B20'],
+    ]));
+
+    expect(result.readings).toHaveLength(1);
+    expect(result.issues.map(i => i.code)).toEqual(['unknown-tag', 'unknown-tag']);
+  });
+
+  it('keeps only the first value of a duplicate sensor', () => {
+    const result = parseReadingEvent(makeEvent(4223, [
+      ['t', 'weather'],
+      ['temp', '19', 'DS18B20'],
+      ['temp', '85', 'DS18B20'],
+      ['temp', '20', 'BME280'],
+    ]));
+
+    expect(result.readings.map(r => [r.value, r.model])).toEqual([[19, 'DS18B20'], [20, 'BME280']]);
+    expect(result.issues).toMatchObject([{ code: 'duplicate-sensor', tag: ['temp', '85', 'DS18B20'] }]);
+  });
+
+  it('ignores standard Nostr tags', () => {
+    const result = parseReadingEvent(makeEvent(4223, [
+      ['t', 'weather'],
+      ['client', 'weather-station', '1'],
+      ['alt', 'Weather reading'],
+      ['temp', '18', 'SHT31'],
+    ]));
+
+    expect(result.readings).toHaveLength(1);
+    expect(result.issues).toEqual([]);
+  });
+});
+
+describe('parseStationEvent', () => {
+  it('parses station metadata and groups sensors by model', () => {
+    const event = makeEvent(16158, [
+      ['name', 'Garden Station'],
+      ['description', 'Back garden, 1.5m above grass'],
+      ['g', 'u4pruydqqvj'],
+      ['power', 'solar'],
+      ['connectivity', 'wifi'],
+      ['sensor', 'temp', 'BME280'],
+      ['sensor', 'humidity', 'BME280'],
+      ['sensor', 'pm1', 'PMS5003'],
+      ['sensor', 'pm25', 'PMS5003'],
+      ['sensor', 'pm10', 'PMS5003'],
+      ['sensor_status', 'temp', 'BME280', 'ok'],
+      ['sensor_status', 'pm25', 'PMS5003', '418'],
+    ]);
+
+    const result = parseStationEvent(event);
+
+    expect(result.valid).toBe(true);
+    expect(result.issues).toEqual([]);
+    expect(result.station).toMatchObject({
+      pubkey: PUBKEY,
+      name: 'Garden Station',
+      description: 'Back garden, 1.5m above grass',
+      geohash: 'u4pruydqqvj',
+      power: 'solar',
+      connectivity: 'wifi',
+      sensorModels: [
+        { model: 'BME280', types: ['temp', 'humidity'], statuses: { temp: 'ok' } },
+        { model: 'PMS5003', types: ['pm1', 'pm25', 'pm10'], statuses: { pm25: '418' } },
+      ],
+    });
+  });
+
+  it('rejects a station without sensors', () => {
+    const result = parseStationEvent(makeEvent(16158, [['name', 'Empty']]));
+
+    expect(result.valid).toBe(false);
+    expect(result.station).toBeNull();
+    expect(result.issues.map(i => i.code)).toEqual(['no-sensors']);
+  });
+
+  it('rejects events of the wrong kind', () => {
+    const result = parseStationEvent(makeEvent(4223, [['sensor', 'temp', 'DHT22']]));
+
+    expect(result.valid).toBe(false);
+    expect(result.issues.map(i => i.code)).toEqual(['wrong-kind']);
+  });
+
+  it('reports malformed sensor declarations but keeps the station', () => {
+    const result = parseStationEvent(makeEvent(16158, [
+      ['sensor', 'temp'],
+      ['sensor', 'humidity', 'DHT22'],
+      ['sensor', 'humidity', 'DHT22'],
+      ['sensor_status', 'temp', 'SHT31', 'ok'],
+    ]));
+
+    expect(result.valid).toBe(true);
+    expect(result.station?.name).toBe('Unknown Station');
+    expect(result.station?.sensorModels.map(m => m.model)).toEqual(['unknown', 'DHT22']);
+    expect(result.issues.map(i => i.code)).toEqual([
+      'missing-name',
+      'missing-model',
+      'duplicate-sensor',
+      'undeclared-sensor',
+    ]);
+  });
+});
@@ -0,0 +1,220 @@
+import type { NostrEvent } from '@nostrify/nostrify';
+import type { SensorReading } from '@/hooks/useSensorReadings';
+import type { SensorModel, WeatherStation } from '@/hooks/useWeatherStations';
+
+/**
+ * Parser and validator for weather station events
+ *
+ * - Kind 16158 (replaceable): station metadata with `sensor` and `sensor_status` tags
+ * - Kind 4223 (regular): sensor readings as `[type, value, model]` tags
+ */
+
+export const STATION_KIND = 16158;
+export const READING_KIND = 4223;
+
+/**
+ * Version of the parsing rules below. Bump it whenever they change so data
+ * parsed with older rules (e.g. the IndexedDB reading cache) is discarded.
+ * Version 2 adds derived readings (see lib/derived) to the cache.
+ */
+export const SCHEMA_VERSION = 2;
+
+/** Standard Nostr tags that can appear on reading events and are never sensors */
+export const STANDARD_TAGS = ['t', 'a', 'e', 'p', 'd', 'alt', 'content-warning', 'subject', 'client', 'expiration'];
+
+export type ValidationIssueCode =
+  | 'wrong-kind'
+  | 'missing-weather-tag'
+  | 'missing-name'
+  | 'no-sensors'
+  | 'missing-type'
+  | 'missing-model'
+  | 'missing-value'
+  | 'non-numeric-value'
+  | 'unknown-tag'
+  | 'duplicate-sensor'
+  | 'undeclared-sensor';
+
+export interface ValidationIssue {
+  code: ValidationIssueCode;
+  /** Errors make the whole event invalid, warnings only skip the offending tag */
+  severity: 'error' | 'warning';
+  message: string;
+  /** The tag the issue was found on, if any */
+  tag?: string[];
+}
+
+export interface ReadingParseResult {
+  valid: boolean;
+  schemaVersion: number;
+  readings: SensorReading[];
+  issues: ValidationIssue[];
+}
+
+export interface StationParseResult {
+  valid: boolean;
+  schemaVersion: number;
+  station: WeatherStation | null;
+  issues: ValidationIssue[];
+}
+
+/**
+ * Parse a sensor reading event (kind 4223)
+ *
+ * Every non-standard tag is treated as a sensor value. Tags that can't be
+ * read as `[type, value, model]` with a numeric value are skipped and
+ * reported, and only the first value per sensor type and model is kept.
+ */
+export function parseReadingEvent(event: NostrEvent): ReadingParseResult {
+  const issues: ValidationIssue[] = [];
+  const readings: SensorReading[] = [];
+
+  if (event.kind !== READING_KIND) {
+    issues.push({ code: 'wrong-kind', severity: 'error', message: `Expected kind ${READING_KIND}, got ${event.kind}` });
+  }
+
+  // Must have the weather tag
+  const hasWeatherTag = event.tags.some(([tag, value]) => tag === 't' && value === 'weather');
+  if (!hasWeatherTag) {
+    issues.push({ code: 'missing-weather-tag', severity: 'error', message: 'Missing ["t", "weather"] tag' });
+  }
+
+  if (issues.length > 0) {
+    return { valid: false, schemaVersion: SCHEMA_VERSION, readings, issues };
+  }
+
+  const seen = new Set<string>();
+
+  for (const tag of event.tags) {
+    const [sensorType, value, model] = tag;
+    if (STANDARD_TAGS.includes(sensorType)) continue;
+
+    if (value === undefined || value === '') {
+      issues.push({ code: 'unknown-tag', severity: 'warning', message: `Unknown tag "${sensorType}" has no value`, tag });
+      continue;
+    }
+
+    const numValue = Number(value);
+    if (!model) {
+      issues.push(isNaN(numValue)
+        ? { code: 'unknown-tag', severity: 'warning', message: `Unknown tag "${sensorType}"`, tag }
+        : { code: 'missing-model', severity: 'warning', message: `Sensor "${sensorType}" has no model`, tag });
+      continue;
+    }
+
+    if (!Number.isFinite(numValue)) {
+      issues.push({ code: 'non-numeric-value', severity: 'warning', message: `Sensor "${sensorType}" (${model}) has non-numeric value "${value}"`, tag });
+      continue;
+    }
+
+    const key = `${sensorType}-${model}`;
+    if (seen.has(key)) {
+      issues.push({ code: 'duplicate-sensor', severity: 'warning', message: `Sensor "${sensorType}" (${model}) appears more than once`, tag });
+      continue;
+    }
+    seen.add(key);
+
+    readings.push({
+      timestamp: event.created_at,
+      sensorType,
+      value: numValue,
+      model,
+      event,
+    });
+  }
+
+  return { valid: true, schemaVersion: SCHEMA_VERSION, readings, issues };
+}
+
+/**
+ * Parse a weather station metadata event (kind 16158)
+ *
+ * Sensor types are grouped by model. A station must declare at least one
+ * `sensor` tag to be valid.
+ */
+export function parseStationEvent(event: NostrEvent): StationParseResult {
+  const issues: ValidationIssue[] = [];
+
+  if (event.kind !== STATION_KIND) {
+    issues.push({ code: 'wrong-kind', severity: 'error', message: `Expected kind ${STATION_KIND}, got ${event.kind}` });
+  }
+
+  const sensorTags = event.tags.filter(([tag]) => tag === 'sensor');
+  if (sensorTags.length === 0) {
+    issues.push({ code: 'no-sensors', severity: 'error', message: 'Station declares no sensor tags' });
+  }
+
+  if (issues.length > 0) {
+    return { valid: false, schemaVersion: SCHEMA_VERSION, station: null, issues };
+  }
+
+  const getTag = (name: string) => event.tags.find(([tag]) => tag === name)?.[1];
+
+  const name = getTag('name');
+  if (!name) {
+    issues.push({ code: 'missing-name', severity: 'warning', message: 'Station has no name' });
+  }
+
+  // Group sensor types by model
+  const sensorsByModel = new Map<string, Set<string>>();
+  const sensorStatuses = new Map<string, Record<string, string>>();
+
+  for (const tag of sensorTags) {
+    const [, type, model] = tag;
+    if (!type) {
+      issues.push({ code: 'missing-type', severity: 'warning', message: 'Sensor tag has no type', tag });
+    }
+    if (!model) {
+      issues.push({ code: 'missing-model', severity: 'warning', message: `Sensor "${type || 'unknown'}" has no model`, tag });
+    }
+
+    const modelName = model || 'unknown';
+    const sensorType = type || 'unknown';
+
+    if (!sensorsByModel.has(modelName)) {
+      sensorsByModel.set(modelName, new Set());
+      sensorStatuses.set(modelName, {});
+    }
+
+    const types = sensorsByModel.get(modelName)!;
+    if (types.has(sensorType)) {
+      issues.push({ code: 'duplicate-sensor', severity: 'warning', message: `Sensor "${sensorType}" (${modelName}) is declared more than once`, tag });
+    }
+    types.add(sensorType);
+  }
+
+  // Parse sensor_status tags
+  for (const tag of event.tags.filter(([tag]) => tag === 'sensor_status')) {
+    const [, type, model, status] = tag;
+    const modelName = model || 'unknown';
+    const sensorType = type || 'unknown';
+
+    if (!sensorStatuses.has(modelName)) {
+      issues.push({ code: 'undeclared-sensor', severity: 'warning', message: `Status for undeclared sensor model "${modelName}"`, tag });
+      continue;
+    }
+    sensorStatuses.get(modelName)![sensorType] = status || 'unknown';
+  }
+
+  const sensorModels: SensorModel[] = Array.from(sensorsByModel.entries()).map(([model, types]) => ({
+    model,
+    types: Array.from(types),
+    statuses: sensorStatuses.get(model) || {},
+  }));
+
+  return {
+    valid: true,
+    schemaVersion: SCHEMA_VERSION,
+    station: {
+      pubkey: event.pubkey,
+      name: name || 'Unknown Station',
+      description: getTag('description'),
+      geohash: getTag('g'),
+      power: getTag('power'),
+      connectivity: getTag('connectivity'),
+      sensorModels,
+      event,
+    },
+    issues,
+  };
+}
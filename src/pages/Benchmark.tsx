@@ -19,6 +19,9 @@ import { Header } from '@/components/Header';
 import { useWeatherStations } from '@/hooks/useWeatherStations';
 import { useComparisons } from '@/hooks/useComparisons';
 import { ComparisonView } from '@/components/ComparisonView';
+import { LiveModeToggle } from '@/components/LiveModeToggle';
+import { useLiveReadings } from '@/hooks/useLiveReadings';
+import { useAppContext } from '@/hooks/useAppContext';
 
 const Benchmark = () => {
   useSeoMeta({
@@ -30,7 +33,14 @@ const Benchmark = () => {
   const [dialogOpen, setDialogOpen] = useState(false);
 
   const { data: stations, isLoading: stationsLoading } = useWeatherStations();
-  const { comparisons, create, update, addSensor, removeSensor, remove } = useComparisons();
+  const { comparisons, create, update, addSensor, updateSensor, removeSensor, remove } = useComparisons();
+  const { config } = useAppContext();
+
+  // Append new readings as they are published while live mode is on
+  useLiveReadings(
+    comparisons.flatMap(c => c.sensors.map(s => s.stationPubkey)),
+    config.liveMode
+  );
 
   const handleCreateComparison = () => {
     if (!newComparisonName.trim()) return;
@@ -103,46 +113,49 @@ const Benchmark = () => {
                 Create comparisons to benchmark sensors across different weather stations
               </p>
             </div>
-            <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
-              <DialogTrigger asChild>
-                <Button className="gap-2">
-                  <Plus className="h-4 w-4" />
-                  New Comparison
-                </Button>
-              </DialogTrigger>
-              <DialogContent>
-                <DialogHeader>
-                  <DialogTitle>Create New Comparison</DialogTitle>
-                  <DialogDescription>
-                    Give your comparison a descriptive name to identify it later.
-                  </DialogDescription>
-                </DialogHeader>
-                <div className="grid gap-4 py-4">
-                  <div className="grid gap-2">
-                    <Label htmlFor="name">Comparison Name</Label>
-                    <Input
-                      id="name"
-                      placeholder="e.g., Temperature Sensors Comparison"
-                      value={newComparisonName}
-                      onChange={(e) => setNewComparisonName(e.target.value)}
-                      onKeyDown={(e) => {
-                        if (e.key === 'Enter') {
-                          handleCreateComparison();
-                        }
-                      }}
-                    />
-                  </div>
-                </div>
-                <DialogFooter>
-                  <Button variant="outline" onClick={() => setDialogOpen(false)}>
-                    Cancel
+            <div className="flex items-center gap-4">
+              <LiveModeToggle />
+              <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+                <DialogTrigger asChild>
+                  <Button className="gap-2">
+                    <Plus className="h-4 w-4" />
+                    New Comparison
                   </Button>
-                  <Button onClick={handleCreateComparison} disabled={!newComparisonName.trim()}>
-                    Create Comparison
-                  </Button>
-                </DialogFooter>
-              </DialogContent>
-            </Dialog>
+                </DialogTrigger>
+                <DialogContent>
+                  <DialogHeader>
+                    <DialogTitle>Create New Comparison</DialogTitle>
+                    <DialogDescription>
+                      Give your comparison a descriptive name to identify it later.
+                    </DialogDescription>
+                  </DialogHeader>
+                  <div className="grid gap-4 py-4">
+                    <div className="grid gap-2">
+                      <Label htmlFor="name">Comparison Name</Label>
+                      <Input
+                        id="name"
+                        placeholder="e.g., Temperature Sensors Comparison"
+                        value={newComparisonName}
+                        onChange={(e) => setNewComparisonName(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') {
+                            handleCreateComparison();
+                          }
+                        }}
+                      />
+                    </div>
+                  </div>
+                  <DialogFooter>
+                    <Button variant="outline" onClick={() => setDialogOpen(false)}>
+                      Cancel
+                    </Button>
+                    <Button onClick={handleCreateComparison} disabled={!newComparisonName.trim()}>
+                      Create Comparison
+                    </Button>
+                  </DialogFooter>
+                </DialogContent>
+              </Dialog>
+            </div>
           </div>
 
           {/* Loading State */}
@@ -176,8 +189,10 @@ const Benchmark = () => {
                   comparison={comparison}
                   stations={stations || []}
                   onAddSensor={(sensor) => addSensor(comparison.id, sensor)}
+                  onUpdateSensor={(sensorId, updates) => updateSensor(comparison.id, sensorId, updates)}
                   onRemoveSensor={(sensorId) => removeSensor(comparison.id, sensorId)}
                   onUpdateName={(newName) => update(comparison.id, { name: newName })}
+                  onUpdate={(updates) => update(comparison.id, updates)}
                   onDelete={() => remove(comparison.id)}
                 />
               ))}
@@ -194,7 +209,7 @@ const Benchmark = () => {
                   No Weather Stations Found
                 </h3>
                 <p className="text-amber-800 dark:text-amber-200">
-                  No weather stations are currently publishing data to the relay. Make sure your weather stations are online and publishing to wss://relay.samt.st
+                  No weather stations are currently publishing data to the relay. Make sure your weather stations are online and publishing to one of your station data relays
                 </p>
               </div>
             </CardContent>
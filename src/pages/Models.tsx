@@ -0,0 +1,222 @@
+import { Fragment, useMemo, useState } from 'react';
+import { useSeoMeta } from '@unhead/react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Header } from '@/components/Header';
+import { SensorTypeIcon } from '@/components/SensorTypeIcon';
+import { useWeatherStations } from '@/hooks/useWeatherStations';
+import { useSensorSummaries } from '@/hooks/useSensorSummaries';
+import { useSensorTypes } from '@/hooks/useSensorTypes';
+import { useUnits } from '@/hooks/useUnits';
+import {
+  RANKING_METRICS,
+  computeSensorMetrics,
+  rankModels,
+  sortRankings,
+  type RankingMetric,
+} from '@/lib/leaderboard';
+
+type Period = '24h' | '7d';
+
+// Periods the metrics are computed over
+const PERIODS: Record<Period, { tab: string; seconds: number }> = {
+  '24h': { tab: '24H', seconds: 24 * 60 * 60 },
+  '7d': { tab: '7D', seconds: 7 * 24 * 60 * 60 },
+};
+
+/** Buckets for uptime and for pairing co-located sensors */
+const BUCKET_SECONDS = 60 * 60;
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+const Models = () => {
+  useSeoMeta({
+    title: 'Models - Weather Stations',
+    description: 'Rank sensor models across every station in the network',
+  });
+
+  const sensorTypes = useSensorTypes();
+  const units = useUnits();
+  const [period, setPeriod] = useState<Period>('24h');
+  const [metric, setMetric] = useState<RankingMetric>('peerMae');
+  // `${sensorType}|${sensorModel}` of the model whose stations are shown
+  const [selectedKey, setSelectedKey] = useState<string>();
+
+  const { data: stations, isLoading: stationsLoading } = useWeatherStations();
+
+  const { since, until } = useMemo(() => {
+    const now = Math.floor(Date.now() / 1000);
+    return { since: now - PERIODS[period].seconds, until: now };
+  }, [period]);
+
+  // Every published type of every model on every station
+  const sensors = useMemo(() => (stations ?? []).flatMap(station =>
+    station.sensorModels.flatMap(model => model.types.map(type => ({
+      pubkey: station.pubkey,
+      sensorType: type,
+      sensorModel: model.model,
+    })))
+  ), [stations]);
+
+  const { data, isLoading: readingsLoading } = useSensorSummaries(sensors, since, until, BUCKET_SECONDS);
+
+  const rankings = useMemo(
+    () => data && stations ? rankModels(computeSensorMetrics(data, stations)) : [],
+    [data, stations]
+  );
+
+  const types = [...new Set(rankings.map(r => r.sensorType))]
+    .sort((a, b) => sensorTypes.get(a).name.localeCompare(sensorTypes.get(b).name));
+
+  const stationName = (pubkey: string) => stations?.find(s => s.pubkey === pubkey)?.name ?? 'Unknown Station';
+
+  const isLoading = stationsLoading || readingsLoading;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+
+      <main className="container mx-auto px-4 py-8 space-y-6">
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <h2 className="text-2xl font-bold">Sensor Models</h2>
+            <p className="text-muted-foreground">
+              Models ranked per quantity across every station that runs them. Peer agreement compares a model with the other models of the same type on each station.
+            </p>
+          </div>
+          <div className="flex items-center gap-4">
+            <div className="flex items-center gap-2">
+              <Label htmlFor="rank-by" className="text-sm font-normal whitespace-nowrap">Rank by</Label>
+              <Select value={metric} onValueChange={(value) => setMetric(value as RankingMetric)}>
+                <SelectTrigger id="rank-by" className="h-8 w-[200px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(RANKING_METRICS).map(([value, { label }]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Tabs value={period} onValueChange={(value) => setPeriod(value as Period)}>
+              <TabsList>
+                {Object.entries(PERIODS).map(([value, { tab }]) => (
+                  <TabsTrigger key={value} value={value}>{tab}</TabsTrigger>
+                ))}
+              </TabsList>
+            </Tabs>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="space-y-4">
+            <Skeleton className="h-48 w-full" />
+            <Skeleton className="h-48 w-full" />
+          </div>
+        ) : types.length === 0 ? (
+          <Card className="border-dashed">
+            <CardContent className="py-12 text-center">
+              <p className="text-muted-foreground">
+                No sensor readings found. Make sure your stations are publishing to one of your station data relays
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          types.map(type => {
+            const definition = sensorTypes.get(type);
+            const decimals = units.precision(type) + 1;
+            const formatValue = (value: number | null) => value !== null
+              ? `${units.convertDelta(value, type).toFixed(decimals)} ${units.unit(type)}`
+              : '—';
+
+            return (
+              <Card key={type}>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2 text-lg">
+                    <SensorTypeIcon icon={definition.icon} className="h-4 w-4" />
+                    {definition.name}
+                  </CardTitle>
+                  <CardDescription>Click a model to see the stations that run it</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-[40px]">#</TableHead>
+                        <TableHead>Model</TableHead>
+                        <TableHead className="text-right">Stations</TableHead>
+                        <TableHead className="text-right">Uptime</TableHead>
+                        <TableHead className="text-right">Peer MAE</TableHead>
+                        <TableHead className="text-right">Peer r</TableHead>
+                        <TableHead className="text-right">Noise σ</TableHead>
+                        <TableHead className="text-right">418 Errors</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {sortRankings(rankings.filter(r => r.sensorType === type), metric).map((ranking, index) => {
+                        const key = `${type}|${ranking.sensorModel}`;
+                        const isSelected = key === selectedKey;
+
+                        return (
+                          <Fragment key={key}>
+                            <TableRow
+                              onClick={() => setSelectedKey(isSelected ? undefined : key)}
+                              className="cursor-pointer"
+                              data-state={isSelected ? 'selected' : undefined}
+                            >
+                              <TableCell className="text-muted-foreground">{index + 1}</TableCell>
+                              <TableCell className="font-medium">{ranking.sensorModel}</TableCell>
+                              <TableCell className="text-right">{ranking.sensors.length}</TableCell>
+                              <TableCell className="text-right">{formatPercent(ranking.uptime)}</TableCell>
+                              <TableCell className="text-right">{formatValue(ranking.peerMae)}</TableCell>
+                              <TableCell className="text-right">{ranking.peerR !== null ? ranking.peerR.toFixed(3) : '—'}</TableCell>
+                              <TableCell className="text-right">{formatValue(ranking.noise)}</TableCell>
+                              <TableCell className="text-right">{formatPercent(ranking.errorShare)}</TableCell>
+                            </TableRow>
+                            {isSelected && ranking.sensors.map(sensor => (
+                              <TableRow key={sensor.pubkey} className="bg-muted/30 hover:bg-muted/30 text-sm">
+                                <TableCell />
+                                <TableCell className="pl-6">{stationName(sensor.pubkey)}</TableCell>
+                                <TableCell className="text-right">
+                                  {sensor.status === '418' ? (
+                                    <Badge variant="outline" className="text-xs text-amber-700 border-amber-300 bg-amber-50 dark:text-amber-400 dark:border-amber-800 dark:bg-amber-950">
+                                      418
+                                    </Badge>
+                                  ) : (
+                                    <span className="text-xs text-muted-foreground">{sensor.status ?? '—'}</span>
+                                  )}
+                                </TableCell>
+                                <TableCell className="text-right">{formatPercent(sensor.uptime)}</TableCell>
+                                <TableCell className="text-right">{formatValue(sensor.peerMae)}</TableCell>
+                                <TableCell className="text-right">{sensor.peerR !== null ? sensor.peerR.toFixed(3) : '—'}</TableCell>
+                                <TableCell className="text-right">{formatValue(sensor.noise)}</TableCell>
+                                <TableCell />
+                              </TableRow>
+                            ))}
+                          </Fragment>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+            );
+          })
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default Models;
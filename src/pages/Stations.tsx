@@ -1,26 +1,58 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { useSeoMeta } from '@unhead/react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Label } from '@/components/ui/label';
 import { Skeleton } from '@/components/ui/skeleton';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { Header } from '@/components/Header';
 import { StationDetailModal } from '@/components/StationDetailModal';
+import { LiveModeToggle } from '@/components/LiveModeToggle';
+import { SensorTypeIcon } from '@/components/SensorTypeIcon';
 import { RefreshCw } from 'lucide-react';
 import { useWeatherStations, type WeatherStation } from '@/hooks/useWeatherStations';
 import { useAllLatestReadings, type LatestSensorData } from '@/hooks/useAllLatestReadings';
+import { useLiveReadings } from '@/hooks/useLiveReadings';
+import { useStationReliability } from '@/hooks/useStationReliability';
+import { useAppContext } from '@/hooks/useAppContext';
+import { useSensorTypes } from '@/hooks/useSensorTypes';
+import { useUnits } from '@/hooks/useUnits';
 import { useQueryClient } from '@tanstack/react-query';
+import { getDerivedTypes } from '@/lib/derived';
+import { RELIABILITY_PERIODS, formatDuration, type ReliabilityPeriod, type StationReliability } from '@/lib/reliability';
+import { cn } from '@/lib/utils';
+
+type StationSort = 'default' | 'reliability' | 'outage';
+
+// Orders the station list can be sorted in
+const STATION_SORTS: Record<StationSort, string> = {
+  default: 'Default',
+  reliability: 'Fewest missed',
+  outage: 'Shortest outage',
+};
 
 function StationCard({ 
   station, 
   allReadings, 
+  reliability,
   onClick 
 }: { 
   station: WeatherStation; 
   allReadings: LatestSensorData[];
+  reliability?: StationReliability | null; // Null when the events couldn't all be fetched
   onClick: () => void;
 }) {
+  const sensorTypes = useSensorTypes();
+  const units = useUnits();
+
   // Force re-render every minute to update relative timestamps
   const [, setTick] = useState(0);
 
@@ -69,6 +101,19 @@ function StationCard({
                 No readings
               </span>
             )}
+            {reliability === null && (
+              <span className="ml-auto text-xs text-muted-foreground" title="Some events couldn't be fetched for this period">
+                Incomplete
+              </span>
+            )}
+            {reliability?.missedPercent != null && (
+              <span
+                className="ml-auto text-xs text-muted-foreground"
+                title={`Longest outage ${formatDuration(reliability.longestOutage)}, ${reliability.restarts} restart${reliability.restarts !== 1 ? 's' : ''}`}
+              >
+                {(100 - reliability.missedPercent).toFixed(1)}% on schedule
+              </span>
+            )}
           </div>
           {station.description && (
             <p className="text-sm text-muted-foreground mb-2">{station.description}</p>
@@ -102,23 +147,31 @@ function StationCard({
               <div className="text-xs font-medium text-muted-foreground mb-2 px-1">
                 {model.model}
               </div>
-              <div className="flex gap-2">
-                {model.types.map((type) => {
+              <div className="flex flex-wrap gap-2">
+                {[...model.types, ...getDerivedTypes(model.types)].map((type) => {
                   const reading = stationReadings.find(
                     r => r.sensorType === type && r.sensorModel === model.model
                   );
+                  const isDerived = !model.types.includes(type);
 
                   return (
                     <div
                       key={type}
-                      className="border border-dashed border-muted-foreground/20 rounded p-2 bg-background min-w-[80px] hover:bg-accent/50 transition-colors"
+                      className={cn(
+                        'border border-dashed border-muted-foreground/20 rounded p-2 bg-background min-w-[80px] hover:bg-accent/50 transition-colors',
+                        isDerived && 'bg-muted/40'
+                      )}
+                      title={isDerived ? `${sensorTypes.get(type).name}, derived from this model's readings` : undefined}
                     >
-                      <div className="text-xs text-muted-foreground mb-1">{type}</div>
+                      <div className="text-xs text-muted-foreground mb-1 flex items-center gap-1">
+                        <SensorTypeIcon icon={sensorTypes.get(type).icon} className="h-3 w-3" />
+                        {type}
+                      </div>
                       {reading ? (
                         <div className="text-base font-semibold">
-                          {reading.value.toFixed(1)}
+                          {units.format(reading.value, type)}
                           <span className="text-xs font-normal text-muted-foreground ml-1">
-                            {reading.unit}
+                            {units.unit(type)}
                           </span>
                         </div>
                       ) : (
@@ -144,7 +197,10 @@ const Stations = () => {
 
   const [hideInactive, setHideInactive] = useState(true);
   const [selectedStation, setSelectedStation] = useState<WeatherStation | null>(null);
+  const [sortBy, setSortBy] = useState<StationSort>('default');
+  const [period, setPeriod] = useState<ReliabilityPeriod>('24h');
   const queryClient = useQueryClient();
+  const { config } = useAppContext();
   const { data: stations, isLoading: stationsLoading } = useWeatherStations();
 
   // Get all station pubkeys
@@ -153,6 +209,18 @@ const Stations = () => {
   // Fetch all readings in a single query
   const { data: allReadings = [], isLoading: readingsLoading } = useAllLatestReadings(pubkeys);
 
+  // Append new readings as they are published while live mode is on
+  useLiveReadings(pubkeys, config.liveMode);
+
+  // Reporting reliability over the chosen period
+  const { since, until } = useMemo(() => {
+    const now = Math.floor(Date.now() / 1000);
+    return { since: now - RELIABILITY_PERIODS[period].seconds, until: now };
+  }, [period]);
+  // Only fetched while sorting by it, since it needs every event in the period
+  const sortByReliability = sortBy !== 'default';
+  const { data: reliability = {} } = useStationReliability(pubkeys, since, until, sortByReliability);
+
   const isLoading = stationsLoading || readingsLoading;
 
   // Filter stations based on hideInactive setting
@@ -162,10 +230,21 @@ const Stations = () => {
     return hasReadings;
   }) || [];
 
+  // Stations without enough events to judge sort last
+  if (sortByReliability) {
+    const score = (station: WeatherStation) => {
+      const r = reliability[station.pubkey];
+      if (!r || r.missedPercent === null) return Infinity;
+      return sortBy === 'reliability' ? r.missedPercent : r.longestOutage;
+    };
+    filteredStations.sort((a, b) => score(a) - score(b));
+  }
+
   const handleRefresh = () => {
     // Invalidate all station-related queries
     queryClient.invalidateQueries({ queryKey: ['weather-stations'] });
     queryClient.invalidateQueries({ queryKey: ['all-latest-readings'] });
+    queryClient.invalidateQueries({ queryKey: ['station-reliability'] });
   };
 
   return (
@@ -180,7 +259,30 @@ const Stations = () => {
               Overview of all active stations and their sensors
             </p>
           </div>
-          <div className="flex items-center gap-4">
+          <div className="flex flex-wrap items-center gap-4">
+            <div className="flex items-center gap-2">
+              <Label htmlFor="station-sort" className="text-sm font-normal whitespace-nowrap">Sort by</Label>
+              <Select value={sortBy} onValueChange={(value) => setSortBy(value as StationSort)}>
+                <SelectTrigger id="station-sort" className="h-8 w-[150px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(STATION_SORTS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {sortByReliability && (
+                <Tabs value={period} onValueChange={(value) => setPeriod(value as ReliabilityPeriod)}>
+                  <TabsList className="h-8">
+                    {Object.entries(RELIABILITY_PERIODS).map(([value, { tab }]) => (
+                      <TabsTrigger key={value} value={value} className="text-xs">{tab}</TabsTrigger>
+                    ))}
+                  </TabsList>
+                </Tabs>
+              )}
+            </div>
+            <LiveModeToggle />
             <div className="flex items-center space-x-2">
               <Checkbox
                 id="hide-inactive"
@@ -217,7 +319,7 @@ const Stations = () => {
           <Card className="border-dashed">
             <CardContent className="py-12 text-center">
               <p className="text-muted-foreground">
-                No weather stations found. Make sure your stations are publishing to wss://relay.samt.st
+                No weather stations found. Make sure your stations are publishing to one of your station data relays
               </p>
             </CardContent>
           </Card>
@@ -230,6 +332,7 @@ const Stations = () => {
                 key={station.pubkey} 
                 station={station} 
                 allReadings={allReadings}
+                reliability={sortByReliability ? reliability[station.pubkey] : undefined}
                 onClick={() => setSelectedStation(station)}
               />
             ))}
@@ -238,6 +341,7 @@ const Stations = () => {
 
         <StationDetailModal
           station={selectedStation}
+          stations={stations ?? []}
           readings={allReadings}
           open={selectedStation !== null}
           onOpenChange={(open) => !open && setSelectedStation(null)}
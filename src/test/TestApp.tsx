@@ -6,6 +6,8 @@ import NostrProvider from '@/components/NostrProvider';
 import { AppProvider } from '@/components/AppProvider';
 import { NWCProvider } from '@/contexts/NWCContext';
 import { AppConfig } from '@/contexts/AppContext';
+import { DEFAULT_UNIT_PREFERENCES } from '@/lib/units';
+import { DEFAULT_DRIFT_THRESHOLD } from '@/lib/drift';
 
 interface TestAppProps {
   children: React.ReactNode;
@@ -29,6 +31,12 @@ export function TestApp({ children }: TestAppProps) {
       ],
       updatedAt: 0,
     },
+    stationRelays: ['wss://relay.samt.st'],
+    liveMode: false,
+    customSensorTypes: [],
+    unitPreferences: DEFAULT_UNIT_PREFERENCES,
+    outlierRules: {},
+    driftThreshold: DEFAULT_DRIFT_THRESHOLD,
   };
 
   return (